@@ -0,0 +1,125 @@
+/**
+ * AG Telemetry - Command Runner
+ * Runs discovery tools without a shell, with timeouts and output caps
+ */
+
+import { ChildProcess, spawn } from 'child_process';
+
+/**
+ * A single command invocation
+ * Arguments are passed to the executable as-is; nothing is ever
+ * interpreted by a shell.
+ */
+export interface CommandRequest {
+    /** Executable name (resolved through PATH) or absolute path */
+    file: string;
+    args: string[];
+    timeoutMs: number;
+    /** Maximum stdout size; larger output fails the command */
+    maxBytes: number;
+    signal: AbortSignal;
+}
+
+/** The command ran to completion */
+export interface CommandOutput {
+    kind: 'output';
+    stdout: string;
+    /** Exit code; tools such as lsof exit non-zero when nothing matched */
+    exitCode: number | null;
+}
+
+/** The command could not be run or was stopped */
+export interface CommandFailure {
+    kind: 'error';
+    /** 'timeout', 'aborted', 'oversized', or an errno code such as ENOENT */
+    code: string;
+    message: string;
+}
+
+/** Outcome of a command; runners never reject */
+export type CommandResult = CommandOutput | CommandFailure;
+
+/**
+ * Runs commands for process and port discovery
+ * Injectable so platform parsers can be exercised with recorded output.
+ */
+export interface CommandRunner {
+    run(request: CommandRequest): Promise<CommandResult>;
+}
+
+/**
+ * Arguments running a PowerShell script without loading the user's profile
+ */
+export function powerShellArgs(script: string): string[] {
+    return ['-NoProfile', '-NonInteractive', '-Command', script];
+}
+
+/**
+ * Command runner backed by child_process.spawn with shell disabled
+ */
+export class NodeCommandRunner implements CommandRunner {
+    run(request: CommandRequest): Promise<CommandResult> {
+        const { file, args, timeoutMs, maxBytes, signal } = request;
+        const failure = (code: string, message: string): CommandFailure => ({ kind: 'error', code, message });
+
+        return new Promise(resolve => {
+            if (signal.aborted) {
+                resolve(failure('aborted', `${file} aborted`));
+                return;
+            }
+
+            let child: ChildProcess;
+            try {
+                child = spawn(file, args, {
+                    shell: false,
+                    windowsHide: true,
+                    stdio: ['ignore', 'pipe', 'ignore']
+                });
+            } catch (err) {
+                const error = err as NodeJS.ErrnoException;
+                resolve(failure(error.code ?? 'error', error.message));
+                return;
+            }
+
+            const chunks: Buffer[] = [];
+            let size = 0;
+            let settled = false;
+
+            const finish = (result: CommandResult) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                clearTimeout(timer);
+                signal.removeEventListener('abort', onAbort);
+                resolve(result);
+            };
+            const stop = (result: CommandFailure) => {
+                child.kill();
+                finish(result);
+            };
+            const onAbort = () => stop(failure('aborted', `${file} aborted`));
+
+            const timer = setTimeout(
+                () => stop(failure('timeout', `${file} timed out after ${timeoutMs}ms`)),
+                timeoutMs
+            );
+            signal.addEventListener('abort', onAbort, { once: true });
+
+            child.stdout?.on('data', (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > maxBytes) {
+                    stop(failure('oversized', `${file} output exceeded ${maxBytes} bytes`));
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            child.on('error', (err: NodeJS.ErrnoException) => finish(failure(err.code ?? 'error', err.message)));
+            child.on('close', exitCode => finish({
+                kind: 'output',
+                stdout: Buffer.concat(chunks).toString('utf8'),
+                exitCode
+            }));
+        });
+    }
+}
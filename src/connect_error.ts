@@ -0,0 +1,134 @@
+/**
+ * AG Telemetry - Connect Error Decoding
+ * Parses Connect protocol JSON error bodies into typed failures
+ */
+
+import { ConnectError, ConnectErrorCode, ConnectFailureReason } from './types';
+import { sanitizeLabel } from './security';
+
+const CONNECT_ERROR_CODES: readonly ConnectErrorCode[] = [
+    'canceled',
+    'unknown',
+    'invalid_argument',
+    'deadline_exceeded',
+    'not_found',
+    'already_exists',
+    'permission_denied',
+    'resource_exhausted',
+    'failed_precondition',
+    'aborted',
+    'out_of_range',
+    'unimplemented',
+    'internal',
+    'unavailable',
+    'data_loss',
+    'unauthenticated'
+];
+
+const MAX_MESSAGE_LENGTH = 200;
+const MAX_DETAILS = 5;
+const MAX_DETAIL_TYPE_LENGTH = 128;
+
+/**
+ * Check whether a value is a known Connect error code
+ */
+export function isConnectErrorCode(value: unknown): value is ConnectErrorCode {
+    return typeof value === 'string' && (CONNECT_ERROR_CODES as readonly string[]).includes(value);
+}
+
+/**
+ * Infer a Connect code from the HTTP status when the body carries none,
+ * following the Connect protocol's HTTP-to-code mapping
+ */
+export function codeFromHttpStatus(status: number): ConnectErrorCode {
+    switch (status) {
+        case 400: return 'internal';
+        case 401: return 'unauthenticated';
+        case 403: return 'permission_denied';
+        case 404: return 'unimplemented';
+        case 429:
+        case 502:
+        case 503:
+        case 504: return 'unavailable';
+        default: return 'unknown';
+    }
+}
+
+/**
+ * Decode a non-200 Connect response
+ * Bodies that are missing, oversized or not Connect JSON fall back to the
+ * HTTP status mapping. Secrets are redacted from the message before it is
+ * sanitized for display.
+ *
+ * @param httpStatus - HTTP status code of the response
+ * @param body - Response body read under the size limit, or null
+ * @param secrets - Values to redact from the message (e.g. the CSRF token)
+ * @returns The decoded error
+ */
+export function parseConnectError(
+    httpStatus: number,
+    body: string | null,
+    secrets: string[] = []
+): ConnectError {
+    let parsed: unknown;
+    if (body) {
+        try {
+            parsed = JSON.parse(body);
+        } catch {
+            parsed = undefined;
+        }
+    }
+
+    const fields = parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? parsed as Record<string, unknown>
+        : {};
+
+    const inferred = !isConnectErrorCode(fields.code);
+    const code = isConnectErrorCode(fields.code) ? fields.code : codeFromHttpStatus(httpStatus);
+
+    let message = typeof fields.message === 'string' ? fields.message : '';
+    for (const secret of secrets) {
+        if (secret) {
+            message = message.split(secret).join('[redacted]');
+        }
+    }
+
+    const detailTypes = Array.isArray(fields.details)
+        ? fields.details
+            .map(detail => (detail && typeof detail === 'object'
+                ? (detail as Record<string, unknown>).type
+                : undefined))
+            .filter((type): type is string => typeof type === 'string')
+            .slice(0, MAX_DETAILS)
+            .map(type => sanitizeLabel(type, MAX_DETAIL_TYPE_LENGTH))
+        : [];
+
+    return {
+        code,
+        message: sanitizeLabel(message, MAX_MESSAGE_LENGTH),
+        httpStatus,
+        detailTypes,
+        inferred,
+        timestamp: Date.now()
+    };
+}
+
+/**
+ * Map a Connect error to the failure reason tracked by the service
+ */
+export function classifyConnectError(error: ConnectError): ConnectFailureReason {
+    switch (error.code) {
+        case 'unauthenticated':
+        case 'permission_denied':
+            return 'token-invalid';
+        case 'unimplemented':
+        case 'not_found':
+            return 'rpc-unavailable';
+        case 'unavailable':
+        case 'resource_exhausted':
+        case 'deadline_exceeded':
+            return 'server-busy';
+        default:
+            return 'server-error';
+    }
+}
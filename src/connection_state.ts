@@ -0,0 +1,121 @@
+/**
+ * AG Telemetry - Connection State Machine
+ * Allowed uplink state transitions and reconnect backoff policy
+ */
+
+import { ConnectionState } from './types';
+
+/**
+ * Allowed transitions of the uplink state machine
+ *
+ *   OFFLINE     → DISCOVERING (connect requested), PROBING (fast reconnect / manual port)
+ *   DISCOVERING → PROBING (server found), BACKOFF (nothing found), OFFLINE (stopped)
+ *   PROBING     → CONNECTED (port accepted), BACKOFF (no port accepted), OFFLINE (stopped)
+ *   CONNECTED   → DEGRADED (request failed), DISCOVERING / PROBING (reconnect requested),
+ *                 OFFLINE (target changed or stopped)
+ *   DEGRADED    → CONNECTED (request succeeded), BACKOFF (signal lost),
+ *                 DISCOVERING / PROBING (reconnect requested), OFFLINE (stopped)
+ *   BACKOFF     → DISCOVERING / PROBING (retry timer fired or manual retry), OFFLINE (stopped)
+ */
+export const CONNECTION_TRANSITIONS: Readonly<Record<ConnectionState, readonly ConnectionState[]>> = {
+    [ConnectionState.OFFLINE]: [
+        ConnectionState.DISCOVERING,
+        ConnectionState.PROBING
+    ],
+    [ConnectionState.DISCOVERING]: [
+        ConnectionState.PROBING,
+        ConnectionState.BACKOFF,
+        ConnectionState.OFFLINE
+    ],
+    [ConnectionState.PROBING]: [
+        ConnectionState.CONNECTED,
+        ConnectionState.BACKOFF,
+        ConnectionState.OFFLINE
+    ],
+    [ConnectionState.CONNECTED]: [
+        ConnectionState.DEGRADED,
+        ConnectionState.DISCOVERING,
+        ConnectionState.PROBING,
+        ConnectionState.OFFLINE
+    ],
+    [ConnectionState.DEGRADED]: [
+        ConnectionState.CONNECTED,
+        ConnectionState.BACKOFF,
+        ConnectionState.DISCOVERING,
+        ConnectionState.PROBING,
+        ConnectionState.OFFLINE
+    ],
+    [ConnectionState.BACKOFF]: [
+        ConnectionState.DISCOVERING,
+        ConnectionState.PROBING,
+        ConnectionState.OFFLINE
+    ]
+};
+
+/**
+ * Check whether a state transition is allowed
+ */
+export function canTransition(from: ConnectionState, to: ConnectionState): boolean {
+    return CONNECTION_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Reconnect backoff configuration
+ */
+export interface BackoffPolicy {
+    /** Delay before the first retry in milliseconds */
+    baseMs: number;
+    /** Upper bound for any single delay in milliseconds */
+    maxMs: number;
+    /** Relative jitter applied to each delay (0 - 1) */
+    jitter: number;
+}
+
+/** Default policy: 2s, 4s, 8s ... capped at 5 minutes, ±20% jitter */
+export const DEFAULT_BACKOFF_POLICY: BackoffPolicy = {
+    baseMs: 2000,
+    maxMs: 5 * 60 * 1000,
+    jitter: 0.2
+};
+
+/**
+ * Compute the delay before a reconnect attempt using exponential backoff
+ * with jitter. The jittered delay never exceeds the policy cap.
+ *
+ * @param attempt - Zero-based number of failed attempts so far
+ * @param policy - Backoff configuration
+ * @param random - Random source in [0, 1) (injectable for tests)
+ * @returns Delay in milliseconds
+ */
+export function computeBackoffDelay(
+    attempt: number,
+    policy: BackoffPolicy = DEFAULT_BACKOFF_POLICY,
+    random: () => number = Math.random
+): number {
+    const safeAttempt = Number.isFinite(attempt) ? Math.max(0, Math.floor(attempt)) : 0;
+    // Cap the exponent so the intermediate value cannot overflow
+    const exponential = policy.baseMs * Math.pow(2, Math.min(safeAttempt, 30));
+    const capped = Math.min(policy.maxMs, exponential);
+
+    const jitter = Math.max(0, Math.min(1, policy.jitter));
+    const factor = 1 - jitter + random() * 2 * jitter;
+
+    return Math.round(Math.min(policy.maxMs, Math.max(0, capped * factor)));
+}
+
+/**
+ * Format the time remaining until a retry for display
+ *
+ * @param ms - Remaining time in milliseconds
+ * @returns Compact countdown such as "45s" or "2m 05s"
+ */
+export function formatRetryCountdown(ms: number): string {
+    const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+    if (totalSeconds < 60) {
+        return `${totalSeconds}s`;
+    }
+
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}m ${seconds.toString().padStart(2, '0')}s`;
+}
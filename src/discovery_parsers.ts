@@ -0,0 +1,266 @@
+/**
+ * AG Telemetry - Discovery Parsers
+ * Turns raw ps, lsof, ss, netstat, wmic, tasklist and PowerShell output
+ * into processes and ports
+ */
+
+import { BeaconCandidate, ProcessIdentity } from './procfs';
+import { isValidCsrfToken, isValidPid } from './security';
+
+/** Language server executables carry this in their name on every platform */
+const LANGUAGE_SERVER_MARKER = 'language_server';
+
+/**
+ * Extract the last valid CSRF token from a command line
+ */
+function extractToken(commandLine: string): string | null {
+    const tokenPattern = /--csrf[_-]?token[=\s]+([a-f0-9-]+)/ig;
+    let match: RegExpExecArray | null;
+    let token: string | null = null;
+    while ((match = tokenPattern.exec(commandLine)) !== null) {
+        if (isValidCsrfToken(match[1])) {
+            token = match[1];
+        }
+    }
+    return token;
+}
+
+function extractWorkspaceId(commandLine: string): string | undefined {
+    const match = commandLine.match(/--workspace[_-]?id[=\s]+(\S{1,512})(?:\s|$)/i);
+    return match ? match[1] : undefined;
+}
+
+/**
+ * Build candidates from pid and command line pairs, dropping processes
+ * that are not language servers or carry no valid token
+ */
+function collectCandidates(processes: { pid: number; commandLine: string }[]): BeaconCandidate[] {
+    const candidates: BeaconCandidate[] = [];
+    const seen = new Set<number>();
+
+    for (const { pid, commandLine } of processes) {
+        if (seen.has(pid) || !isValidPid(pid) || !commandLine.toLowerCase().includes(LANGUAGE_SERVER_MARKER)) {
+            continue;
+        }
+        const token = extractToken(commandLine);
+        if (!token) {
+            continue;
+        }
+        seen.add(pid);
+        const workspaceId = extractWorkspaceId(commandLine);
+        candidates.push(workspaceId ? { pid, token, workspaceId } : { pid, token });
+    }
+
+    return candidates;
+}
+
+/**
+ * Parse JSON from PowerShell, which emits a bare object for one result
+ *
+ * @returns The result rows, or null when the output is not JSON
+ */
+function parsePowerShellRows(raw: string): Record<string, unknown>[] | null {
+    if (!raw.trim()) {
+        return [];
+    }
+    try {
+        const data: unknown = JSON.parse(raw);
+        const rows = Array.isArray(data) ? data : [data];
+        return rows.filter((row): row is Record<string, unknown> => typeof row === 'object' && row !== null);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Parse `ps -o pid=,args=` output into language server candidates
+ *
+ * @param raw - One process per line: pid, whitespace, full command line
+ */
+export function parsePsProcesses(raw: string): BeaconCandidate[] {
+    const processes: { pid: number; commandLine: string }[] = [];
+    for (const line of raw.split('\n')) {
+        const match = line.trim().match(/^(\d+)\s+(.*)$/);
+        if (match) {
+            processes.push({ pid: parseInt(match[1], 10), commandLine: match[2] });
+        }
+    }
+    return collectCandidates(processes);
+}
+
+/**
+ * Parse `Get-CimInstance Win32_Process | Select-Object ProcessId,CommandLine
+ * | ConvertTo-Json` output into language server candidates
+ */
+export function parseWindowsProcesses(raw: string): BeaconCandidate[] {
+    const rows = parsePowerShellRows(raw) ?? [];
+    return collectCandidates(rows.map(row => ({
+        pid: Number(row.ProcessId),
+        commandLine: typeof row.CommandLine === 'string' ? row.CommandLine : ''
+    })));
+}
+
+/**
+ * Parse `ps -o uid=,comm=` output for a single process
+ * Only absolute paths are accepted; Linux procps prints the bare name,
+ * which cannot be verified.
+ */
+export function parsePsIdentity(raw: string): ProcessIdentity | null {
+    const match = raw.trim().match(/^(\d+)\s+(\/.*)$/);
+    return match ? { uid: parseInt(match[1], 10), executable: match[2] } : null;
+}
+
+/**
+ * Parse `ProcessId`, `ExecutablePath` and `User` rows emitted for Windows
+ * processes, keeping the row of one process
+ */
+export function parseWindowsIdentity(raw: string, pid: number): ProcessIdentity | null {
+    const row = parsePowerShellRows(raw)?.find(r => Number(r.ProcessId) === pid);
+    if (!row) {
+        return null;
+    }
+    const executable = typeof row.ExecutablePath === 'string' ? row.ExecutablePath : '';
+    const user = typeof row.User === 'string' ? row.User : '';
+    return {
+        ...(executable ? { executable } : {}),
+        ...(user ? { user } : {})
+    };
+}
+
+/**
+ * Take the port from an address such as `127.0.0.1:42100`, `[::1]:42100`
+ * or `*:42100`
+ */
+function portFromAddress(address: string): number {
+    const match = address.match(/:(\d{1,5})$/);
+    return match ? parseInt(match[1], 10) : NaN;
+}
+
+/**
+ * Parse `lsof -nP -iTCP -sTCP:LISTEN -a -p <pid> -Fn` output
+ * Each `n` field holds the local address of one listening socket.
+ */
+export function parseLsofListeners(raw: string): number[] {
+    return raw.split('\n')
+        .filter(line => line.startsWith('n'))
+        .map(line => portFromAddress(line.slice(1).trim()));
+}
+
+/**
+ * Parse `ss -tlnp` output, keeping sockets owned by a process
+ *
+ * @param raw - Table with State, Recv-Q, Send-Q, Local, Peer and Process columns
+ * @param pid - Process whose listening ports are wanted
+ */
+export function parseSsListeners(raw: string, pid: number): number[] {
+    const owner = new RegExp(`[(,]pid=${pid}(?:,|\\))`);
+    const ports: number[] = [];
+    for (const line of raw.split('\n')) {
+        const fields = line.trim().split(/\s+/);
+        if (fields.length >= 6 && fields[0] === 'LISTEN' && owner.test(line)) {
+            ports.push(portFromAddress(fields[3]));
+        }
+    }
+    return ports;
+}
+
+/**
+ * Parse `Get-NetTCPConnection -State Listen | Select-Object LocalPort,
+ * OwningProcess | ConvertTo-Json` output, keeping sockets owned by a process
+ */
+export function parseWindowsListeners(raw: string, pid: number): number[] {
+    return (parsePowerShellRows(raw) ?? [])
+        .filter(row => Number(row.OwningProcess) === pid)
+        .map(row => Number(row.LocalPort));
+}
+
+/**
+ * Parse `wmic process ... get ProcessId,CommandLine /value` output
+ * Each process is a block of `Key=Value` lines separated by blank lines.
+ */
+export function parseWmicProcesses(raw: string): BeaconCandidate[] {
+    const processes: { pid: number; commandLine: string }[] = [];
+    for (const block of raw.split(/\r?\n\s*\r?\n/)) {
+        let pid = NaN;
+        let commandLine = '';
+        for (const line of block.split(/\r?\n/)) {
+            const separator = line.indexOf('=');
+            const key = line.slice(0, separator).trim();
+            const value = line.slice(separator + 1).trim();
+            if (key === 'ProcessId') {
+                pid = parseInt(value, 10);
+            } else if (key === 'CommandLine') {
+                commandLine = value;
+            }
+        }
+        processes.push({ pid, commandLine });
+    }
+    return collectCandidates(processes);
+}
+
+/**
+ * Parse `tasklist /FO CSV /NH` output into process ids
+ * tasklist cannot show command lines, so it only tells whether language
+ * servers are running at all.
+ */
+export function parseTasklistPids(raw: string): number[] {
+    const pids: number[] = [];
+    for (const line of raw.split(/\r?\n/)) {
+        const match = line.match(/^"([^"]*)","(\d+)"/);
+        if (match && match[1].toLowerCase().includes(LANGUAGE_SERVER_MARKER)) {
+            pids.push(parseInt(match[2], 10));
+        }
+    }
+    return pids;
+}
+
+/**
+ * Parse Windows `netstat -ano` output, keeping TCP listeners of a process
+ * The state column is localized, so a listener is recognized by its
+ * unconnected foreign address instead.
+ */
+export function parseWindowsNetstatListeners(raw: string, pid: number): number[] {
+    const ports: number[] = [];
+    for (const line of raw.split(/\r?\n/)) {
+        const fields = line.trim().split(/\s+/);
+        if (fields.length === 5 && fields[0] === 'TCP' && fields[4] === String(pid) &&
+            /^(?:0\.0\.0\.0|\[::\]):0$/.test(fields[2])) {
+            ports.push(portFromAddress(fields[1]));
+        }
+    }
+    return ports;
+}
+
+/**
+ * Parse macOS `netstat -anv -p tcp` output, keeping listeners of a process
+ * Addresses end in `.port`; the owner column is either the bare pid or
+ * `name:pid` depending on the macOS release.
+ */
+export function parseDarwinNetstatListeners(raw: string, pid: number): number[] {
+    const ports: number[] = [];
+    for (const line of raw.split('\n')) {
+        const fields = line.trim().split(/\s+/);
+        const owner = fields[8] ?? '';
+        if (fields.length >= 9 && fields[0].startsWith('tcp') && fields[5] === 'LISTEN' &&
+            (owner === String(pid) || owner.endsWith(`:${pid}`))) {
+            const match = fields[3].match(/\.(\d{1,5})$/);
+            ports.push(match ? parseInt(match[1], 10) : NaN);
+        }
+    }
+    return ports;
+}
+
+/**
+ * Parse Linux `netstat -tlnp` output, keeping listeners of a process
+ */
+export function parseLinuxNetstatListeners(raw: string, pid: number): number[] {
+    const ports: number[] = [];
+    for (const line of raw.split('\n')) {
+        const fields = line.trim().split(/\s+/);
+        if (fields.length >= 7 && fields[0].startsWith('tcp') && fields[5] === 'LISTEN' &&
+            fields[6].startsWith(`${pid}/`)) {
+            ports.push(portFromAddress(fields[3]));
+        }
+    }
+    return ports;
+}
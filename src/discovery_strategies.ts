@@ -0,0 +1,288 @@
+/**
+ * AG Telemetry - Discovery Strategies
+ * Ordered per-platform ways of listing language servers and their ports
+ */
+
+import { CommandRunner, powerShellArgs } from './command_runner';
+import {
+    parseDarwinNetstatListeners,
+    parseLinuxNetstatListeners,
+    parseLsofListeners,
+    parsePsProcesses,
+    parseSsListeners,
+    parseTasklistPids,
+    parseWindowsListeners,
+    parseWindowsNetstatListeners,
+    parseWindowsProcesses,
+    parseWmicProcesses
+} from './discovery_parsers';
+import { BeaconCandidate, findLanguageServerProcesses, readListeningPorts } from './procfs';
+import { StrategyAttempt } from './types';
+
+/** What strategies need to run */
+export interface StrategyContext {
+    runner: CommandRunner;
+    /** Root of the Linux process filesystem */
+    procRoot: string;
+    signal: AbortSignal;
+}
+
+/** Why a strategy produced no result */
+export interface StrategyFailure {
+    outcome: 'unavailable' | 'failed';
+    detail: string;
+}
+
+/**
+ * A single way of looking something up
+ */
+export interface DiscoveryStrategy<T> {
+    /** Name shown in diagnostics */
+    id: string;
+    run(context: StrategyContext): Promise<T[] | StrategyFailure>;
+}
+
+/** Result of running strategies in order */
+export interface StrategyRun<T> {
+    value: T[];
+    attempts: StrategyAttempt[];
+}
+
+/** Timeout for commands listing every process */
+const PROCESS_LIST_TIMEOUT_MS = 8000;
+
+/** Timeout for commands listing sockets */
+const PORT_LIST_TIMEOUT_MS = 5000;
+
+/** Output cap for listing commands */
+const MAX_LIST_OUTPUT_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Lists every language server process with its command line
+ * The script is fixed; callers pick a process from the parsed rows.
+ */
+export const WINDOWS_PROCESS_SCRIPT =
+    "Get-CimInstance Win32_Process -Filter 'Name LIKE ''%language_server%''' | " +
+    'Select-Object ProcessId,CommandLine | ConvertTo-Json -Compress';
+
+/**
+ * Lists every language server process with its executable path and owner
+ * The script is fixed; callers pick a process from the parsed rows.
+ */
+export const WINDOWS_IDENTITY_SCRIPT =
+    "Get-CimInstance Win32_Process -Filter 'Name LIKE ''%language_server%''' | ForEach-Object { " +
+    '$o = Invoke-CimMethod -InputObject $_ -MethodName GetOwner; ' +
+    '[pscustomobject]@{ProcessId=$_.ProcessId; ExecutablePath=$_.ExecutablePath; User=$o.User} ' +
+    '} | ConvertTo-Json -Compress';
+
+/**
+ * Build a strategy that runs a command and parses its output
+ */
+function commandStrategy<T>(
+    id: string,
+    file: string,
+    args: string[],
+    timeoutMs: number,
+    parse: (stdout: string) => T[] | StrategyFailure
+): DiscoveryStrategy<T> {
+    return {
+        id,
+        run: async ({ runner, signal }) => {
+            const result = await runner.run({ file, args, timeoutMs, maxBytes: MAX_LIST_OUTPUT_BYTES, signal });
+            if (result.kind === 'error') {
+                return result.code === 'ENOENT'
+                    ? { outcome: 'unavailable', detail: `${file} not found` }
+                    : { outcome: 'failed', detail: result.message };
+            }
+            if (!result.stdout.trim() && result.exitCode !== 0) {
+                return { outcome: 'failed', detail: `${file} exited with code ${result.exitCode}` };
+            }
+            return parse(result.stdout);
+        }
+    };
+}
+
+/**
+ * Build a strategy that runs a PowerShell script
+ */
+function powerShellStrategy<T>(
+    id: string,
+    script: string,
+    timeoutMs: number,
+    parse: (stdout: string) => T[]
+): DiscoveryStrategy<T> {
+    return commandStrategy(id, 'powershell', powerShellArgs(script), timeoutMs, parse);
+}
+
+/**
+ * Try strategies in order until one produces a result
+ * Every attempt is recorded so diagnostics can explain what was tried.
+ * Stops early when the signal is aborted.
+ *
+ * @param acceptEmpty - Treat an empty result as an answer instead of
+ *   falling through to the next strategy
+ */
+export async function runStrategies<T>(
+    strategies: DiscoveryStrategy<T>[],
+    context: StrategyContext,
+    acceptEmpty: boolean
+): Promise<StrategyRun<T>> {
+    const attempts: StrategyAttempt[] = [];
+
+    for (const strategy of strategies) {
+        if (context.signal.aborted) {
+            break;
+        }
+
+        const result = await strategy.run(context);
+        if (!Array.isArray(result)) {
+            attempts.push({ strategy: strategy.id, ...result });
+            continue;
+        }
+        if (result.length > 0 || acceptEmpty) {
+            attempts.push({ strategy: strategy.id, outcome: 'ok' });
+            return { value: result, attempts };
+        }
+        attempts.push({ strategy: strategy.id, outcome: 'empty' });
+    }
+
+    return { value: [], attempts };
+}
+
+/**
+ * Ways of listing language server processes, most capable first
+ */
+export function processStrategies(os: NodeJS.Platform): DiscoveryStrategy<BeaconCandidate>[] {
+    if (os === 'win32') {
+        return [
+            powerShellStrategy(
+                'cim',
+                WINDOWS_PROCESS_SCRIPT,
+                PROCESS_LIST_TIMEOUT_MS,
+                parseWindowsProcesses
+            ),
+            commandStrategy(
+                'wmic',
+                'wmic',
+                ['process', 'where', "name like '%language_server%'", 'get', 'ProcessId,CommandLine', '/value'],
+                PROCESS_LIST_TIMEOUT_MS,
+                parseWmicProcesses
+            ),
+            commandStrategy(
+                'tasklist',
+                'tasklist',
+                ['/FO', 'CSV', '/NH', '/FI', 'IMAGENAME eq language_server*'],
+                PROCESS_LIST_TIMEOUT_MS,
+                stdout => {
+                    const pids = parseTasklistPids(stdout);
+                    return pids.length === 0
+                        ? []
+                        : {
+                            outcome: 'failed',
+                            detail: `found PID ${pids.join(', ')}, but tasklist cannot read the CSRF token`
+                        };
+                }
+            )
+        ];
+    }
+
+    const ps = commandStrategy(
+        'ps',
+        'ps',
+        ['-axww', '-o', 'pid=,args='],
+        PROCESS_LIST_TIMEOUT_MS,
+        parsePsProcesses
+    );
+
+    if (os === 'linux') {
+        return [
+            {
+                id: 'procfs',
+                run: async ({ procRoot }) =>
+                    await findLanguageServerProcesses(procRoot) ??
+                    { outcome: 'unavailable', detail: `cannot read ${procRoot}` }
+            },
+            ps
+        ];
+    }
+    return [ps];
+}
+
+/**
+ * Ways of listing the TCP ports a process listens on, most capable first
+ */
+export function portStrategies(os: NodeJS.Platform, pid: number): DiscoveryStrategy<number>[] {
+    if (os === 'win32') {
+        return [
+            powerShellStrategy(
+                'Get-NetTCPConnection',
+                'Get-NetTCPConnection -State Listen | Select-Object LocalPort,OwningProcess | ConvertTo-Json -Compress',
+                PORT_LIST_TIMEOUT_MS,
+                stdout => parseWindowsListeners(stdout, pid)
+            ),
+            commandStrategy(
+                'netstat',
+                'netstat',
+                ['-ano'],
+                PORT_LIST_TIMEOUT_MS,
+                stdout => parseWindowsNetstatListeners(stdout, pid)
+            )
+        ];
+    }
+
+    if (os === 'darwin') {
+        return [
+            commandStrategy(
+                'lsof',
+                'lsof',
+                ['-nP', '-iTCP', '-sTCP:LISTEN', '-a', '-p', String(pid), '-Fn'],
+                PORT_LIST_TIMEOUT_MS,
+                parseLsofListeners
+            ),
+            commandStrategy(
+                'netstat',
+                'netstat',
+                ['-anv', '-p', 'tcp'],
+                PORT_LIST_TIMEOUT_MS,
+                stdout => parseDarwinNetstatListeners(stdout, pid)
+            )
+        ];
+    }
+
+    return [
+        {
+            id: 'procfs',
+            run: async ({ procRoot }) =>
+                await readListeningPorts(pid, procRoot) ??
+                { outcome: 'unavailable', detail: `cannot read ${procRoot}` }
+        },
+        commandStrategy(
+            'ss',
+            'ss',
+            ['-tlnp'],
+            PORT_LIST_TIMEOUT_MS,
+            stdout => parseSsListeners(stdout, pid)
+        ),
+        commandStrategy(
+            'netstat',
+            'netstat',
+            ['-tlnp'],
+            PORT_LIST_TIMEOUT_MS,
+            stdout => parseLinuxNetstatListeners(stdout, pid)
+        )
+    ];
+}
+
+/**
+ * Describe strategy attempts for diagnostics
+ * e.g. `ss (procfs unavailable: cannot read /proc)`
+ */
+export function formatStrategyAttempts(attempts: StrategyAttempt[]): string {
+    const used = attempts.find(a => a.outcome === 'ok');
+    const skipped = attempts
+        .filter(a => a.outcome !== 'ok')
+        .map(a => `${a.strategy} ${a.outcome}${a.detail ? `: ${a.detail}` : ''}`);
+
+    const head = used ? used.strategy : 'no result';
+    return skipped.length > 0 ? `${head} (${skipped.join('; ')})` : head;
+}
@@ -10,17 +10,51 @@ import { TelemetryService } from './telemetry_service';
 import { SystemsViewProvider, FuelViewProvider } from './tree_providers';
 import { FlightDeck } from './flight_deck';
 import {
+    ConnectionState,
     TelemetryConfig,
     TelemetrySnapshot,
-    FuelSystem
+    FuelSystem,
+    ModelCapability
 } from './types';
-import { normalizeScanInterval, sanitizeLabel } from './security';
+import { formatRetryCountdown } from './connection_state';
+import { formatStrategyAttempts } from './discovery_strategies';
+import {
+    MODEL_CAPABILITY_LABELS,
+    MODEL_METADATA_LABELS,
+    MetadataDimension,
+    collectMetadataValues,
+    describeModelFilter,
+    emptyModelFilter,
+    hasCapabilities,
+    metadataValues
+} from './model_filter';
+import {
+    isValidHost,
+    normalizeHeartbeatInterval,
+    normalizeProbeConcurrency,
+    normalizeScanBounds,
+    normalizeTrustedPaths,
+    sanitizeLabel
+} from './security';
+
+/** Global state key for the last successful uplink */
+const LAST_UPLINK_KEY = 'agTelemetry.lastUplink';
+
+/** Global state key for every GetUserStatus response structure seen so far */
+const SCHEMA_FINGERPRINT_KEY = 'agTelemetry.schemaFingerprint';
+
+/** Changed paths listed per category in diagnostics */
+const MAX_DIAGNOSTIC_PATHS = 50;
 
 let telemetryService: TelemetryService;
 let flightDeck: FlightDeck;
 
 let systemsProvider: SystemsViewProvider;
 let fuelProvider: FuelViewProvider;
+let fuelView: vscode.TreeView<unknown>;
+
+/** Response format changes are notified once per session; diagnostics list every one */
+let schemaWarningShown = false;
 
 /**
  * Load configuration from VS Code settings
@@ -44,11 +78,41 @@ function loadConfig(): TelemetryConfig {
         return fallback;
     };
 
-    const rawScanInterval = readSetting<number>('scanInterval', 90);
-    const scanInterval = normalizeScanInterval(rawScanInterval, 90);
+    const scanBounds = normalizeScanBounds(
+        readSetting<number>('scanInterval', 90),
+        readSetting<number>('minScanInterval', 30),
+        readSetting<number>('maxScanInterval', 600)
+    );
+
+    const rawHeartbeatInterval = readSetting<number>('heartbeatInterval', 15);
+    const heartbeatInterval = normalizeHeartbeatInterval(rawHeartbeatInterval, 15);
+
+    const rawProbeConcurrency = readSetting<number>('probeConcurrency', 4);
+    const probeConcurrency = normalizeProbeConcurrency(rawProbeConcurrency, 4);
+
+    const trustedServerPaths = normalizeTrustedPaths(readSetting<unknown>('trustedServerPaths', []));
+
+    // Manual uplink override; the service validates port and token again
+    const rawHost = readSetting<string>('connection.host', '127.0.0.1');
+    const rawPort = readSetting<number>('connection.port', 0);
+    const rawTokenFile = readSetting<string>('connection.tokenFile', '');
+    const rawTokenEnvVar = readSetting<string>('connection.tokenEnvVar', '');
 
     return {
-        scanInterval
+        scanInterval: scanBounds.baselineSeconds,
+        minScanInterval: scanBounds.minSeconds,
+        maxScanInterval: scanBounds.maxSeconds,
+        heartbeatInterval,
+        probeConcurrency,
+        trustedServerPaths,
+        connection: {
+            host: typeof rawHost === 'string' && isValidHost(rawHost.trim())
+                ? rawHost.trim()
+                : '127.0.0.1',
+            port: typeof rawPort === 'number' && Number.isInteger(rawPort) ? rawPort : 0,
+            tokenFile: typeof rawTokenFile === 'string' ? rawTokenFile : '',
+            tokenEnvVar: typeof rawTokenEnvVar === 'string' ? rawTokenEnvVar : ''
+        }
     };
 }
 
@@ -57,7 +121,12 @@ function loadConfig(): TelemetryConfig {
  */
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
     // Initialize core services
+    const initialConfig = loadConfig();
     telemetryService = new TelemetryService();
+    telemetryService.setProbeConcurrency(initialConfig.probeConcurrency);
+    telemetryService.setTrustedRoots(getTrustedRoots(initialConfig));
+    telemetryService.configureConnection(initialConfig.connection);
+    telemetryService.setKnownFingerprint(context.globalState.get<unknown>(SCHEMA_FINGERPRINT_KEY));
     flightDeck = new FlightDeck();
 
     // Initialize view providers
@@ -69,7 +138,7 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         treeDataProvider: systemsProvider,
         showCollapseAll: false
     });
-    const fuelView = vscode.window.createTreeView('agTelemetryFuelView', {
+    fuelView = vscode.window.createTreeView('agTelemetryFuelView', {
         treeDataProvider: fuelProvider,
         showCollapseAll: true
     });
@@ -84,20 +153,59 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     const unsubscribe = telemetryService.subscribe(event => {
         switch (event.type) {
             case 'telemetry-received':
-                handleTelemetryUpdate(event.payload as TelemetrySnapshot);
+                handleTelemetryUpdate(event.payload);
                 break;
-            case 'uplink-established':
+            case 'uplink-established': {
                 vscode.window.setStatusBarMessage('$(radio-tower) AG Telemetry: Uplink established', 3000);
+                const hint = telemetryService.getUplinkHint();
+                if (hint) {
+                    void context.globalState.update(LAST_UPLINK_KEY, hint);
+                }
+                systemsProvider.refresh(
+                    telemetryService.getLastSnapshot(),
+                    telemetryService.getUplinkStatus(),
+                    telemetryService.getInstances()
+                );
                 break;
+            }
             case 'uplink-lost':
                 flightDeck.showDisconnected();
-                systemsProvider.refresh(undefined, telemetryService.getUplinkStatus());
+                systemsProvider.refresh(undefined, telemetryService.getUplinkStatus(), telemetryService.getInstances());
                 break;
             case 'scan-started':
                 flightDeck.showScanning();
                 break;
+            case 'state-changed': {
+                flightDeck.showConnectionState(event.payload);
+                systemsProvider.setConnectionState(event.payload);
+                break;
+            }
+            case 'schema-changed': {
+                void context.globalState.update(SCHEMA_FINGERPRINT_KEY, event.payload.fingerprint);
+                const drift = event.payload.drift;
+                if (drift && !schemaWarningShown) {
+                    schemaWarningShown = true;
+                    const changed = drift.added.length + drift.retyped.length;
+                    void vscode.window.showWarningMessage(
+                        `AG Telemetry: The language server response format changed (${changed} field(s) ` +
+                        'added or retyped). Quota data may be incomplete.',
+                        'Run Diagnostics'
+                    ).then(action => {
+                        if (action) {
+                            void vscode.commands.executeCommand('agTelemetry.runDiagnostics');
+                        }
+                    });
+                }
+                break;
+            }
             case 'error':
-                console.error('AG Telemetry error:', event.payload);
+                console.error(`AG Telemetry error [${event.payload.kind}]: ${event.payload.message}`);
+                if (event.payload.kind === 'certificate-mismatch') {
+                    void vscode.window.showWarningMessage(
+                        `AG Telemetry: ${event.payload.message}. ` +
+                        'The language server certificate no longer matches the one seen when it was first contacted.'
+                    );
+                }
                 break;
         }
     });
@@ -107,6 +215,22 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     // Register commands
     registerCommands(context);
 
+    // Prefer the language server serving this window's workspace
+    telemetryService.setWorkspaceHints(getWorkspaceFolderUris());
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            telemetryService.setWorkspaceHints(getWorkspaceFolderUris());
+        })
+    );
+
+    // Pause scans while the window is unfocused or the user is idle
+    telemetryService.setScansPaused(!isWindowEngaged(vscode.window.state));
+    context.subscriptions.push(
+        vscode.window.onDidChangeWindowState(state => {
+            telemetryService.setScansPaused(!isWindowEngaged(state));
+        })
+    );
+
     // Watch for configuration changes
     context.subscriptions.push(
         vscode.workspace.onDidChangeConfiguration(e => {
@@ -119,36 +243,51 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     // Register disposables
     context.subscriptions.push(
         { dispose: () => telemetryService.dispose() },
-        { dispose: () => flightDeck.dispose() }
+        { dispose: () => flightDeck.dispose() },
+        { dispose: () => systemsProvider.dispose() }
     );
 
-    // Initial connection with delay
-    setTimeout(async () => {
-        await initializeWithRetry();
-    }, 3000);
+    // Initial connection: fast path to the last known server, otherwise
+    // full discovery after a short delay to let Antigravity start up
+    void connectOnActivation(context);
 }
 
 /**
- * Initialize with retry logic
+ * Connect on activation, reusing the last known uplink when still valid
  */
-async function initializeWithRetry(attempts: number = 3): Promise<void> {
-    for (let i = 0; i < attempts; i++) {
-        const connected = await telemetryService.establishUplink();
-
-        if (connected) {
-            const config = loadConfig();
-            await telemetryService.acquireTelemetry();
-            telemetryService.startPeriodicScans(config.scanInterval);
-            return;
-        }
+async function connectOnActivation(context: vscode.ExtensionContext): Promise<void> {
+    const hint = context.globalState.get<unknown>(LAST_UPLINK_KEY);
 
-        if (i < attempts - 1) {
-            await delay(2000);
-        }
+    if (hint && await telemetryService.tryFastReconnect(hint)) {
+        await telemetryService.acquireTelemetry();
+        startMonitoring(loadConfig());
+        return;
+    }
+
+    await delay(3000);
+    await initializeUplink();
+}
+
+/**
+ * Attempt an uplink and start periodic scans
+ * Failed attempts are retried by the service with exponential backoff.
+ *
+ * @param signal - Optional signal to cancel the attempt
+ */
+async function initializeUplink(signal?: AbortSignal): Promise<void> {
+    const connected = await telemetryService.establishUplink(signal);
+    startMonitoring(loadConfig());
+
+    if (signal?.aborted) {
+        return;
     }
 
-    flightDeck.showDisconnected();
-    systemsProvider.refresh(undefined, telemetryService.getUplinkStatus());
+    if (connected) {
+        await telemetryService.acquireTelemetry();
+        return;
+    }
+
+    systemsProvider.refresh(undefined, telemetryService.getUplinkStatus(), telemetryService.getInstances());
 
     // Silent notification via status bar
     vscode.window.setStatusBarMessage(
@@ -157,6 +296,32 @@ async function initializeWithRetry(attempts: number = 3): Promise<void> {
     );
 }
 
+/**
+ * (Re)start periodic quota scans and the liveness heartbeat
+ */
+function startMonitoring(config: TelemetryConfig): void {
+    telemetryService.startPeriodicScans({
+        baselineSeconds: config.scanInterval,
+        minSeconds: config.minScanInterval,
+        maxSeconds: config.maxScanInterval
+    });
+    telemetryService.startHeartbeat(config.heartbeatInterval);
+}
+
+/**
+ * Whether the window is focused and the user recently interacted with it
+ */
+function isWindowEngaged(state: vscode.WindowState): boolean {
+    return state.focused && state.active;
+}
+
+/**
+ * Get URIs of the open workspace folders
+ */
+function getWorkspaceFolderUris(): string[] {
+    return (vscode.workspace.workspaceFolders ?? []).map(folder => folder.uri.toString());
+}
+
 /**
  * Handle telemetry update
  */
@@ -167,18 +332,36 @@ function handleTelemetryUpdate(snapshot: TelemetrySnapshot): void {
     flightDeck.update(snapshot, uplink);
 
     // Update tree views
-    systemsProvider.refresh(snapshot, uplink);
+    systemsProvider.refresh(snapshot, uplink, telemetryService.getInstances());
     fuelProvider.refresh(snapshot.systems);
 }
 
+/**
+ * Directories trusted to hold the language server: the running
+ * Antigravity install plus the user's allowlist
+ */
+function getTrustedRoots(config: TelemetryConfig): string[] {
+    return vscode.env.appRoot
+        ? [vscode.env.appRoot, ...config.trustedServerPaths]
+        : config.trustedServerPaths;
+}
+
 /**
  * Handle configuration changes
  */
 function handleConfigChange(): void {
     const config = loadConfig();
+    telemetryService.setProbeConcurrency(config.probeConcurrency);
+    telemetryService.setTrustedRoots(getTrustedRoots(config));
+
+    // Reconnect when the manual uplink target changed
+    if (telemetryService.configureConnection(config.connection)) {
+        void initializeUplink();
+        return;
+    }
 
-    // Restart periodic scans with new interval
-    telemetryService.startPeriodicScans(config.scanInterval);
+    // Restart periodic scans and heartbeat with new intervals
+    startMonitoring(config);
 }
 
 /**
@@ -188,8 +371,16 @@ function registerCommands(context: vscode.ExtensionContext): void {
     // Refresh telemetry
     context.subscriptions.push(
         vscode.commands.registerCommand('agTelemetry.refreshTelemetry', async () => {
-            flightDeck.showScanning();
-            await telemetryService.acquireTelemetry();
+            await telemetryService.requestManualRefresh();
+
+            const connection = telemetryService.getConnectionState();
+            if (connection.state === ConnectionState.BACKOFF && connection.nextRetryAt) {
+                const remaining = formatRetryCountdown(connection.nextRetryAt - Date.now());
+                vscode.window.setStatusBarMessage(
+                    `$(debug-disconnect) AG Telemetry: Language server unreachable, retrying in ${remaining}`,
+                    5000
+                );
+            }
         })
     );
 
@@ -203,14 +394,32 @@ function registerCommands(context: vscode.ExtensionContext): void {
     // Establish uplink
     context.subscriptions.push(
         vscode.commands.registerCommand('agTelemetry.establishLink', async () => {
+            const controller = new AbortController();
+            // Joining an attempt already in progress cannot cancel it
+            const joined = telemetryService.isEstablishingUplink();
             await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
-                title: 'AG Telemetry: Establishing uplink...',
-                cancellable: false
-            }, async () => {
-                await initializeWithRetry(3);
+                title: joined
+                    ? 'AG Telemetry: Uplink attempt already in progress...'
+                    : 'AG Telemetry: Establishing uplink...',
+                cancellable: !joined
+            }, async (_progress, token) => {
+                const cancellation = token.onCancellationRequested(() => controller.abort());
+                try {
+                    if (!joined) {
+                        telemetryService.resetBackoff();
+                    }
+                    await initializeUplink(controller.signal);
+                } finally {
+                    cancellation.dispose();
+                }
             });
 
+            if (controller.signal.aborted) {
+                vscode.window.setStatusBarMessage('$(circle-slash) AG Telemetry: Uplink attempt cancelled', 3000);
+                return;
+            }
+
             const uplink = telemetryService.getUplinkStatus();
             if (uplink.isConnected) {
                 vscode.window.setStatusBarMessage('$(check) AG Telemetry: Uplink established', 3000);
@@ -222,12 +431,26 @@ function registerCommands(context: vscode.ExtensionContext): void {
         })
     );
 
+    // Select language server instance
+    context.subscriptions.push(
+        vscode.commands.registerCommand('agTelemetry.selectInstance', async (pid?: number) => {
+            await selectServerInstance(pid);
+        })
+    );
+
     // Run diagnostics
     context.subscriptions.push(
         vscode.commands.registerCommand('agTelemetry.runDiagnostics', async () => {
             await runDiagnostics();
         })
     );
+
+    // Filter the Model Quota view
+    context.subscriptions.push(
+        vscode.commands.registerCommand('agTelemetry.filterModels', async () => {
+            await filterModels();
+        })
+    );
 }
 
 /**
@@ -331,6 +554,125 @@ async function showMissionBriefing(): Promise<void> {
     }
 }
 
+/**
+ * Switch to a specific language server instance
+ * Shows a quick pick of discovered instances when no PID is given
+ */
+async function selectServerInstance(pid?: number): Promise<void> {
+    let targetPid = typeof pid === 'number' ? pid : undefined;
+
+    if (targetPid === undefined) {
+        const instances = telemetryService.getInstances();
+        if (instances.length === 0) {
+            const reconnect = await vscode.window.showWarningMessage(
+                'AG Telemetry: No language server instances discovered',
+                'Establish Uplink'
+            );
+            if (reconnect) {
+                vscode.commands.executeCommand('agTelemetry.establishLink');
+            }
+            return;
+        }
+
+        const activePid = telemetryService.getUplinkStatus().pid;
+        const items = instances.map(instance => {
+            const healthy = instance.uplink.isConnected;
+            const active = healthy && instance.pid === activePid;
+            return {
+                label: `${active ? '$(check)' : '$(server-process)'} Server ${instance.pid}`,
+                description: healthy ? `Port ${instance.uplink.port}` : 'Unreachable',
+                detail: instance.workspaceId
+                    ? `Workspace: ${sanitizeLabel(instance.workspaceId, 128)}`
+                    : undefined,
+                pid: instance.pid
+            };
+        });
+
+        const selected = await vscode.window.showQuickPick(items, {
+            title: 'AG Telemetry - Language Server Instances',
+            placeHolder: 'Select the language server to monitor'
+        });
+        if (!selected) {
+            return;
+        }
+        targetPid = selected.pid;
+    }
+
+    if (!telemetryService.selectInstance(targetPid)) {
+        vscode.window.showErrorMessage(
+            `AG Telemetry: Language server ${targetPid} is not reachable.`
+        );
+        return;
+    }
+
+    await telemetryService.acquireTelemetry();
+}
+
+/** Quick pick entry of the model filter */
+interface FilterPickItem extends vscode.QuickPickItem {
+    capability?: ModelCapability;
+    dimension?: MetadataDimension;
+    value?: string;
+}
+
+/**
+ * Choose the capabilities and metadata a model needs to be listed in the
+ * Model Quota view
+ */
+async function filterModels(): Promise<void> {
+    const systems = telemetryService.getLastSnapshot()?.systems ?? [];
+    const active = fuelProvider.getModelFilter();
+    const countLabel = (count: number) => `${count} model${count === 1 ? '' : 's'}`;
+
+    const items: FilterPickItem[] = [
+        { label: 'Capabilities', kind: vscode.QuickPickItemKind.Separator },
+        ...(Object.keys(MODEL_CAPABILITY_LABELS) as ModelCapability[]).map(capability => ({
+            label: MODEL_CAPABILITY_LABELS[capability],
+            description: countLabel(systems.filter(s => hasCapabilities(s, [capability])).length),
+            picked: active.capabilities.includes(capability),
+            capability
+        }))
+    ];
+
+    // Metadata values come from the last snapshot; values no model reports any more stay selectable
+    for (const dimension of Object.keys(MODEL_METADATA_LABELS) as MetadataDimension[]) {
+        const values = Array.from(new Set([...collectMetadataValues(systems, dimension), ...active[dimension]]));
+        if (values.length === 0) {
+            continue;
+        }
+        items.push({ label: MODEL_METADATA_LABELS[dimension], kind: vscode.QuickPickItemKind.Separator });
+        for (const value of values) {
+            items.push({
+                label: sanitizeLabel(value),
+                description: countLabel(systems.filter(s => metadataValues(s, dimension).includes(value)).length),
+                picked: active[dimension].includes(value),
+                dimension,
+                value
+            });
+        }
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+        title: 'AG Telemetry - Filter Models',
+        placeHolder: 'Select capabilities, providers, plans or tags (select none to show all)',
+        canPickMany: true
+    });
+    if (!selected) {
+        return;
+    }
+
+    const filter = emptyModelFilter();
+    for (const item of selected) {
+        if (item.capability) {
+            filter.capabilities.push(item.capability);
+        } else if (item.dimension && item.value !== undefined) {
+            filter[item.dimension].push(item.value);
+        }
+    }
+    fuelProvider.setModelFilter(filter);
+    fuelView.description = describeModelFilter(filter);
+}
+
 /**
  * Render gauge for quick pick
  */
@@ -383,8 +725,14 @@ async function runDiagnostics(): Promise<void> {
     output.appendLine('1. UPLINK STATUS');
     output.appendLine('───────────────────────────────────────────────────────');
 
+    const modeLabel = diagnostic.connectionMode === 'manual'
+        ? 'Manual (agTelemetry.connection settings)'
+        : 'Auto-discovered';
+
     if (diagnostic.uplink.isConnected) {
         output.appendLine('   ✓ Status: CONNECTED');
+        output.appendLine(`   ✓ Mode: ${modeLabel}`);
+        output.appendLine(`   ✓ Host: ${diagnostic.uplink.host ?? '127.0.0.1'}`);
         output.appendLine(`   ✓ Port: ${diagnostic.uplink.port}`);
         output.appendLine(`   ✓ Signal Strength: ${diagnostic.uplink.signalStrength}%`);
         if (diagnostic.uplink.lastContact) {
@@ -392,10 +740,121 @@ async function runDiagnostics(): Promise<void> {
             output.appendLine(`   ✓ Last Contact: ${elapsed}s ago`);
         }
         output.appendLine(`   ✓ CSRF Token: ${diagnostic.uplink.securityToken ? 'Present' : 'Missing'}`);
+        if (diagnostic.uplink.pid) {
+            output.appendLine(`   ✓ Server PID: ${diagnostic.uplink.pid}`);
+        }
     } else {
         output.appendLine('   ✗ Status: DISCONNECTED');
+        output.appendLine(`   ✗ Mode: ${modeLabel}`);
         output.appendLine('   ✗ No active uplink connection');
     }
+
+    const connection = diagnostic.connection;
+    output.appendLine(`   Connection State: ${connection.state.toUpperCase()}`);
+    if (connection.state === ConnectionState.BACKOFF && connection.nextRetryAt) {
+        const remaining = formatRetryCountdown(connection.nextRetryAt - Date.now());
+        output.appendLine(`   Next Retry: in ${remaining} (retry #${connection.retryAttempt})`);
+    }
+
+    const transport = diagnostic.transport;
+    output.appendLine(transport.endpoint
+        ? `   Transport: ${transport.id} (${transport.endpoint.scheme}, ${transport.endpoint.protocol})`
+        : `   Transport: ${transport.id} (not negotiated)`);
+
+    if (diagnostic.certificatePin) {
+        output.appendLine(`   Certificate Pin: SHA-256 ${diagnostic.certificatePin}`);
+    } else if (diagnostic.uplink.isConnected) {
+        output.appendLine('   Certificate Pin: none (plain HTTP or not yet contacted)');
+    }
+
+    const schedule = diagnostic.scanSchedule;
+    if (!schedule.bounds) {
+        output.appendLine('   Scans: stopped');
+    } else {
+        const { minSeconds, baselineSeconds, maxSeconds } = schedule.bounds;
+        const next = schedule.paused
+            ? 'paused (window unfocused or idle)'
+            : schedule.nextScanAt
+                ? `next in ${formatRetryCountdown(schedule.nextScanAt - Date.now())}`
+                : 'in progress';
+        output.appendLine(`   Scans: ${next} (${minSeconds}s-${maxSeconds}s, baseline ${baselineSeconds}s)`);
+    }
+    if (schedule.nextResetScanAt) {
+        output.appendLine(`   Quota Reset Scan: in ${formatRetryCountdown(schedule.nextResetScanAt - Date.now())}`);
+    }
+
+    const heartbeat = diagnostic.heartbeat;
+    if (heartbeat.intervalSeconds === 0) {
+        output.appendLine('   Heartbeat: disabled');
+    } else if (heartbeat.lastResult && heartbeat.lastBeatAt) {
+        const elapsed = Math.round((Date.now() - heartbeat.lastBeatAt) / 1000);
+        const misses = heartbeat.consecutiveMisses > 0 ? `, ${heartbeat.consecutiveMisses} missed` : '';
+        output.appendLine(
+            `   Heartbeat: every ${heartbeat.intervalSeconds}s, last ${heartbeat.lastResult.outcome} ` +
+            `(${heartbeat.lastResult.durationMs}ms, ${elapsed}s ago${misses})`
+        );
+    } else {
+        output.appendLine(`   Heartbeat: every ${heartbeat.intervalSeconds}s, no beat yet`);
+    }
+
+    const instances = telemetryService.getInstances();
+    if (instances.length > 0) {
+        output.appendLine(`   Language Servers Discovered: ${instances.length}`);
+        for (const instance of instances) {
+            const health = instance.uplink.isConnected
+                ? `port ${instance.uplink.port}`
+                : 'unreachable';
+            const active = instance.pid === diagnostic.uplink.pid ? ' [active]' : '';
+            output.appendLine(`     - PID ${instance.pid}: ${health}${active}`);
+        }
+    }
+
+    // Which tools located the servers, and why the ones before them did not
+    const discovery = diagnostic.discovery;
+    if (diagnostic.connectionMode === 'auto' && discovery.processes.length > 0) {
+        output.appendLine(`   Process Discovery: ${formatStrategyAttempts(discovery.processes)}`);
+        for (const lookup of discovery.ports) {
+            output.appendLine(`   Port Discovery (PID ${lookup.pid}): ${formatStrategyAttempts(lookup.attempts)}`);
+        }
+    }
+
+    if (diagnostic.rejectedCandidates.length > 0) {
+        output.appendLine(`   Rejected Processes: ${diagnostic.rejectedCandidates.length}`);
+        for (const rejection of diagnostic.rejectedCandidates) {
+            const executable = rejection.executable ? ` (${sanitizeLabel(rejection.executable, 256)})` : '';
+            output.appendLine(`     ✗ PID ${rejection.pid}: ${rejection.reason}${executable}`);
+        }
+    }
+
+    // Why each probed port was accepted or rejected
+    for (const scan of diagnostic.portScans) {
+        if (scan.results.length === 0) {
+            continue;
+        }
+        output.appendLine(scan.pid
+            ? `   Port Probes (PID ${scan.pid}):`
+            : '   Port Probes (manual):');
+        for (const probe of scan.results) {
+            const code = probe.errorCode ? ` ${probe.errorCode}` : '';
+            const status = probe.statusCode ? ` ${probe.statusCode}${code}` : '';
+            const mark = probe.outcome === 'accepted' ? '✓' : '✗';
+            output.appendLine(
+                `     ${mark} ${probe.port}: ${probe.outcome}${status} (${probe.durationMs}ms)`
+            );
+        }
+    }
+
+    const connectError = diagnostic.lastConnectError;
+    if (connectError) {
+        const elapsed = Math.round((Date.now() - connectError.timestamp) / 1000);
+        output.appendLine(`   Last Connect Error: ${connectError.code} (HTTP ${connectError.httpStatus}, ${elapsed}s ago)`);
+        if (connectError.message) {
+            output.appendLine(`     Message: ${connectError.message}`);
+        }
+        if (connectError.detailTypes.length > 0) {
+            output.appendLine(`     Details: ${connectError.detailTypes.join(', ')}`);
+        }
+    }
     output.appendLine('');
 
     // Section 2: Schema Validation
@@ -407,6 +866,7 @@ async function runDiagnostics(): Promise<void> {
         if (diagnostic.lastValidation.valid) {
             output.appendLine('   ✓ Last Validation: PASSED');
             output.appendLine(`   ✓ Response Keys: [${diagnostic.lastValidation.receivedKeys.join(', ')}]`);
+            output.appendLine(`   ✓ Response Adapter: ${diagnostic.lastValidation.adapterId ?? 'unknown'}`);
         } else {
             output.appendLine('   ✗ Last Validation: FAILED');
             output.appendLine('   Errors:');
@@ -435,12 +895,22 @@ async function runDiagnostics(): Promise<void> {
         output.appendLine(`   ✓ Systems Detected: ${diagnostic.systemCount}`);
 
         const snapshot = telemetryService.getLastSnapshot();
+        if (snapshot?.responseAdapter) {
+            output.appendLine(`   ✓ Parsed By: ${snapshot.responseAdapter}`);
+        }
+        if (snapshot?.account) {
+            const { planName, tier } = snapshot.account;
+            output.appendLine(`   ✓ Plan: ${sanitizeLabel(planName ?? tier ?? 'Unknown', 64)}`);
+        }
         if (snapshot && snapshot.systems.length > 0) {
             output.appendLine('   Systems:');
             for (const sys of snapshot.systems) {
                 const pct = Math.round(sys.fuelLevel * 100);
                 const safeDesignation = sanitizeLabel(sys.designation, 128);
                 output.appendLine(`     - ${safeDesignation}: ${pct}% (${sys.readiness})`);
+                for (const [field, value] of Object.entries(sys.extraFields ?? {})) {
+                    output.appendLine(`         ? ${field}: ${value}`);
+                }
             }
         }
     } else {
@@ -449,6 +919,78 @@ async function runDiagnostics(): Promise<void> {
     }
     output.appendLine('');
 
+    // Section 4: Model Entries
+    output.appendLine('───────────────────────────────────────────────────────');
+    output.appendLine('4. MODEL ENTRIES');
+    output.appendLine('───────────────────────────────────────────────────────');
+
+    const entries = telemetryService.getLastSnapshot()?.entries;
+    if (entries) {
+        output.appendLine(`   Accepted: ${entries.accepted}`);
+        output.appendLine(`   ${entries.rejected > 0 ? '✗' : '✓'} Rejected: ${entries.rejected}`);
+        output.appendLine(`   ${entries.truncated > 0 ? '✗' : '✓'} Over Model Limit: ${entries.truncated}`);
+        for (const rejection of entries.rejections) {
+            const label = rejection.label ? ` (${sanitizeLabel(rejection.label, 128)})` : '';
+            output.appendLine(`     - #${rejection.index}${label}: ${sanitizeLabel(rejection.reason, 256)}`);
+        }
+        if (entries.rejected > entries.rejections.length) {
+            output.appendLine(`     ... and ${entries.rejected - entries.rejections.length} more`);
+        }
+    } else {
+        output.appendLine('   ? No response entries processed yet');
+    }
+    output.appendLine('');
+
+    // Section 5: Schema Fingerprint
+    output.appendLine('───────────────────────────────────────────────────────');
+    output.appendLine('5. SCHEMA FINGERPRINT');
+    output.appendLine('───────────────────────────────────────────────────────');
+
+    const fingerprint = diagnostic.lastValidation?.fingerprint;
+    if (fingerprint) {
+        const pathCount = Object.keys(fingerprint.paths).length;
+        output.appendLine(`   Fingerprint: ${fingerprint.hash.slice(0, 16)} (${pathCount} paths` +
+            `${fingerprint.truncated ? ', truncated' : ''})`);
+    } else {
+        output.appendLine('   ? No response fingerprinted yet');
+    }
+
+    const known = diagnostic.knownFingerprint;
+    if (known) {
+        output.appendLine(`   Known Structure: ${known.hash.slice(0, 16)} (${Object.keys(known.paths).length} paths)`);
+        if (known.truncated) {
+            output.appendLine('   ⚠ Path limit reached: fields added from now on are not detected');
+        }
+    }
+
+    const listPaths = (title: string, lines: string[]) => {
+        if (lines.length === 0) {
+            return;
+        }
+        output.appendLine(`   ${title}:`);
+        for (const line of lines.slice(0, MAX_DIAGNOSTIC_PATHS)) {
+            output.appendLine(`     ${line}`);
+        }
+        if (lines.length > MAX_DIAGNOSTIC_PATHS) {
+            output.appendLine(`     ... and ${lines.length - MAX_DIAGNOSTIC_PATHS} more`);
+        }
+    };
+
+    const drift = diagnostic.schemaDrift;
+    if (drift) {
+        const elapsed = Math.round((Date.now() - drift.detectedAt) / 1000);
+        output.appendLine(`   ✗ Structure Changed: ${drift.previousHash.slice(0, 16)} → ` +
+            `${drift.currentHash.slice(0, 16)} (${elapsed}s ago)`);
+        listPaths('Added', drift.added.map(path => `+ ${sanitizeLabel(path, 256)}`));
+        listPaths('Retyped', drift.retyped.map(r =>
+            `~ ${sanitizeLabel(r.path, 256)}: ${sanitizeLabel(r.from)} → ${sanitizeLabel(r.to)}`));
+    } else if (fingerprint) {
+        output.appendLine('   ✓ No structure change this session');
+    }
+    // Proto3 JSON omits default values, so a missing path is not a change by itself
+    listPaths('Not In Last Response', diagnostic.missingSchemaPaths.map(path => `- ${sanitizeLabel(path, 256)}`));
+    output.appendLine('');
+
     // Summary
     output.appendLine('═══════════════════════════════════════════════════════');
     output.appendLine('                     SUMMARY');
@@ -467,6 +1009,12 @@ async function runDiagnostics(): Promise<void> {
     if (!diagnostic.hasSnapshot) {
         issues.push('No telemetry data');
     }
+    if (entries && entries.rejected + entries.truncated > 0) {
+        issues.push(`${entries.rejected + entries.truncated} model entries dropped`);
+    }
+    if (drift) {
+        issues.push('Response structure changed');
+    }
 
     if (issues.length === 0) {
         output.appendLine('   ✓ All systems nominal');
@@ -5,12 +5,17 @@
 
 import * as vscode from 'vscode';
 import {
+    AccountSummary,
+    ConnectionState,
+    ConnectionStateInfo,
+    CreditBalance,
     FuelSystem,
     TelemetrySnapshot,
     ReadinessLevel,
     UplinkStatus
 } from './types';
 import { escapeMarkdown } from './security';
+import { formatRetryCountdown } from './connection_state';
 
 /**
  * Flight Deck - Mission control status bar display
@@ -20,6 +25,10 @@ export class FlightDeck {
     private statusItem: vscode.StatusBarItem;
     private opusItem: vscode.StatusBarItem;
     private lastSnapshot?: TelemetrySnapshot;
+    private connectionState: ConnectionState = ConnectionState.OFFLINE;
+
+    /** Ticks the retry countdown while in backoff */
+    private countdownTimer?: NodeJS.Timeout;
 
     constructor() {
         // Primary status item
@@ -79,6 +88,67 @@ export class FlightDeck {
         this.opusItem.hide();
     }
 
+    /**
+     * Reflect the uplink connection state
+     */
+    showConnectionState(info: ConnectionStateInfo): void {
+        this.connectionState = info.state;
+        this.stopCountdown();
+
+        switch (info.state) {
+            case ConnectionState.DISCOVERING:
+                this.statusItem.text = '$(sync~spin) AGT: Discovering...';
+                this.statusItem.tooltip = 'AG Telemetry: Looking for Antigravity language servers';
+                this.statusItem.backgroundColor = undefined;
+                break;
+            case ConnectionState.PROBING:
+                this.statusItem.text = '$(sync~spin) AGT: Probing...';
+                this.statusItem.tooltip = 'AG Telemetry: Probing language server ports';
+                this.statusItem.backgroundColor = undefined;
+                break;
+            case ConnectionState.BACKOFF:
+                this.showBackoff(info.nextRetryAt ?? Date.now(), info.retryAttempt);
+                break;
+            case ConnectionState.OFFLINE:
+                this.showDisconnected();
+                break;
+            case ConnectionState.CONNECTED:
+            case ConnectionState.DEGRADED:
+                if (this.lastSnapshot) {
+                    this.renderCompact(this.lastSnapshot);
+                }
+                break;
+        }
+    }
+
+    /**
+     * Show a ticking countdown until the next reconnect attempt
+     */
+    private showBackoff(nextRetryAt: number, retryAttempt: number): void {
+        const render = () => {
+            const remaining = formatRetryCountdown(nextRetryAt - Date.now());
+            this.statusItem.text = `$(debug-disconnect) AGT: Retry in ${remaining}`;
+        };
+
+        render();
+        this.statusItem.tooltip =
+            `AG Telemetry: No uplink (retry #${retryAttempt})\nClick to reconnect now`;
+        this.statusItem.backgroundColor = new vscode.ThemeColor(
+            'statusBarItem.errorBackground'
+        );
+        this.statusItem.command = 'agTelemetry.establishLink';
+        this.opusItem.hide();
+
+        this.countdownTimer = setInterval(render, 1000);
+    }
+
+    private stopCountdown(): void {
+        if (this.countdownTimer) {
+            clearInterval(this.countdownTimer);
+            this.countdownTimer = undefined;
+        }
+    }
+
     /**
      * Show scanning state
      */
@@ -109,9 +179,12 @@ export class FlightDeck {
             text = `${icon} AGT ${avgPct}%`;
         }
 
+        const degraded = this.connectionState === ConnectionState.DEGRADED;
+
         this.statusItem.text = text;
         this.statusItem.tooltip = this.buildTooltip(snapshot);
-        this.statusItem.backgroundColor = this.getBackgroundColor(snapshot.overallReadiness);
+        this.statusItem.backgroundColor = this.getBackgroundColor(snapshot.overallReadiness) ??
+            (degraded ? new vscode.ThemeColor('statusBarItem.warningBackground') : undefined);
         this.statusItem.command = 'agTelemetry.missionBriefing';
     }
 
@@ -210,6 +283,14 @@ export class FlightDeck {
         const avgFuel = this.calculateAverageFuel(snapshot.systems);
 
         md.appendMarkdown(`**Status:** ${statusEmoji} ${snapshot.overallReadiness}\n\n`);
+
+        if (snapshot.account) {
+            md.appendMarkdown(`**Plan:** ${this.describeAccount(snapshot.account)}\n\n`);
+        }
+
+        if (this.connectionState === ConnectionState.DEGRADED) {
+            md.appendMarkdown('**Uplink:** ⚠️ Degraded — data may be stale\n\n');
+        }
         md.appendMarkdown(`**Average Quota:** ${Math.round(avgFuel * 100)}%\n\n`);
 
         if (exhaustedCount > 0) {
@@ -248,6 +329,23 @@ export class FlightDeck {
         return md;
     }
 
+    /**
+     * Describe plan and credits on one line
+     */
+    private describeAccount(account: AccountSummary): string {
+        const parts = [escapeMarkdown(account.planName ?? account.tier ?? 'Unknown')];
+        const credits = (balance: CreditBalance | undefined, kind: string) => {
+            if (balance?.available === undefined) {
+                return;
+            }
+            const monthly = balance.monthly !== undefined ? ` / ${balance.monthly.toLocaleString()}` : '';
+            parts.push(`${balance.available.toLocaleString()}${monthly} ${kind} credits`);
+        };
+        credits(account.promptCredits, 'prompt');
+        credits(account.flowCredits, 'flow');
+        return parts.join(' — ');
+    }
+
     /**
      * Create text-based gauge
      */
@@ -360,6 +458,7 @@ export class FlightDeck {
      * Dispose resources
      */
     dispose(): void {
+        this.stopCountdown();
         this.statusItem.dispose();
         this.opusItem.dispose();
     }
@@ -0,0 +1,99 @@
+/**
+ * AG Telemetry - Model Filter
+ * Capability and metadata filter for the Model Quota view
+ */
+
+import { sanitizeLabel } from './security';
+import { FuelSystem, ModelCapability, ModelFilter } from './types';
+
+/** Capabilities offered as filters, in display order */
+export const MODEL_CAPABILITY_LABELS: Record<ModelCapability, string> = {
+    recommended: 'Recommended',
+    images: 'Image Input'
+};
+
+/** Metadata values offered as filters */
+export type MetadataDimension = Exclude<keyof ModelFilter, 'capabilities'>;
+
+/** Metadata dimensions offered as filters, in display order */
+export const MODEL_METADATA_LABELS: Record<MetadataDimension, string> = {
+    providers: 'Provider',
+    tiers: 'Plan',
+    tags: 'Tag'
+};
+
+/** A filter that lists every model */
+export function emptyModelFilter(): ModelFilter {
+    return { capabilities: [], providers: [], tiers: [], tags: [] };
+}
+
+/** Copy a filter so the one in use cannot be changed through it */
+export function copyModelFilter(filter: ModelFilter): ModelFilter {
+    return {
+        capabilities: [...filter.capabilities],
+        providers: [...filter.providers],
+        tiers: [...filter.tiers],
+        tags: [...filter.tags]
+    };
+}
+
+/**
+ * Whether a model reports every required capability
+ * Models that do not report a capability never match it.
+ */
+export function hasCapabilities(system: FuelSystem, required: readonly ModelCapability[]): boolean {
+    return required.every(capability => system.capabilities?.[capability] === true);
+}
+
+/**
+ * Metadata values a model reports for one dimension
+ */
+export function metadataValues(system: FuelSystem, dimension: MetadataDimension): string[] {
+    const metadata = system.metadata;
+    switch (dimension) {
+        case 'providers':
+            return metadata?.provider ? [metadata.provider] : [];
+        case 'tiers':
+            return metadata?.allowedTiers ?? [];
+        case 'tags':
+            return metadata?.tag ? [metadata.tag] : [];
+    }
+}
+
+/**
+ * Whether a model passes a filter
+ * Models that do not report a filtered field never match it.
+ */
+export function matchesModelFilter(system: FuelSystem, filter: ModelFilter): boolean {
+    if (!hasCapabilities(system, filter.capabilities)) {
+        return false;
+    }
+    return (Object.keys(MODEL_METADATA_LABELS) as MetadataDimension[]).every(dimension =>
+        filter[dimension].length === 0 ||
+        metadataValues(system, dimension).some(value => filter[dimension].includes(value))
+    );
+}
+
+/**
+ * Distinct metadata values reported by a set of models, sorted
+ */
+export function collectMetadataValues(systems: readonly FuelSystem[], dimension: MetadataDimension): string[] {
+    const values = new Set(systems.flatMap(system => metadataValues(system, dimension)));
+    return Array.from(values).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Describe an active filter, e.g. `Recommended, Provider: A | B`
+ *
+ * @returns The description, or undefined when the filter lists every model
+ */
+export function describeModelFilter(filter: ModelFilter): string | undefined {
+    const parts = filter.capabilities.map(capability => MODEL_CAPABILITY_LABELS[capability]);
+    for (const dimension of Object.keys(MODEL_METADATA_LABELS) as MetadataDimension[]) {
+        if (filter[dimension].length > 0) {
+            const values = filter[dimension].map(value => sanitizeLabel(value)).join(' | ');
+            parts.push(`${MODEL_METADATA_LABELS[dimension]}: ${values}`);
+        }
+    }
+    return parts.length > 0 ? parts.join(', ') : undefined;
+}
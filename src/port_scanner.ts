@@ -0,0 +1,103 @@
+/**
+ * AG Telemetry - Port Scanner
+ * Bounded-concurrency port probing that stops at the first accepted port
+ */
+
+import { PortProbeResult } from './types';
+
+/**
+ * Probe function invoked for each port
+ * Must settle promptly once the signal is aborted.
+ */
+export type PortProbe = (port: number, signal: AbortSignal) => Promise<PortProbeResult>;
+
+/**
+ * Outcome of a full port scan
+ */
+export interface PortScanResult {
+    /** First port that accepted the probe, or null */
+    port: number | null;
+    /** Per-port outcomes in input order */
+    results: PortProbeResult[];
+}
+
+/**
+ * Probe ports with at most `concurrency` probes in flight.
+ * Resolves as soon as one port is accepted; probes still in flight are
+ * aborted and recorded as 'aborted', ports never tried as 'skipped'.
+ * Aborting `signal` ends the scan the same way with no accepted port.
+ *
+ * @param ports - Ports to probe, in priority order
+ * @param probe - Probe function for a single port
+ * @param concurrency - Maximum number of simultaneous probes
+ * @param signal - Optional signal to cancel the whole scan
+ * @returns The accepted port (if any) with per-port outcomes
+ */
+export function scanPorts(
+    ports: number[],
+    probe: PortProbe,
+    concurrency: number,
+    signal?: AbortSignal
+): Promise<PortScanResult> {
+    const limit = Math.max(1, Math.floor(concurrency) || 1);
+    const controller = new AbortController();
+    const results = new Map<number, PortProbeResult>();
+    const startedAt = new Map<number, number>();
+    let nextIndex = 0;
+    let settled = false;
+
+    return new Promise(resolve => {
+        const onAbort = () => finish(null);
+
+        const finish = (port: number | null) => {
+            if (settled) {
+                return;
+            }
+            settled = true;
+            signal?.removeEventListener('abort', onAbort);
+            controller.abort();
+
+            const now = Date.now();
+            resolve({
+                port,
+                results: ports.map(p => results.get(p) ?? {
+                    port: p,
+                    outcome: startedAt.has(p) ? 'aborted' : 'skipped',
+                    durationMs: startedAt.has(p) ? now - startedAt.get(p)! : 0
+                })
+            });
+        };
+
+        const worker = async (): Promise<void> => {
+            while (!settled && nextIndex < ports.length) {
+                const port = ports[nextIndex++];
+                startedAt.set(port, Date.now());
+
+                let result: PortProbeResult;
+                try {
+                    result = await probe(port, controller.signal);
+                } catch {
+                    result = { port, outcome: 'error', durationMs: Date.now() - startedAt.get(port)! };
+                }
+
+                if (settled) {
+                    return;
+                }
+                results.set(port, result);
+                if (result.outcome === 'accepted') {
+                    finish(port);
+                    return;
+                }
+            }
+        };
+
+        if (signal?.aborted) {
+            finish(null);
+            return;
+        }
+        signal?.addEventListener('abort', onAbort);
+
+        const workers = Array.from({ length: Math.min(limit, ports.length) }, () => worker());
+        Promise.all(workers).then(() => finish(null));
+    });
+}
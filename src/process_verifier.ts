@@ -0,0 +1,121 @@
+/**
+ * AG Telemetry - Process Verifier
+ * Decides whether a discovered language server may receive the CSRF token
+ */
+
+import * as path from 'path';
+import { ProcessIdentity } from './procfs';
+import { CandidateRejectionReason } from './types';
+
+/**
+ * Who the extension runs as and where Antigravity may be installed
+ */
+export interface VerificationPolicy {
+    platform: NodeJS.Platform;
+    /** Directories a language server executable may live under */
+    trustedRoots: string[];
+    /** Current user's uid (POSIX) */
+    uid?: number;
+    /** Current user's account name (Windows) */
+    user?: string;
+}
+
+/**
+ * Standard Antigravity install locations for a platform
+ *
+ * @param os - Target platform
+ * @param home - Current user's home directory
+ * @param env - Environment used to resolve Windows folders
+ */
+export function defaultInstallRoots(
+    os: NodeJS.Platform,
+    home: string,
+    env: NodeJS.ProcessEnv = process.env
+): string[] {
+    if (os === 'win32') {
+        const roots: string[] = [];
+        if (env.LOCALAPPDATA) {
+            roots.push(path.win32.join(env.LOCALAPPDATA, 'Programs', 'Antigravity'));
+        }
+        if (env.ProgramFiles) {
+            roots.push(path.win32.join(env.ProgramFiles, 'Antigravity'));
+        }
+        return roots;
+    }
+
+    if (os === 'darwin') {
+        return [
+            '/Applications/Antigravity.app',
+            path.posix.join(home, 'Applications', 'Antigravity.app')
+        ];
+    }
+
+    return [
+        '/usr/share/antigravity',
+        '/usr/lib/antigravity',
+        '/opt/antigravity',
+        '/opt/Antigravity',
+        '/snap/antigravity'
+    ];
+}
+
+/**
+ * Check whether a file lies strictly below a directory
+ * Both paths must be absolute; `..` segments are resolved first. Windows
+ * and macOS paths compare case-insensitively.
+ */
+export function isPathInside(file: string, root: string, os: NodeJS.Platform): boolean {
+    const api = os === 'win32' ? path.win32 : path.posix;
+    if (!api.isAbsolute(file) || !api.isAbsolute(root)) {
+        return false;
+    }
+
+    const fold = (value: string) => os === 'darwin' ? value.toLowerCase() : value;
+    const relative = api.relative(fold(api.normalize(root)), fold(api.normalize(file)));
+    return relative.length > 0 &&
+        relative !== '..' &&
+        !relative.startsWith(`..${api.sep}`) &&
+        !api.isAbsolute(relative);
+}
+
+/**
+ * Verify that a process is an Antigravity language server run by the
+ * current user
+ *
+ * @param identity - Executable and owner of the process, null if unreadable
+ * @param policy - Current user and trusted install locations
+ * @returns Why the process must not receive the token, or null if it may
+ */
+export function verifyProcessIdentity(
+    identity: ProcessIdentity | null,
+    policy: VerificationPolicy
+): CandidateRejectionReason | null {
+    if (!identity) {
+        return 'unverifiable';
+    }
+
+    if (policy.platform === 'win32') {
+        if (!identity.user || !policy.user) {
+            return 'unverifiable';
+        }
+        if (identity.user.toLowerCase() !== policy.user.toLowerCase()) {
+            return 'foreign-user';
+        }
+    } else {
+        if (identity.uid === undefined || policy.uid === undefined) {
+            return 'unverifiable';
+        }
+        if (identity.uid !== policy.uid) {
+            return 'foreign-user';
+        }
+    }
+
+    const executable = identity.executable;
+    if (!executable) {
+        return 'unverifiable';
+    }
+
+    return policy.trustedRoots.some(root => isPathInside(executable, root, policy.platform))
+        ? null
+        : 'untrusted-path';
+}
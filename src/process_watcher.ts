@@ -0,0 +1,173 @@
+/**
+ * AG Telemetry - Process Watcher
+ * Detects language server restarts without waiting for failed scans
+ */
+
+import { BeaconCandidate } from './procfs';
+
+/** Why the watched language server is considered gone */
+export type ProcessChange =
+    /** The connected process no longer exists */
+    | 'process-exited'
+    /** The connected process now carries a different CSRF token */
+    | 'token-changed'
+    /** A language server that was not running at connect time appeared */
+    | 'server-started';
+
+/**
+ * Construction options for ProcessWatcher
+ */
+export interface ProcessWatcherOptions {
+    /** Cheap existence check for a pid */
+    isAlive: (pid: number) => boolean;
+    /** Enumerate running language servers with their tokens */
+    listServers: () => Promise<BeaconCandidate[]>;
+    /** Invoked once when a change is detected; watching stops first */
+    onChange: (change: ProcessChange) => void;
+    /**
+     * Whether the uplink currently works; new language servers are only
+     * reported while it does not
+     */
+    isHealthy?: () => boolean;
+    /** Delay between liveness checks in milliseconds */
+    intervalMs?: number;
+    /**
+     * Run the (more expensive) server enumeration every N liveness checks
+     * (0 = liveness checks only)
+     */
+    rescanEvery?: number;
+}
+
+/** Process currently being watched */
+interface WatchTarget {
+    pid: number;
+    token: string;
+    /** Language server pids that were running when the uplink was established */
+    knownPids: Set<number>;
+}
+
+/**
+ * Process Watcher - Polls the connected language server for liveness
+ * The pid is checked on every tick; language servers are enumerated less
+ * often to notice token rotation or a replacement server.
+ */
+export class ProcessWatcher {
+    private target?: WatchTarget;
+    private timer?: NodeJS.Timeout;
+    private ticks: number = 0;
+
+    private static readonly DEFAULT_INTERVAL_MS = 5000;
+    private static readonly DEFAULT_RESCAN_EVERY = 6;
+
+    private readonly options: ProcessWatcherOptions;
+    private readonly intervalMs: number;
+    private readonly rescanEvery: number;
+
+    constructor(options: ProcessWatcherOptions) {
+        this.options = options;
+        this.intervalMs = options.intervalMs ?? ProcessWatcher.DEFAULT_INTERVAL_MS;
+        this.rescanEvery = Math.max(0, Math.floor(options.rescanEvery ?? ProcessWatcher.DEFAULT_RESCAN_EVERY));
+    }
+
+    /**
+     * Start watching a process, replacing any previous target
+     * Watching the same pid and token again is a no-op.
+     *
+     * @param pid - Connected language server process
+     * @param token - CSRF token the uplink uses
+     * @param knownPids - Language servers running at connect time
+     */
+    watch(pid: number, token: string, knownPids: number[]): void {
+        if (this.target?.pid === pid && this.target.token === token) {
+            return;
+        }
+
+        this.stop();
+        this.target = { pid, token, knownPids: new Set([pid, ...knownPids]) };
+        this.schedule();
+    }
+
+    /**
+     * Stop watching
+     */
+    stop(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        this.target = undefined;
+        this.ticks = 0;
+    }
+
+    /**
+     * Whether a process is currently being watched
+     */
+    isWatching(): boolean {
+        return this.target !== undefined;
+    }
+
+    private schedule(): void {
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            void this.check();
+        }, this.intervalMs);
+    }
+
+    private async check(): Promise<void> {
+        const target = this.target;
+        if (!target) {
+            return;
+        }
+
+        const change = await this.detectChange(target);
+
+        // Stopped or retargeted while enumerating
+        if (this.target !== target) {
+            return;
+        }
+
+        if (change) {
+            this.stop();
+            this.options.onChange(change);
+            return;
+        }
+        this.schedule();
+    }
+
+    private async detectChange(target: WatchTarget): Promise<ProcessChange | null> {
+        if (!this.options.isAlive(target.pid)) {
+            return 'process-exited';
+        }
+
+        this.ticks++;
+        if (this.rescanEvery === 0 || this.ticks % this.rescanEvery !== 0) {
+            return null;
+        }
+
+        let servers: BeaconCandidate[];
+        try {
+            servers = await this.options.listServers();
+        } catch {
+            return null;
+        }
+
+        // An empty list while the pid is alive means enumeration failed
+        if (servers.length === 0) {
+            return null;
+        }
+
+        const current = servers.find(server => server.pid === target.pid);
+        if (!current) {
+            // The pid was reused by an unrelated process
+            return 'process-exited';
+        }
+        if (current.token !== target.token) {
+            return 'token-changed';
+        }
+        // A second window's server is no reason to drop a working uplink
+        if (servers.some(server => !target.knownPids.has(server.pid)) && !this.options.isHealthy?.()) {
+            return 'server-started';
+        }
+        return null;
+    }
+}
@@ -0,0 +1,327 @@
+/**
+ * AG Telemetry - Procfs Discovery
+ * Shell-free process and listening port discovery for Linux via /proc
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { isValidCsrfToken, isValidPid } from './security';
+
+/** Default mount point of the Linux process filesystem */
+export const DEFAULT_PROC_ROOT = '/proc';
+
+/** Upper bound for a single cmdline read (kernel caps args far below this) */
+const MAX_CMDLINE_BYTES = 128 * 1024;
+
+/**
+ * Language server process located through procfs
+ */
+export interface BeaconCandidate {
+    pid: number;
+    token: string;
+    /** Workspace identifier passed to the server, if any */
+    workspaceId?: string;
+}
+
+/**
+ * Who runs a process and from where, used to verify a candidate
+ */
+export interface ProcessIdentity {
+    /** Absolute path of the executable */
+    executable?: string;
+    /** Numeric owner (POSIX) */
+    uid?: number;
+    /** Owner account name (Windows) */
+    user?: string;
+}
+
+/** Maximum accepted length of a workspace identifier */
+const MAX_WORKSPACE_ID_LENGTH = 512;
+
+/**
+ * Split a raw /proc/<pid>/cmdline buffer into its arguments.
+ * Arguments are NUL-separated, so values containing spaces stay intact.
+ *
+ * @param raw - Raw cmdline contents
+ * @returns The argument vector (empty for kernel threads and zombies)
+ */
+export function parseCmdline(raw: Buffer | string): string[] {
+    const text = typeof raw === 'string' ? raw : raw.toString('utf8');
+    return text.split('\0').filter(arg => arg.length > 0);
+}
+
+/**
+ * Extract the CSRF token from an argument vector.
+ * Supports both `--csrf_token=<value>` and `--csrf_token <value>` forms.
+ * When the flag appears more than once the last valid value wins.
+ *
+ * @param args - Process argument vector
+ * @returns The validated token, or null if none is present
+ */
+export function extractCsrfTokenFromArgs(args: string[]): string | null {
+    let token: string | null = null;
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        let candidate: string | undefined;
+
+        const inline = arg.match(/^--csrf[_-]?token=(.*)$/i);
+        if (inline) {
+            candidate = inline[1];
+        } else if (/^--csrf[_-]?token$/i.test(arg)) {
+            candidate = args[i + 1];
+        }
+
+        if (candidate !== undefined && isValidCsrfToken(candidate)) {
+            token = candidate;
+        }
+    }
+
+    return token;
+}
+
+/**
+ * Extract the workspace identifier from an argument vector.
+ * Supports both `--workspace_id=<value>` and `--workspace_id <value>` forms.
+ *
+ * @param args - Process argument vector
+ * @returns The workspace identifier, or undefined if absent or oversized
+ */
+export function extractWorkspaceIdFromArgs(args: string[]): string | undefined {
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        let candidate: string | undefined;
+
+        const inline = arg.match(/^--workspace[_-]?id=(.*)$/i);
+        if (inline) {
+            candidate = inline[1];
+        } else if (/^--workspace[_-]?id$/i.test(arg)) {
+            candidate = args[i + 1];
+        }
+
+        if (candidate && candidate.length <= MAX_WORKSPACE_ID_LENGTH) {
+            return candidate;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Check whether an argument vector belongs to a language server process
+ */
+export function isLanguageServerCommand(args: string[]): boolean {
+    return args.some(arg => arg.toLowerCase().includes('language_server'));
+}
+
+/**
+ * Read the argument vector of a single process
+ *
+ * @returns The arguments, or null if the process vanished or is unreadable
+ */
+export async function readProcessArgs(
+    pid: number,
+    procRoot: string = DEFAULT_PROC_ROOT
+): Promise<string[] | null> {
+    if (!isValidPid(pid)) {
+        return null;
+    }
+
+    try {
+        const raw = await fs.readFile(path.join(procRoot, String(pid), 'cmdline'));
+        if (raw.length > MAX_CMDLINE_BYTES) {
+            return null;
+        }
+        return parseCmdline(raw);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Read the executable path and owner of a single process.
+ * The owner is the uid of the /proc/<pid> directory. The executable link
+ * is only readable for the user's own processes, so it is left unset for
+ * others rather than failing the whole read.
+ *
+ * @returns The identity, or null if the process vanished or is unreadable
+ */
+export async function readProcessIdentity(
+    pid: number,
+    procRoot: string = DEFAULT_PROC_ROOT
+): Promise<ProcessIdentity | null> {
+    if (!isValidPid(pid)) {
+        return null;
+    }
+
+    const dir = path.join(procRoot, String(pid));
+    let uid: number;
+    try {
+        uid = (await fs.stat(dir)).uid;
+    } catch {
+        return null;
+    }
+
+    try {
+        // The kernel appends " (deleted)" once the binary was replaced on disk
+        const executable = (await fs.readlink(path.join(dir, 'exe'))).replace(/ \(deleted\)$/, '');
+        return { executable, uid };
+    } catch {
+        return { uid };
+    }
+}
+
+/**
+ * Enumerate language server processes carrying a valid CSRF token.
+ * Candidates are returned in ascending PID order, matching `ps` output.
+ *
+ * @param procRoot - Root of the process filesystem (overridable for tests)
+ * @returns Matching processes, or null when procfs itself cannot be read
+ */
+export async function findLanguageServerProcesses(
+    procRoot: string = DEFAULT_PROC_ROOT
+): Promise<BeaconCandidate[] | null> {
+    let entries: string[];
+    try {
+        entries = await fs.readdir(procRoot);
+    } catch {
+        return null;
+    }
+
+    const pids = entries
+        .filter(name => /^\d+$/.test(name))
+        .map(name => parseInt(name, 10))
+        .filter(pid => isValidPid(pid))
+        .sort((a, b) => a - b);
+
+    const candidates: BeaconCandidate[] = [];
+    for (const pid of pids) {
+        const args = await readProcessArgs(pid, procRoot);
+        if (!args || !isLanguageServerCommand(args)) {
+            continue;
+        }
+
+        const token = extractCsrfTokenFromArgs(args);
+        if (token) {
+            const workspaceId = extractWorkspaceIdFromArgs(args);
+            candidates.push(workspaceId ? { pid, token, workspaceId } : { pid, token });
+        }
+    }
+
+    return candidates;
+}
+
+/** Socket state code for LISTEN in /proc/net/tcp{,6} */
+const TCP_STATE_LISTEN = '0A';
+
+/**
+ * Extract the socket inode from a /proc/<pid>/fd symlink target
+ *
+ * @param link - Symlink target such as `socket:[12345]`
+ * @returns The inode as a string, or null for non-socket descriptors
+ */
+export function parseSocketInode(link: string): string | null {
+    const match = link.match(/^socket:\[(\d+)\]$/);
+    return match ? match[1] : null;
+}
+
+/**
+ * Parse a /proc/net/tcp or /proc/net/tcp6 table into a map of
+ * socket inode to local port, keeping only LISTEN entries.
+ *
+ * @param table - Raw table contents including the header line
+ * @returns Map of inode to listening port
+ */
+export function parseListeningSockets(table: string): Map<string, number> {
+    const listening = new Map<string, number>();
+
+    for (const line of table.split('\n').slice(1)) {
+        const fields = line.trim().split(/\s+/);
+        // sl local_address rem_address st tx:rx tr:when retrnsmt uid timeout inode
+        if (fields.length < 10 || fields[3] !== TCP_STATE_LISTEN) {
+            continue;
+        }
+
+        const portHex = fields[1].split(':').pop() ?? '';
+        const port = parseInt(portHex, 16);
+        const inode = fields[9];
+        if (/^[0-9A-F]{4}$/i.test(portHex) && /^\d+$/.test(inode) && inode !== '0') {
+            listening.set(inode, port);
+        }
+    }
+
+    return listening;
+}
+
+/**
+ * Collect the socket inodes held open by a process
+ *
+ * @returns Set of inodes, or null if the fd directory cannot be read
+ */
+async function readSocketInodes(pid: number, procRoot: string): Promise<Set<string> | null> {
+    const fdDir = path.join(procRoot, String(pid), 'fd');
+
+    let fds: string[];
+    try {
+        fds = await fs.readdir(fdDir);
+    } catch {
+        return null;
+    }
+
+    const inodes = new Set<string>();
+    for (const fd of fds) {
+        try {
+            const inode = parseSocketInode(await fs.readlink(path.join(fdDir, fd)));
+            if (inode) {
+                inodes.add(inode);
+            }
+        } catch {
+            // Descriptor closed between readdir and readlink
+        }
+    }
+
+    return inodes;
+}
+
+/**
+ * Resolve the TCP ports a process is listening on by matching its socket
+ * inodes against the LISTEN entries of /proc/net/tcp and /proc/net/tcp6.
+ * Requires neither iproute2 nor root-visible socket owner information.
+ *
+ * @param pid - Process to inspect
+ * @param procRoot - Root of the process filesystem (overridable for tests)
+ * @returns Unordered unique ports, or null when procfs cannot be read
+ */
+export async function readListeningPorts(
+    pid: number,
+    procRoot: string = DEFAULT_PROC_ROOT
+): Promise<number[] | null> {
+    if (!isValidPid(pid)) {
+        return null;
+    }
+
+    const inodes = await readSocketInodes(pid, procRoot);
+    if (!inodes) {
+        return null;
+    }
+
+    let tablesRead = 0;
+    const ports = new Set<number>();
+    for (const table of ['tcp', 'tcp6']) {
+        let raw: string;
+        try {
+            raw = await fs.readFile(path.join(procRoot, 'net', table), 'utf8');
+        } catch {
+            continue;
+        }
+        tablesRead++;
+
+        for (const [inode, port] of parseListeningSockets(raw)) {
+            if (inodes.has(inode)) {
+                ports.add(port);
+            }
+        }
+    }
+
+    return tablesRead > 0 ? Array.from(ports) : null;
+}
@@ -0,0 +1,321 @@
+/**
+ * AG Telemetry - Response Adapters
+ * Known shapes of the GetUserStatus response, tried in order
+ */
+
+import { sanitizeLabel } from './security';
+import { AccountSummary, CreditBalance, ModelCapabilities, ModelConfig, ModelMetadata, PlanStatus } from './types';
+
+/** Longest plan name, tier or model attribute kept */
+const MAX_TEXT_LENGTH = 64;
+
+/** Most list items kept from a model attribute */
+const MAX_LIST_ITEMS = 16;
+
+/** Most unrecognized fields kept per model */
+const MAX_EXTRA_FIELDS = 16;
+
+/** Longest preview kept of an unrecognized field */
+const MAX_EXTRA_VALUE_LENGTH = 128;
+
+/** `ClientModelConfig` fields read by the adapter */
+const CLIENT_MODEL_CONFIG_FIELDS = new Set<string>([
+    'label',
+    'modelOrAlias',
+    'quotaInfo',
+    'isRecommended',
+    'supportsImages',
+    'modelProvider',
+    'allowedTiers',
+    'tagTitle'
+]);
+
+/** Quota fields of one model, as read from a response entry */
+export interface ParsedModel {
+    /** Display label, untrimmed */
+    label: string;
+    /** Model identifier, untrimmed */
+    systemId: string;
+    /** Remaining quota fraction, clamped to [0, 1] */
+    fuelLevel: number;
+    /** ISO timestamp for next quota reset */
+    resetTime?: string;
+    capabilities?: ModelCapabilities;
+    metadata?: ModelMetadata;
+    /** Unrecognized fields as sanitized JSON previews */
+    extraFields?: Record<string, string>;
+}
+
+/**
+ * Reads one known response shape
+ * Adding a shape means adding an adapter (and a recorded fixture); the
+ * service turns parsed models into systems the same way for every adapter.
+ */
+export interface ResponseAdapter {
+    /** Versioned name recorded in snapshots and diagnostics */
+    id: string;
+    /**
+     * Find the model entries of a response
+     *
+     * @returns The entries, or why the response does not have this shape
+     */
+    locate(response: Record<string, unknown>): unknown[] | string;
+    /**
+     * Read one entry
+     *
+     * @returns The model, or why the entry cannot be read
+     */
+    parseEntry(entry: unknown): ParsedModel | string;
+    /** Notes on located entries worth a validation warning, such as an empty list */
+    describeEntries?(entries: unknown[]): string[];
+    /**
+     * Read plan and credits, for shapes that carry them
+     *
+     * @returns The account, or undefined when the response carries none
+     */
+    parseAccount?(response: unknown): AccountSummary | undefined;
+}
+
+/** The adapter that accepted a response */
+export interface AdapterMatch {
+    adapter: ResponseAdapter;
+    entries: unknown[];
+}
+
+/** No adapter accepted a response */
+export interface AdapterMismatch {
+    /** One reason per adapter, prefixed with its id */
+    reasons: string[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Name the type of a JSON value for messages, e.g. `an array`
+ */
+function describeType(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return 'an array';
+    }
+    return typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+}
+
+function keyList(record: Record<string, unknown>): string {
+    return `[${Object.keys(record).join(', ')}]`;
+}
+
+function readText(value: unknown): string | undefined {
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+    const trimmed = value.trim().slice(0, MAX_TEXT_LENGTH);
+    return trimmed.length > 0 ? trimmed : undefined;
+}
+
+/**
+ * Read a credit count; int64 fields are serialized as strings
+ * Negative values (used for unlimited plans) and garbage are left out.
+ */
+function readCredits(value: unknown): number | undefined {
+    const count = typeof value === 'string' && /^\d{1,15}$/.test(value.trim())
+        ? Number(value)
+        : value;
+    return typeof count === 'number' && Number.isFinite(count) && count >= 0 ? count : undefined;
+}
+
+/**
+ * Drop fields that could not be read
+ *
+ * @returns The remaining fields, or undefined when none are left
+ */
+function definedFields<T extends object>(record: T): T | undefined {
+    const fields = Object.entries(record).filter(([, value]) => value !== undefined);
+    return fields.length > 0 ? Object.fromEntries(fields) as T : undefined;
+}
+
+function readBalance(available: unknown, monthly: unknown): CreditBalance | undefined {
+    return definedFields({ available: readCredits(available), monthly: readCredits(monthly) });
+}
+
+function readFlag(value: unknown): boolean | undefined {
+    return typeof value === 'boolean' ? value : undefined;
+}
+
+function readTextList(value: unknown): string[] | undefined {
+    if (!Array.isArray(value)) {
+        return undefined;
+    }
+    const items = value.slice(0, MAX_LIST_ITEMS)
+        .map(readText)
+        .filter((item): item is string => item !== undefined);
+    return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Keep fields the adapter does not read, for diagnostics
+ * Values are reduced to sanitized JSON previews and the count is capped,
+ * so a bloated response cannot grow the snapshot.
+ */
+function collectExtraFields(entry: Record<string, unknown>, known: Set<string>): Record<string, string> | undefined {
+    const extra: Record<string, string> = {};
+    let count = 0;
+    for (const [key, value] of Object.entries(entry)) {
+        if (known.has(key) || value === undefined) {
+            continue;
+        }
+        if (count >= MAX_EXTRA_FIELDS) {
+            break;
+        }
+        const name = sanitizeLabel(key, MAX_TEXT_LENGTH);
+        if (name) {
+            extra[name] = sanitizeLabel(JSON.stringify(value) ?? String(value), MAX_EXTRA_VALUE_LENGTH);
+            count++;
+        }
+    }
+    return count > 0 ? extra : undefined;
+}
+
+/**
+ * Find `clientModelConfigs` inside a `cascadeModelConfigData` object
+ */
+function locateClientModelConfigs(parent: Record<string, unknown>, parentName: string): unknown[] | string {
+    const cascade = parent.cascadeModelConfigData;
+    if (!isRecord(cascade)) {
+        return `Missing 'cascadeModelConfigData' in ${parentName}. ${parentName} keys: ${keyList(parent)}`;
+    }
+    if (!Array.isArray(cascade.clientModelConfigs)) {
+        return `Missing or invalid 'clientModelConfigs' array. cascadeModelConfigData keys: ${keyList(cascade)}`;
+    }
+    return cascade.clientModelConfigs;
+}
+
+function describeClientModelConfigs(entries: unknown[]): string[] {
+    return entries.length === 0 ? ['clientModelConfigs array is empty - no models configured'] : [];
+}
+
+/**
+ * Read a `ClientModelConfig` entry
+ * Missing quota info is read as an exhausted quota, so exhausted models
+ * still appear with their reset time.
+ */
+function parseClientModelConfig(entry: unknown): ParsedModel | string {
+    if (!isRecord(entry)) {
+        return `Entry is ${describeType(entry)}, not an object`;
+    }
+    const config = entry as Partial<ModelConfig>;
+    if (typeof config.label !== 'string') {
+        return config.label === undefined
+            ? `'label' is missing`
+            : `'label' is ${describeType(config.label)}, not a string`;
+    }
+
+    const quota = isRecord(config.quotaInfo) ? config.quotaInfo : undefined;
+    const fraction = quota?.remainingFraction;
+    const fuelLevel = typeof fraction === 'number' && Number.isFinite(fraction)
+        ? Math.max(0, Math.min(1, fraction))
+        : 0;
+    const resetTime = typeof quota?.resetTime === 'string' ? quota.resetTime : undefined;
+
+    const model = isRecord(config.modelOrAlias) ? config.modelOrAlias.model : undefined;
+    const systemId = model ?? config.label;
+    if (typeof systemId !== 'string') {
+        return `'modelOrAlias.model' is ${describeType(systemId)}, not a string`;
+    }
+
+    const capabilities = definedFields<ModelCapabilities>({
+        recommended: readFlag(config.isRecommended),
+        images: readFlag(config.supportsImages)
+    });
+    const metadata = definedFields<ModelMetadata>({
+        provider: readText(config.modelProvider),
+        allowedTiers: readTextList(config.allowedTiers),
+        tag: readText(config.tagTitle)
+    });
+    const extraFields = collectExtraFields(entry, CLIENT_MODEL_CONFIG_FIELDS);
+
+    return {
+        label: config.label,
+        systemId,
+        fuelLevel,
+        resetTime,
+        ...(capabilities ? { capabilities } : {}),
+        ...(metadata ? { metadata } : {}),
+        ...(extraFields ? { extraFields } : {})
+    };
+}
+
+/**
+ * Read `userStatus.planStatus`
+ *
+ * @returns The summary, or undefined when no field could be read
+ */
+function parsePlanStatus(response: unknown): AccountSummary | undefined {
+    if (!isRecord(response)) {
+        return undefined;
+    }
+    const userStatus = isRecord(response.userStatus) ? response.userStatus : {};
+    const planStatus: PlanStatus = isRecord(userStatus.planStatus) ? userStatus.planStatus as PlanStatus : {};
+    const planInfo: NonNullable<PlanStatus['planInfo']> = isRecord(planStatus.planInfo) ? planStatus.planInfo : {};
+
+    return definedFields<AccountSummary>({
+        planName: readText(planInfo.planName),
+        tier: readText(planInfo.teamsTier),
+        promptCredits: readBalance(planStatus.availablePromptCredits, planInfo.monthlyPromptCredits),
+        flowCredits: readBalance(planStatus.availableFlowCredits, planInfo.monthlyFlowCredits)
+    });
+}
+
+/**
+ * `userStatus.cascadeModelConfigData.clientModelConfigs`
+ */
+const USER_STATUS_V1: ResponseAdapter = {
+    id: 'user-status-v1',
+    locate: response => {
+        if (!isRecord(response.userStatus)) {
+            return `Missing 'userStatus' field. Received keys: ${keyList(response)}`;
+        }
+        return locateClientModelConfigs(response.userStatus, 'userStatus');
+    },
+    parseEntry: parseClientModelConfig,
+    describeEntries: describeClientModelConfigs,
+    parseAccount: parsePlanStatus
+};
+
+/**
+ * `cascadeModelConfigData.clientModelConfigs` without the userStatus wrapper
+ */
+const CASCADE_CONFIG_V1: ResponseAdapter = {
+    id: 'cascade-config-v1',
+    locate: response => locateClientModelConfigs(response, 'response'),
+    parseEntry: parseClientModelConfig,
+    describeEntries: describeClientModelConfigs
+};
+
+/** Registered adapters, tried in order */
+export const RESPONSE_ADAPTERS: readonly ResponseAdapter[] = [
+    USER_STATUS_V1,
+    CASCADE_CONFIG_V1
+];
+
+/**
+ * Pick the first adapter that recognizes a response
+ */
+export function selectResponseAdapter(
+    response: Record<string, unknown>,
+    adapters: readonly ResponseAdapter[] = RESPONSE_ADAPTERS
+): AdapterMatch | AdapterMismatch {
+    const reasons: string[] = [];
+    for (const adapter of adapters) {
+        const located = adapter.locate(response);
+        if (typeof located !== 'string') {
+            return { adapter, entries: located };
+        }
+        reasons.push(`${adapter.id}: ${located}`);
+    }
+    return { reasons };
+}
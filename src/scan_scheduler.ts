@@ -0,0 +1,95 @@
+/**
+ * AG Telemetry - Scan Scheduler
+ * Picks the delay until the next quota scan from the last snapshot
+ */
+
+import { ReadinessLevel, ScanBounds, TelemetrySnapshot } from './types';
+
+/**
+ * Compute the delay until the next telemetry scan
+ * - WARNING or CRITICAL models scan at the minimum interval
+ * - An all-NOMINAL fleet scans at the maximum interval
+ * - Anything else (CAUTION, no data yet) scans at the baseline
+ * A pending quota reset on a partly used model pulls the scan forward
+ * so the replenished level shows up promptly.
+ *
+ * @param snapshot - Last telemetry snapshot, if any
+ * @param bounds - Normalized scan interval bounds in seconds
+ * @param now - Current time in epoch ms
+ * @returns Delay in milliseconds, within the bounds
+ */
+export function computeScanDelay(
+    snapshot: TelemetrySnapshot | undefined,
+    bounds: ScanBounds,
+    now: number = Date.now()
+): number {
+    const minMs = bounds.minSeconds * 1000;
+    const maxMs = bounds.maxSeconds * 1000;
+
+    let delay = bounds.baselineSeconds * 1000;
+    if (snapshot && snapshot.systems.length > 0) {
+        const urgent = snapshot.systems.some(s =>
+            s.readiness === ReadinessLevel.WARNING || s.readiness === ReadinessLevel.CRITICAL
+        );
+        const nominal = snapshot.systems.every(s => s.readiness === ReadinessLevel.NOMINAL);
+
+        if (urgent) {
+            delay = minMs;
+        } else if (nominal) {
+            delay = maxMs;
+        }
+
+        const resetAt = earliestResetAt(snapshot, now);
+        if (resetAt !== undefined && resetAt - now < delay) {
+            delay = resetAt - now;
+        }
+    }
+
+    return Math.min(maxMs, Math.max(minMs, delay));
+}
+
+/**
+ * Find the earliest future quota reset of a partly used model
+ * Full models are skipped since their reset changes nothing.
+ *
+ * @param snapshot - Telemetry snapshot to inspect
+ * @param now - Current time in epoch ms
+ * @returns Reset time in epoch ms, or undefined when none is pending
+ */
+export function earliestResetAt(snapshot: TelemetrySnapshot, now: number = Date.now()): number | undefined {
+    let earliest: number | undefined;
+    for (const resetAt of resetTimes(snapshot)) {
+        if (resetAt > now && (earliest === undefined || resetAt < earliest)) {
+            earliest = resetAt;
+        }
+    }
+    return earliest;
+}
+
+/**
+ * Whether a partly used model reports a reset time that has already passed
+ * The server has not refreshed that model's quota yet.
+ *
+ * @param snapshot - Telemetry snapshot to inspect
+ * @param now - Current time in epoch ms
+ */
+export function hasOverdueReset(snapshot: TelemetrySnapshot, now: number = Date.now()): boolean {
+    return resetTimes(snapshot).some(resetAt => resetAt <= now);
+}
+
+/**
+ * Parsed reset times of partly used models
+ */
+function resetTimes(snapshot: TelemetrySnapshot): number[] {
+    const times: number[] = [];
+    for (const system of snapshot.systems) {
+        if (!system.replenishmentEta || system.fuelLevel >= 1) {
+            continue;
+        }
+        const resetAt = Date.parse(system.replenishmentEta);
+        if (Number.isFinite(resetAt)) {
+            times.push(resetAt);
+        }
+    }
+    return times;
+}
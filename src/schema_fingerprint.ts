@@ -0,0 +1,165 @@
+/**
+ * AG Telemetry - Schema Fingerprint
+ * Structural fingerprints of server responses, for detecting format changes
+ */
+
+import { createHash } from 'crypto';
+import { SchemaDiff, SchemaFingerprint } from './types';
+
+/** Most key paths recorded per response */
+const MAX_PATHS = 512;
+
+/** Deepest nesting followed */
+const MAX_DEPTH = 12;
+
+/** Longest key kept in a path segment */
+const MAX_KEY_LENGTH = 64;
+
+/** Keys that look like message field names rather than map data */
+const FIELD_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+function jsonType(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function typeSet(type: string): Set<string> {
+    return new Set(type.split('|'));
+}
+
+/**
+ * Sort and hash the types recorded per path
+ */
+function buildFingerprint(types: Map<string, Set<string>>, truncated: boolean): SchemaFingerprint {
+    // fromEntries defines own properties, so keys such as __proto__ stay data
+    const paths: Record<string, string> = Object.fromEntries(
+        Array.from(types.keys()).sort().map(path => [path, Array.from(types.get(path)!).sort().join('|')])
+    );
+    const hash = createHash('sha256')
+        .update(Object.entries(paths).map(([path, type]) => `${path}:${type}`).join('\n'))
+        .digest('hex');
+
+    return { hash, paths, truncated };
+}
+
+/**
+ * Record the key paths and value types of a parsed JSON value
+ * Elements of an array share one `[]` path, so fingerprints do not depend
+ * on how many models the response lists. Objects with keys that are not
+ * field names (protobuf maps such as `{"image/png": true}`) share one `{}`
+ * path for the same reason.
+ */
+export function computeFingerprint(value: unknown): SchemaFingerprint {
+    const types = new Map<string, Set<string>>();
+    let truncated = false;
+
+    const visit = (node: unknown, path: string, depth: number) => {
+        const type = jsonType(node);
+        if (path) {
+            let seen = types.get(path);
+            if (!seen) {
+                if (types.size >= MAX_PATHS) {
+                    truncated = true;
+                    return;
+                }
+                seen = new Set();
+                types.set(path, seen);
+            }
+            seen.add(type);
+        }
+        if (depth >= MAX_DEPTH) {
+            return;
+        }
+
+        if (Array.isArray(node)) {
+            for (const item of node) {
+                visit(item, `${path}[]`, depth + 1);
+            }
+        } else if (type === 'object') {
+            const entries = Object.entries(node as Record<string, unknown>);
+            const isMap = entries.some(([key]) => !FIELD_NAME.test(key));
+            for (const [key, child] of entries) {
+                const segment = key.slice(0, MAX_KEY_LENGTH);
+                const childPath = isMap ? `${path}{}` : path ? `${path}.${segment}` : segment;
+                visit(child, childPath, depth + 1);
+            }
+        }
+    };
+    visit(value, '', 0);
+
+    return buildFingerprint(types, truncated);
+}
+
+/**
+ * Combine the paths and types of two fingerprints
+ * Proto3 JSON leaves out fields holding default values, so a field seen
+ * once stays known even when later responses omit it.
+ */
+export function mergeFingerprints(known: SchemaFingerprint, current: SchemaFingerprint): SchemaFingerprint {
+    const types = new Map<string, Set<string>>();
+    let truncated = known.truncated || current.truncated;
+
+    for (const fingerprint of [known, current]) {
+        for (const [path, type] of Object.entries(fingerprint.paths)) {
+            const seen = types.get(path);
+            if (seen) {
+                typeSet(type).forEach(t => seen.add(t));
+            } else if (types.size < MAX_PATHS) {
+                types.set(path, typeSet(type));
+            } else {
+                truncated = true;
+            }
+        }
+    }
+
+    return buildFingerprint(types, truncated);
+}
+
+/**
+ * List the paths added, removed or retyped since a previous fingerprint
+ * A path is retyped when it now holds a type the previous fingerprint
+ * never recorded for it.
+ */
+export function diffFingerprints(previous: SchemaFingerprint, current: SchemaFingerprint): SchemaDiff {
+    const diff: SchemaDiff = { added: [], removed: [], retyped: [] };
+    const before = new Map(Object.entries(previous.paths));
+    const after = new Map(Object.entries(current.paths));
+
+    for (const [path, type] of after) {
+        const previousType = before.get(path);
+        if (previousType === undefined) {
+            diff.added.push(path);
+        } else {
+            const known = typeSet(previousType);
+            if (Array.from(typeSet(type)).some(t => !known.has(t))) {
+                diff.retyped.push({ path, from: previousType, to: type });
+            }
+        }
+    }
+    for (const path of before.keys()) {
+        if (!after.has(path)) {
+            diff.removed.push(path);
+        }
+    }
+
+    return diff;
+}
+
+/**
+ * Validate a fingerprint read back from storage
+ */
+export function isSchemaFingerprint(value: unknown): value is SchemaFingerprint {
+    if (!value || typeof value !== 'object') {
+        return false;
+    }
+    const candidate = value as Record<string, unknown>;
+    if (typeof candidate.hash !== 'string' || !/^[a-f0-9]{64}$/.test(candidate.hash) ||
+        typeof candidate.truncated !== 'boolean' ||
+        !candidate.paths || typeof candidate.paths !== 'object' || Array.isArray(candidate.paths)) {
+        return false;
+    }
+    const entries = Object.entries(candidate.paths);
+    return entries.length <= MAX_PATHS && entries.every(([, type]) => typeof type === 'string');
+}
@@ -3,6 +3,9 @@
  * Provides sanitization and validation functions for untrusted data
  */
 
+import { isAbsolute } from 'path';
+import { ScanBounds } from './types';
+
 /**
  * Escapes markdown special characters to prevent injection attacks.
  * Use this function on any server-derived or untrusted content before
@@ -55,6 +58,36 @@ export function isValidCsrfToken(token: string): boolean {
     return /^[a-f0-9-]+$/i.test(token);
 }
 
+/**
+ * Validates that a host name is safe to use as an HTTP request target.
+ * Accepts DNS host names, dotted IPv4 addresses and IPv6 literals
+ * (optionally bracketed). Rejects anything containing whitespace,
+ * credentials, paths or ports.
+ *
+ * @param host - The host name to validate
+ * @returns true if the host is valid, false otherwise
+ */
+export function isValidHost(host: string): boolean {
+    if (typeof host !== 'string' || host.length === 0 || host.length > 253) {
+        return false;
+    }
+
+    const unbracketed = host.startsWith('[') && host.endsWith(']')
+        ? host.slice(1, -1)
+        : host;
+
+    // IPv6 literal
+    if (unbracketed.includes(':')) {
+        return /^[0-9a-f:.]+$/i.test(unbracketed) && unbracketed.split(':').length <= 9;
+    }
+
+    // DNS host name or IPv4 address: dot-separated labels of [a-z0-9-]
+    const labels = unbracketed.split('.');
+    return labels.every(label =>
+        /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i.test(label)
+    );
+}
+
 /**
  * Validates that alert thresholds are properly ordered.
  * Thresholds must satisfy: caution > warning > critical > 0
@@ -118,6 +151,100 @@ export function normalizeScanInterval(value: unknown, fallback: number = 90): nu
     return Math.min(maxSeconds, Math.max(minSeconds, normalized));
 }
 
+/**
+ * Normalizes the adaptive scan interval settings.
+ * Each value is bounded like scanInterval; the minimum and maximum are
+ * widened as needed so that min <= baseline <= max.
+ *
+ * @param baseline - The raw scanInterval value
+ * @param min - The raw minScanInterval value
+ * @param max - The raw maxScanInterval value
+ * @returns Consistent scan bounds in seconds
+ */
+export function normalizeScanBounds(baseline: unknown, min: unknown, max: unknown): ScanBounds {
+    const baselineSeconds = normalizeScanInterval(baseline, 90);
+    return {
+        baselineSeconds,
+        minSeconds: Math.min(baselineSeconds, normalizeScanInterval(min, 30)),
+        maxSeconds: Math.max(baselineSeconds, normalizeScanInterval(max, 600))
+    };
+}
+
+/**
+ * Normalizes the heartbeat interval setting.
+ * Zero disables the heartbeat; other values are bounded to 5-300 seconds.
+ *
+ * @param value - The raw interval value to normalize
+ * @param fallback - Default value if input is invalid
+ * @returns The normalized interval in seconds, or 0 when disabled
+ */
+export function normalizeHeartbeatInterval(value: unknown, fallback: number = 15): number {
+    const minSeconds = 5;
+    const maxSeconds = 300;
+    const fallbackValue = Number.isFinite(fallback) ? Math.floor(fallback) : 15;
+
+    const normalized = typeof value === 'number' && Number.isFinite(value)
+        ? Math.floor(value)
+        : fallbackValue;
+    if (normalized <= 0) {
+        return 0;
+    }
+    return Math.min(maxSeconds, Math.max(minSeconds, normalized));
+}
+
+/**
+ * Normalizes the port probe concurrency setting.
+ * Bounds the number of simultaneous connections opened during discovery
+ * to between 1 and 16.
+ *
+ * @param value - The raw concurrency value to normalize
+ * @param fallback - Default value if input is invalid
+ * @returns The normalized concurrency limit
+ */
+export function normalizeProbeConcurrency(value: unknown, fallback: number = 4): number {
+    const min = 1;
+    const max = 16;
+    const fallbackValue = Number.isFinite(fallback) ? Math.floor(fallback) : 4;
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return Math.min(max, Math.max(min, fallbackValue));
+    }
+
+    return Math.min(max, Math.max(min, Math.floor(value)));
+}
+
+/**
+ * Normalizes the trusted language server path allowlist.
+ * Keeps up to 16 unique absolute paths; relative entries would resolve
+ * against an arbitrary working directory and are dropped.
+ *
+ * @param value - The raw setting value to normalize
+ * @returns The accepted directory paths
+ */
+export function normalizeTrustedPaths(value: unknown): string[] {
+    const maxEntries = 16;
+    const maxLength = 1024;
+
+    if (!Array.isArray(value)) {
+        return [];
+    }
+
+    const paths = new Set<string>();
+    for (const entry of value) {
+        if (typeof entry !== 'string') {
+            continue;
+        }
+        const trimmed = entry.trim();
+        if (trimmed.length > 0 && trimmed.length <= maxLength && !trimmed.includes('\0') && isAbsolute(trimmed)) {
+            paths.add(trimmed);
+        }
+        if (paths.size >= maxEntries) {
+            break;
+        }
+    }
+    return Array.from(paths);
+}
+
 /**
  * Sanitizes notification content by truncating overly long strings
  * and removing potentially misleading characters.
@@ -3,24 +3,91 @@
  * Manages uplink connection and data acquisition from Antigravity systems
  */
 
-import * as https from 'https';
-import { IncomingMessage } from 'http';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { platform } from 'os';
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { homedir, platform, userInfo } from 'os';
 import {
+    ConnectError,
+    ConnectErrorResponse,
+    ConnectionOverride,
+    ConnectionState,
+    ConnectionStateChange,
+    ConnectionStateInfo,
+    EntryReport,
     FuelSystem,
+    HeartbeatStatus,
+    PersistedUplink,
+    PortProbeOutcome,
+    PortProbeResult,
     ReadinessLevel,
+    RejectedCandidate,
+    ScanBounds,
+    SchemaDrift,
+    SchemaFingerprint,
+    ScanScheduleStatus,
+    StrategyAttempt,
+    DiscoveryReport,
     SystemClass,
     UplinkStatus,
+    UplinkMode,
     TelemetrySnapshot,
     ServerTelemetryResponse,
+    ServerInstance,
+    HttpStatusError,
+    TransportEndpoint,
+    TelemetryError,
     TelemetryEvent,
+    TelemetryEventPayloads,
     TelemetryEventType
 } from './types';
-import { isValidCsrfToken, isValidPid, normalizeScanInterval } from './security';
-
-const execAsync = promisify(exec);
+import {
+    isValidCsrfToken,
+    isValidHost,
+    isValidPid,
+    normalizeHeartbeatInterval,
+    normalizeProbeConcurrency,
+    normalizeScanBounds
+} from './security';
+import { PortScanResult, scanPorts } from './port_scanner';
+import { classifyConnectError, parseConnectError } from './connect_error';
+import { ProcessWatcher } from './process_watcher';
+import { VerificationPolicy, defaultInstallRoots, verifyProcessIdentity } from './process_verifier';
+import { computeScanDelay, earliestResetAt, hasOverdueReset } from './scan_scheduler';
+import { CERTIFICATE_REFUSED, CertificateVerifier, NodeTransport, Transport } from './transport';
+import { CommandRunner, NodeCommandRunner, powerShellArgs } from './command_runner';
+import {
+    parsePsIdentity,
+    parsePsProcesses,
+    parseWindowsIdentity,
+    parseWindowsProcesses
+} from './discovery_parsers';
+import {
+    StrategyContext,
+    StrategyRun,
+    WINDOWS_IDENTITY_SCRIPT,
+    WINDOWS_PROCESS_SCRIPT,
+    portStrategies,
+    processStrategies,
+    runStrategies
+} from './discovery_strategies';
+import { AdapterMatch, selectResponseAdapter } from './response_adapters';
+import { computeFingerprint, diffFingerprints, isSchemaFingerprint, mergeFingerprints } from './schema_fingerprint';
+import {
+    BackoffPolicy,
+    DEFAULT_BACKOFF_POLICY,
+    canTransition,
+    computeBackoffDelay
+} from './connection_state';
+import {
+    BeaconCandidate,
+    DEFAULT_PROC_ROOT,
+    extractCsrfTokenFromArgs,
+    extractWorkspaceIdFromArgs,
+    isLanguageServerCommand,
+    ProcessIdentity,
+    readProcessArgs,
+    readProcessIdentity
+} from './procfs';
 
 type EventCallback = (event: TelemetryEvent) => void;
 
@@ -32,6 +99,36 @@ export interface ValidationResult {
     errors: string[];
     warnings: string[];
     receivedKeys: string[];
+    /** Key paths and value types of the whole response, not just the top level */
+    fingerprint?: SchemaFingerprint;
+    /** Response adapter that recognized the response */
+    adapterId?: string;
+}
+
+/**
+ * Outcome of a GetUserStatus request
+ */
+interface QueryOutcome {
+    /** Parsed response body, or null on failure */
+    response: ServerTelemetryResponse | null;
+    /** Why the request failed, when it did */
+    failure?: TelemetryError;
+}
+
+/**
+ * Construction options for TelemetryService
+ */
+export interface TelemetryServiceOptions {
+    /** Root of the Linux process filesystem (overridable for tests) */
+    procRoot?: string;
+    /** Reconnect backoff policy (overridable for tests) */
+    backoffPolicy?: BackoffPolicy;
+    /** Delay between liveness checks of the connected process (overridable for tests) */
+    watchIntervalMs?: number;
+    /** Sends requests to language server ports (overridable for tests) */
+    transport?: Transport;
+    /** Runs process and port discovery tools (overridable for tests) */
+    commandRunner?: CommandRunner;
 }
 
 /**
@@ -46,6 +143,8 @@ export class TelemetryService {
 
     private eventSubscribers: Set<EventCallback> = new Set();
     private scanTimer?: NodeJS.Timeout;
+    private resetScanTimer?: NodeJS.Timeout;
+    private heartbeatTimer?: NodeJS.Timeout;
     private lastSnapshot?: TelemetrySnapshot;
 
     /** Last raw API response for debugging */
@@ -54,20 +153,149 @@ export class TelemetryService {
     /** Last validation result for diagnostics */
     private lastValidation?: ValidationResult;
 
+    /** Structure of the last response, or the persisted one from a previous session */
+    private knownFingerprint?: SchemaFingerprint;
+
+    /** Last change of response structure, for diagnostics */
+    private schemaDrift?: SchemaDrift;
+
+    /** Known paths the last response left out, for diagnostics */
+    private missingSchemaPaths: string[] = [];
+
+    /** Last Connect error returned by GetUserStatus, for diagnostics */
+    private lastConnectError?: ConnectError;
+
     /** Consecutive failure count for user feedback */
     private consecutiveFailures: number = 0;
 
-    /** Lock to prevent concurrent uplink establishment attempts */
-    private isEstablishingUplink: boolean = false;
+    /**
+     * Uplink attempt in progress; doubles as the lock preventing concurrent
+     * attempts. Aborting it cancels discovery, port probes and exec calls.
+     */
+    private uplinkAttempt?: AbortController;
+
+    /** Discovery attempt in progress, shared by concurrent callers */
+    private inFlightUplink?: Promise<boolean>;
+
+    /** Fast reconnect in progress, awaited before starting discovery */
+    private inFlightFastReconnect?: Promise<boolean>;
+
+    /** Telemetry request in progress */
+    private acquisitionAttempt?: AbortController;
+
+    /** Aborted on dispose to cancel all outstanding work */
+    private readonly lifecycle = new AbortController();
+
+    /** Language server instances found by the last discovery */
+    private instances: ServerInstance[] = [];
+
+    /** PID of the instance explicitly chosen by the user */
+    private preferredPid?: number;
+
+    /** URIs of the open workspace folders, used to auto-pick an instance */
+    private workspaceHints: string[] = [];
+
+    /** Directories trusted to hold the language server, besides the standard install locations */
+    private trustedRoots: string[] = [];
+
+    /** Processes the last discovery refused to send the token to */
+    private rejectedCandidates: RejectedCandidate[] = [];
+
+    /** Strategies tried by the last process listing */
+    private processDiscovery: StrategyAttempt[] = [];
+
+    /** Strategies tried by the last port lookup of each discovered process */
+    private portDiscovery = new Map<number, StrategyAttempt[]>();
+
+    /** Manual uplink target from settings; bypasses discovery when its port is set */
+    private connectionOverride?: ConnectionOverride;
+
+    /** Probe result of the last manual uplink attempt, for diagnostics */
+    private manualProbeResult?: PortProbeResult;
+
+    /** Current state of the uplink state machine */
+    private connectionState: ConnectionState = ConnectionState.OFFLINE;
+
+    /** Consecutive failed reconnect attempts, drives the backoff delay */
+    private retryAttempt: number = 0;
+
+    /** Epoch ms of the scheduled reconnect attempt */
+    private nextRetryAt?: number;
+
+    private reconnectTimer?: NodeJS.Timeout;
+    private disposed: boolean = false;
+
+    /** Acquisition currently in progress, shared by concurrent callers */
+    private inFlightAcquisition?: Promise<TelemetrySnapshot | null>;
+
+    /** Sequence number of the most recently issued telemetry request */
+    private requestSequence: number = 0;
+
+    /** Sequence number of the newest request whose result was applied */
+    private appliedSequence: number = 0;
+
+    /** When the last manual refresh was started (epoch ms) */
+    private lastManualRefreshAt: number = 0;
+
+    /** Adaptive scan bounds; undefined while periodic scans are stopped */
+    private scanBounds?: ScanBounds;
+    private scansPaused: boolean = false;
+    private nextScanAt?: number;
+
+    /** Bumped whenever the scan chain is stopped, so stale chains end */
+    private scanCycle: number = 0;
+
+    /** Epoch ms of the one-off scan planned after the next quota reset */
+    private nextResetScanAt?: number;
+
+    /** Rescans so far waiting for an overdue reset to show up */
+    private resetRetries: number = 0;
+
+    /** Seconds between heartbeats; 0 when disabled */
+    private heartbeatIntervalSeconds: number = 0;
+    private heartbeatInFlight: boolean = false;
+
+    /**
+     * Server certificate fingerprints pinned on first use, by pin scope
+     * (pid, or host for manual uplinks) and port. Never persisted.
+     */
+    private certificatePins = new Map<string, Map<number, string>>();
+
+    /** Certificate mismatches already reported, so each is warned about once */
+    private reportedMismatches = new Set<string>();
+
+    /** Heartbeats missed in a row; separate from consecutiveFailures */
+    private heartbeatMisses: number = 0;
+    private lastHeartbeat?: { at: number; result: PortProbeResult };
 
     /** Threshold for showing user feedback about failures */
     private static readonly FAILURE_THRESHOLD = 3;
     private static readonly MAX_SCAN_PORTS = 32;
+    private static readonly MAX_INSTANCES = 8;
+    private static readonly DEFAULT_PROBE_CONCURRENCY = 4;
     private static readonly MAX_RESPONSE_BYTES = 1024 * 1024;
     private static readonly MAX_PROBE_BYTES = 64 * 1024;
     private static readonly MAX_SYSTEMS = 200;
     private static readonly MAX_LABEL_LENGTH = 128;
     private static readonly MAX_SYSTEM_ID_LENGTH = 256;
+    /** Rejected model entries kept for diagnostics */
+    private static readonly MAX_REPORTED_REJECTIONS = 20;
+    private static readonly MAX_TOKEN_FILE_BYTES = 4096;
+    /** Output cap for commands about a single process */
+    private static readonly MAX_PROCESS_OUTPUT_BYTES = 64 * 1024;
+    /** Liveness checks between language server enumerations on Windows (2 minutes at the default interval) */
+    private static readonly WINDOWS_RESCAN_EVERY = 24;
+    private static readonly DEFAULT_HOST = '127.0.0.1';
+    private static readonly MIN_MANUAL_REFRESH_MS = 2000;
+    private static readonly MAX_HEARTBEAT_MISSES = 3;
+    private static readonly RESET_GRACE_MS = 10_000;
+    private static readonly RESET_RETRY_MS = 30_000;
+    private static readonly MAX_RESET_RETRIES = 3;
+    /** Resets further out are left to the periodic scans */
+    private static readonly MAX_RESET_DELAY_MS = 24 * 60 * 60 * 1000;
+
+    /** Maximum number of ports probed simultaneously */
+    private probeConcurrency: number = TelemetryService.DEFAULT_PROBE_CONCURRENCY;
 
     /** Default alert thresholds (hardcoded for simplicity) */
     private readonly thresholds = {
@@ -76,7 +304,33 @@ export class TelemetryService {
         critical: 5
     };
 
-    constructor() { }
+    /** Root of the Linux process filesystem used for discovery */
+    private readonly procRoot: string;
+
+    private readonly backoffPolicy: BackoffPolicy;
+
+    /** Notices language server restarts between scans */
+    private readonly processWatcher: ProcessWatcher;
+
+    private readonly transport: Transport;
+
+    private readonly commandRunner: CommandRunner;
+
+    constructor(options: TelemetryServiceOptions = {}) {
+        this.procRoot = options.procRoot ?? DEFAULT_PROC_ROOT;
+        this.backoffPolicy = options.backoffPolicy ?? DEFAULT_BACKOFF_POLICY;
+        this.transport = options.transport ?? new NodeTransport();
+        this.commandRunner = options.commandRunner ?? new NodeCommandRunner();
+        this.processWatcher = new ProcessWatcher({
+            isAlive: pid => TelemetryService.isProcessAlive(pid),
+            listServers: async () => (await this.enumerateBeacons(this.lifecycle.signal)).value,
+            onChange: change => void this.recoverUplink(`Language server change detected (${change})`),
+            isHealthy: () => this.connectionState === ConnectionState.CONNECTED,
+            intervalMs: options.watchIntervalMs,
+            // Enumerating processes on Windows starts PowerShell, so it runs less often there
+            rescanEvery: platform() === 'win32' ? TelemetryService.WINDOWS_RESCAN_EVERY : undefined
+        });
+    }
 
     /**
      * Subscribe to telemetry events
@@ -89,12 +343,20 @@ export class TelemetryService {
     /**
      * Emit event to all subscribers
      */
-    private emit(type: TelemetryEventType, payload?: unknown): void {
-        const event: TelemetryEvent = {
+    private emit<K extends TelemetryEventType>(
+        type: K,
+        ...[payload]: TelemetryEventPayloads[K] extends undefined ? [] : [TelemetryEventPayloads[K]]
+    ): void {
+        // Work finishing after dispose must not reach disposed views
+        if (this.disposed) {
+            return;
+        }
+
+        const event = {
             type,
             timestamp: Date.now(),
             payload
-        };
+        } as TelemetryEvent;
         this.eventSubscribers.forEach(cb => cb(event));
     }
 
@@ -102,225 +364,788 @@ export class TelemetryService {
         return Number.isInteger(port) && port > 0 && port < 65536;
     }
 
-    private readLimitedResponse(res: IncomingMessage, maxBytes: number): Promise<string | null> {
-        return new Promise(resolve => {
-            let data = '';
-            let size = 0;
-            let resolved = false;
-
-            const finish = (value: string | null) => {
-                if (!resolved) {
-                    resolved = true;
-                    resolve(value);
-                }
-            };
-
-            res.on('data', chunk => {
-                const chunkSize = typeof chunk === 'string'
-                    ? Buffer.byteLength(chunk)
-                    : chunk.length;
-                size += chunkSize;
-                if (size > maxBytes) {
-                    res.destroy();
-                    finish(null);
-                    return;
-                }
-                data += chunk;
-            });
+    /**
+     * Establish uplink connection to Antigravity systems
+     * Concurrent callers (e.g., rapid button clicks) share the attempt in
+     * progress; their signals only cancel an attempt they started.
+     *
+     * @param signal - Optional signal to cancel the attempt
+     */
+    async establishUplink(signal?: AbortSignal): Promise<boolean> {
+        if (this.inFlightUplink) {
+            return this.inFlightUplink;
+        }
+        // A fast reconnect holds the lock; fall back to discovery only if it fails
+        if (this.inFlightFastReconnect && await this.inFlightFastReconnect) {
+            return true;
+        }
+        if (this.inFlightUplink) {
+            return this.inFlightUplink;
+        }
+        if (this.uplinkAttempt || this.disposed) {
+            return false;
+        }
 
-            res.on('end', () => finish(data));
-            res.on('error', () => finish(null));
+        const uplink = this.performUplinkAttempt(signal).finally(() => {
+            if (this.inFlightUplink === uplink) {
+                this.inFlightUplink = undefined;
+            }
         });
+        this.inFlightUplink = uplink;
+        return uplink;
     }
 
     /**
-     * Establish uplink connection to Antigravity systems
-     * Protected against concurrent calls to prevent race conditions
+     * Whether an uplink attempt is in progress
      */
-    async establishUplink(): Promise<boolean> {
-        // Prevent concurrent uplink attempts (e.g., rapid button clicks)
-        if (this.isEstablishingUplink) {
-            return false;
-        }
+    isEstablishingUplink(): boolean {
+        return this.uplinkAttempt !== undefined;
+    }
 
-        this.isEstablishingUplink = true;
+    private async performUplinkAttempt(signal?: AbortSignal): Promise<boolean> {
+        const attempt = new AbortController();
+        this.uplinkAttempt = attempt;
+        const attemptSignal = this.linkSignals(attempt.signal, signal);
+        this.clearReconnectTimer();
         this.emit('scan-started');
 
         try {
-            const processData = await this.locateAntigravityBeacon();
-            if (!processData) {
+            if (this.isManualOverrideActive()) {
+                return await this.establishManualUplink(attemptSignal);
+            }
+
+            this.transitionTo(ConnectionState.DISCOVERING);
+            this.portDiscovery.clear();
+            const located = await this.locateAntigravityBeacons(attemptSignal);
+            attemptSignal.throwIfAborted();
+
+            // Pins of processes that are gone must not block a restarted server
+            this.prunePins(located.map(c => c.pid));
+
+            const { verified: candidates, rejected } = await this.verifyCandidates(located, attemptSignal);
+            if (candidates.length > 0) {
+                this.transitionTo(ConnectionState.PROBING);
+            }
+
+            const instances: ServerInstance[] = [];
+            for (const candidate of candidates) {
+                instances.push(await this.probeInstance(candidate, attemptSignal));
+                attemptSignal.throwIfAborted();
+            }
+            this.instances = instances;
+
+            // A healthy port must answer like a language server, not just with a 200
+            for (const instance of instances) {
+                if (!instance.uplink.isConnected &&
+                    instance.probeResults.some(r => r.outcome === 'unexpected-response')) {
+                    rejected.push({ pid: instance.pid, reason: 'unexpected-response' });
+                }
+            }
+            this.recordRejections(rejected);
+
+            const selected = this.chooseInstance(instances);
+            if (!selected) {
+                const notFound = rejected.length > 0
+                    ? `${rejected.length} language server process(es) failed verification`
+                    : 'No Antigravity language server process found';
+                this.emit('error', instances.length === 0
+                    ? { kind: 'discovery-failed', message: notFound }
+                    : {
+                        kind: 'port-scan-failed',
+                        message: `No port accepted the probe on ${instances.length} language server(s)`,
+                        scans: instances.map(i => ({ pid: i.pid, results: i.probeResults }))
+                    });
                 this.uplink = { isConnected: false, signalStrength: 0 };
                 this.emit('uplink-lost');
+                this.scheduleReconnect();
                 return false;
             }
 
-            const { pid, token } = processData;
-            const activePort = await this.scanFrequencies(pid, token);
+            this.uplink = { ...selected.uplink };
+            const activePort = selected.uplink.port;
 
-            if (!activePort) {
-                this.uplink = { isConnected: false, signalStrength: 0 };
-                this.emit('uplink-lost');
+            this.markConnected();
+            this.emit('uplink-established', { port: activePort });
+            return true;
+        } catch (err) {
+            if (attemptSignal.aborted) {
+                // Attempts superseded by abortPendingWork() leave state to the caller;
+                // a cancelled attempt leaves a healthy uplink in place
+                if (this.uplinkAttempt === attempt) {
+                    if (this.uplink.isConnected) {
+                        this.resumeConnected();
+                    } else {
+                        this.transitionTo(ConnectionState.OFFLINE);
+                    }
+                }
                 return false;
             }
+            this.emit('error', { kind: 'discovery-failed', message: TelemetryService.describeError(err) });
+            this.scheduleReconnect();
+            return false;
+        } finally {
+            if (this.uplinkAttempt === attempt) {
+                this.uplinkAttempt = undefined;
+            }
+        }
+    }
+
+    /**
+     * Combine the service lifetime with additional cancellation signals
+     */
+    private linkSignals(...signals: (AbortSignal | undefined)[]): AbortSignal {
+        const active = signals.filter((s): s is AbortSignal => s !== undefined);
+        return AbortSignal.any([this.lifecycle.signal, ...active]);
+    }
 
-            this.uplink = {
+    /**
+     * Cancel the uplink attempt and telemetry request in progress
+     */
+    private abortPendingWork(): void {
+        this.uplinkAttempt?.abort();
+        this.uplinkAttempt = undefined;
+        this.inFlightUplink = undefined;
+        this.inFlightFastReconnect = undefined;
+        this.acquisitionAttempt?.abort();
+        this.acquisitionAttempt = undefined;
+    }
+
+    /**
+     * Keep only candidates that are Antigravity language servers run by
+     * the current user, in trusted install locations
+     */
+    private async verifyCandidates(
+        candidates: BeaconCandidate[],
+        signal: AbortSignal
+    ): Promise<{ verified: BeaconCandidate[]; rejected: RejectedCandidate[] }> {
+        const policy = await this.verificationPolicy();
+        const verified: BeaconCandidate[] = [];
+        const rejected: RejectedCandidate[] = [];
+
+        for (const candidate of candidates) {
+            if (verified.length >= TelemetryService.MAX_INSTANCES) {
+                break;
+            }
+
+            const identity = await this.inspectProcess(candidate.pid, signal);
+            signal.throwIfAborted();
+            const reason = verifyProcessIdentity(identity, policy);
+            if (reason) {
+                rejected.push({
+                    pid: candidate.pid,
+                    reason,
+                    ...(identity?.executable ? { executable: identity.executable } : {})
+                });
+            } else {
+                verified.push(candidate);
+            }
+        }
+
+        return { verified, rejected };
+    }
+
+    /**
+     * Current user and trusted install locations
+     * Executable paths read from procfs are fully resolved, so the roots
+     * are compared both as configured and with symlinks resolved.
+     */
+    private async verificationPolicy(): Promise<VerificationPolicy> {
+        const os = platform();
+        const roots = [...defaultInstallRoots(os, homedir()), ...this.trustedRoots];
+        const resolved = await Promise.all(roots.map(root => fs.realpath(root).catch(() => root)));
+
+        let user: string | undefined;
+        try {
+            user = userInfo().username;
+        } catch {
+            user = undefined;
+        }
+
+        return {
+            platform: os,
+            trustedRoots: Array.from(new Set([...roots, ...resolved])),
+            uid: process.getuid?.(),
+            user
+        };
+    }
+
+    /**
+     * Replace the rejected candidates, warning once about each new rejection
+     */
+    private recordRejections(rejected: RejectedCandidate[]): void {
+        for (const rejection of rejected) {
+            const known = this.rejectedCandidates.some(r => r.pid === rejection.pid && r.reason === rejection.reason);
+            if (!known) {
+                const executable = rejection.executable ? ` (${rejection.executable})` : '';
+                console.warn(
+                    `[AG Telemetry] Not sending the CSRF token to PID ${rejection.pid}: ${rejection.reason}${executable}`
+                );
+            }
+        }
+        this.rejectedCandidates = rejected;
+    }
+
+    /**
+     * Detect ports for a discovered process and probe them for health
+     */
+    private async probeInstance(candidate: BeaconCandidate, signal: AbortSignal): Promise<ServerInstance> {
+        const { pid, token, workspaceId } = candidate;
+        const ports = await this.detectActiveFrequencies(pid, signal);
+        signal.throwIfAborted();
+        const { port: activePort, results } = await this.scanFrequencies(ports, token, signal, pid);
+
+        const uplink: UplinkStatus = activePort
+            ? {
                 isConnected: true,
+                pid,
+                host: TelemetryService.DEFAULT_HOST,
                 port: activePort,
                 securityToken: token,
                 lastContact: Date.now(),
-                signalStrength: 100
+                signalStrength: 100,
+                mode: 'auto'
+            }
+            : { isConnected: false, pid, securityToken: token, signalStrength: 0, mode: 'auto' };
+
+        return { pid, ports, workspaceId, uplink, probeResults: results };
+    }
+
+    /**
+     * Pick the instance to connect to among healthy ones
+     * Priority: the user's explicit choice, then the server whose workspace
+     * matches the current window, then the lowest PID.
+     */
+    private chooseInstance(instances: ServerInstance[]): ServerInstance | undefined {
+        const healthy = instances.filter(i => i.uplink.isConnected);
+
+        const preferred = healthy.find(i => i.pid === this.preferredPid);
+        if (preferred) {
+            return preferred;
+        }
+
+        const workspaceMatch = healthy.find(i =>
+            TelemetryService.matchesWorkspace(i.workspaceId, this.workspaceHints)
+        );
+        return workspaceMatch ?? healthy[0];
+    }
+
+    /**
+     * Check whether a server workspace id refers to one of the open folders
+     * Workspace ids encode the folder URI with punctuation replaced
+     * (e.g. `file_home_me_proj` for `file:///home/me/proj`), so both sides
+     * are compared with all non-alphanumerics removed.
+     */
+    private static matchesWorkspace(workspaceId: string | undefined, hints: string[]): boolean {
+        if (!workspaceId) {
+            return false;
+        }
+
+        const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+        const id = normalize(workspaceId);
+        return id.length > 0 && hints.some(hint => {
+            const normalizedHint = normalize(hint);
+            return normalizedHint.length > 0 && id === normalizedHint;
+        });
+    }
+
+    /**
+     * Set the maximum number of ports probed simultaneously during discovery
+     */
+    setProbeConcurrency(concurrency: number): void {
+        this.probeConcurrency = normalizeProbeConcurrency(
+            concurrency,
+            TelemetryService.DEFAULT_PROBE_CONCURRENCY
+        );
+    }
+
+    /**
+     * Set the URIs of the open workspace folders used to auto-pick a server
+     */
+    setWorkspaceHints(folderUris: string[]): void {
+        this.workspaceHints = [...folderUris];
+    }
+
+    /**
+     * Set directories trusted to hold the language server executable, in
+     * addition to the standard Antigravity install locations
+     */
+    setTrustedRoots(roots: string[]): void {
+        this.trustedRoots = [...roots];
+    }
+
+    /**
+     * Switch the uplink to a specific discovered instance
+     *
+     * @returns true if the instance is healthy and is now the active uplink
+     */
+    selectInstance(pid: number): boolean {
+        const instance = this.instances.find(i => i.pid === pid);
+        if (!instance || !instance.uplink.isConnected) {
+            return false;
+        }
+
+        this.preferredPid = pid;
+        if (this.uplink.pid !== pid || !this.uplink.isConnected) {
+            this.uplink = { ...instance.uplink };
+            this.lastSnapshot = undefined;
+            this.invalidatePendingRequests();
+            this.resumeConnected();
+            this.emit('uplink-established', { port: instance.uplink.port });
+        }
+        return true;
+    }
+
+    /**
+     * Get all discovered language server instances (without tokens)
+     */
+    getInstances(): ServerInstance[] {
+        return this.instances.map(instance => {
+            const uplink: UplinkStatus = { ...instance.uplink };
+            delete uplink.securityToken;
+
+            // Reflect live signal for the active instance
+            if (instance.pid === this.uplink.pid) {
+                uplink.isConnected = this.uplink.isConnected;
+                uplink.signalStrength = this.uplink.signalStrength;
+            }
+
+            return {
+                ...instance,
+                ports: [...instance.ports],
+                uplink,
+                probeResults: instance.probeResults.map(r => ({ ...r }))
             };
+        });
+    }
 
-            this.emit('uplink-established', { port: activePort });
+    /**
+     * Restore the response fingerprint persisted by a previous session
+     * Invalid values are ignored, so the next response becomes the baseline.
+     */
+    setKnownFingerprint(fingerprint: unknown): void {
+        if (isSchemaFingerprint(fingerprint)) {
+            this.knownFingerprint = fingerprint;
+        }
+    }
+
+    /**
+     * Describe the current uplink for persistence across sessions
+     * Only auto-discovered uplinks are persisted; the token is stored hashed.
+     */
+    getUplinkHint(): PersistedUplink | undefined {
+        const { isConnected, mode, pid, port, securityToken } = this.uplink;
+        if (!isConnected || mode !== 'auto' || !pid || !port || !securityToken) {
+            return undefined;
+        }
+        return { pid, port, tokenHash: TelemetryService.hashToken(securityToken) };
+    }
+
+    /**
+     * Reconnect to a previously persisted uplink without full discovery
+     * The process must still be alive, still carry a token with the same
+     * hash, belong to an open workspace folder when any are known, and the
+     * persisted port must still answer the probe. Any mismatch returns false
+     * so the caller can fall back to full discovery.
+     */
+    async tryFastReconnect(hint: unknown): Promise<boolean> {
+        if (!TelemetryService.isValidUplinkHint(hint) || this.isManualOverrideActive()) {
+            return false;
+        }
+        if (this.uplinkAttempt || this.disposed || !TelemetryService.isProcessAlive(hint.pid)) {
+            return false;
+        }
+
+        const reconnect = this.performFastReconnect(hint).finally(() => {
+            if (this.inFlightFastReconnect === reconnect) {
+                this.inFlightFastReconnect = undefined;
+            }
+        });
+        this.inFlightFastReconnect = reconnect;
+        return reconnect;
+    }
+
+    private async performFastReconnect(hint: PersistedUplink): Promise<boolean> {
+        const attempt = new AbortController();
+        this.uplinkAttempt = attempt;
+        const signal = this.linkSignals(attempt.signal);
+        this.transitionTo(ConnectionState.PROBING);
+        let connected = false;
+        try {
+            const candidate = await this.readProcessBeacon(hint.pid, signal);
+            if (!candidate || TelemetryService.hashToken(candidate.token) !== hint.tokenHash) {
+                return false;
+            }
+
+            // The hint is shared by every window, so it may name another window's server
+            if (this.workspaceHints.length > 0 &&
+                !TelemetryService.matchesWorkspace(candidate.workspaceId, this.workspaceHints)) {
+                return false;
+            }
+
+            const identity = await this.inspectProcess(hint.pid, signal);
+            if (verifyProcessIdentity(identity, await this.verificationPolicy())) {
+                return false;
+            }
+
+            const probe = await this.probeFrequency(
+                hint.port,
+                candidate.token,
+                signal,
+                TelemetryService.DEFAULT_HOST,
+                hint.pid
+            );
+            if (probe.outcome !== 'accepted' || signal.aborted) {
+                return false;
+            }
+
+            const uplink: UplinkStatus = {
+                isConnected: true,
+                pid: hint.pid,
+                host: TelemetryService.DEFAULT_HOST,
+                port: hint.port,
+                securityToken: candidate.token,
+                lastContact: Date.now(),
+                signalStrength: 100,
+                mode: 'auto'
+            };
+            this.instances = [{
+                pid: hint.pid,
+                ports: [hint.port],
+                workspaceId: candidate.workspaceId,
+                uplink,
+                probeResults: [probe]
+            }];
+            this.uplink = { ...uplink };
+
+            connected = true;
+            this.markConnected();
+            this.emit('uplink-established', { port: hint.port });
             return true;
-        } catch (err) {
-            this.emit('error', err);
+        } catch {
             return false;
         } finally {
-            this.isEstablishingUplink = false;
+            if (this.uplinkAttempt === attempt) {
+                // The caller falls back to full discovery, so no retry is scheduled
+                if (!connected) {
+                    this.transitionTo(ConnectionState.OFFLINE);
+                }
+                this.uplinkAttempt = undefined;
+            }
         }
     }
 
     /**
-     * Locate the Antigravity process beacon
+     * Read the token and workspace id of a single known process
      */
-    private async locateAntigravityBeacon(): Promise<{ pid: number; token: string } | null> {
+    private async readProcessBeacon(pid: number, signal: AbortSignal): Promise<BeaconCandidate | null> {
         const os = platform();
-        let output: string;
 
-        try {
-            if (os === 'win32') {
-                const { stdout } = await execAsync(
-                    'powershell -Command "Get-CimInstance Win32_Process | ' +
-                    'Where-Object {$_.Name -like \'*language_server*\'} | ' +
-                    'Select-Object ProcessId,CommandLine | ConvertTo-Json"',
-                    { timeout: 8000 }
-                );
-                output = stdout;
-            } else {
-                const { stdout } = await execAsync(
-                    'ps -axo pid,args | grep -i language_server | grep -v grep',
-                    { timeout: 8000 }
-                );
-                output = stdout;
+        if (os === 'linux') {
+            const args = await readProcessArgs(pid, this.procRoot);
+            if (args) {
+                const token = isLanguageServerCommand(args) ? extractCsrfTokenFromArgs(args) : null;
+                const workspaceId = extractWorkspaceIdFromArgs(args);
+                return token ? { pid, token, ...(workspaceId ? { workspaceId } : {}) } : null;
             }
-        } catch {
+        }
+
+        const output = os === 'win32'
+            ? await this.runCommand('powershell', powerShellArgs(WINDOWS_PROCESS_SCRIPT), signal)
+            : await this.runCommand('ps', ['-ww', '-o', 'pid=,args=', '-p', String(pid)], signal);
+        if (output === null) {
             return null;
         }
 
-        return this.extractBeaconData(output, os);
+        const candidates = os === 'win32' ? parseWindowsProcesses(output) : parsePsProcesses(output);
+        return candidates.find(c => c.pid === pid) ?? null;
     }
 
     /**
-     * Extract process ID and security token from beacon data
+     * Read the executable path and owner of a process
+     * On Linux, /proc is read directly; ps and CIM are fallbacks.
      */
-    private extractBeaconData(raw: string, os: string): { pid: number; token: string } | null {
-        if (!raw.trim()) return null;
+    private async inspectProcess(pid: number, signal: AbortSignal): Promise<ProcessIdentity | null> {
+        const os = platform();
 
-        const tokenPattern = /--csrf[_-]?token[=\s]+([a-f0-9-]+)/ig;
-        const extractToken = (text: string): string | null => {
-            tokenPattern.lastIndex = 0;
-            let match: RegExpExecArray | null;
-            let token: string | null = null;
-            while ((match = tokenPattern.exec(text)) !== null) {
-                const candidate = match[1];
-                if (isValidCsrfToken(candidate)) {
-                    token = candidate;
-                }
+        if (os === 'linux') {
+            const identity = await readProcessIdentity(pid, this.procRoot);
+            if (identity) {
+                return identity;
             }
-            return token;
-        };
+        }
 
         if (os === 'win32') {
+            const output = await this.runCommand('powershell', powerShellArgs(WINDOWS_IDENTITY_SCRIPT), signal);
+            return output === null ? null : parseWindowsIdentity(output, pid);
+        }
+
+        // comm is the full executable path on macOS
+        const output = await this.runCommand('ps', ['-o', 'uid=,comm=', '-p', String(pid)], signal);
+        return output === null ? null : parsePsIdentity(output);
+    }
+
+    /**
+     * Run a command about a single process without a shell
+     *
+     * @returns Standard output, or null if the command failed to run
+     */
+    private async runCommand(file: string, args: string[], signal: AbortSignal): Promise<string | null> {
+        const result = await this.commandRunner.run({
+            file,
+            args,
+            timeoutMs: 5000,
+            maxBytes: TelemetryService.MAX_PROCESS_OUTPUT_BYTES,
+            signal
+        });
+        return result.kind === 'output' ? result.stdout : null;
+    }
+
+    /**
+     * Validate a persisted uplink read back from storage
+     */
+    private static isValidUplinkHint(hint: unknown): hint is PersistedUplink {
+        if (!hint || typeof hint !== 'object') {
+            return false;
+        }
+        const candidate = hint as Record<string, unknown>;
+        return typeof candidate.pid === 'number' && isValidPid(candidate.pid) &&
+            typeof candidate.port === 'number' && TelemetryService.isValidPort(candidate.port) &&
+            typeof candidate.tokenHash === 'string' && /^[a-f0-9]{64}$/.test(candidate.tokenHash);
+    }
+
+    /**
+     * Check whether a process exists without signalling it
+     * EPERM means the process exists but belongs to another user.
+     */
+    private static isProcessAlive(pid: number): boolean {
+        if (!isValidPid(pid)) {
+            return false;
+        }
+        try {
+            process.kill(pid, 0);
+            return true;
+        } catch (err) {
+            return (err as NodeJS.ErrnoException).code === 'EPERM';
+        }
+    }
+
+    private static hashToken(token: string): string {
+        return createHash('sha256').update(token).digest('hex');
+    }
+
+    /**
+     * Apply manual connection settings
+     * Drops the current uplink when manual mode is entered, left or its
+     * target changes so the next acquisition reconnects to the new target.
+     *
+     * @returns true if the effective connection target changed
+     */
+    configureConnection(override: ConnectionOverride | undefined): boolean {
+        const previous = JSON.stringify(this.connectionOverride ?? null);
+        const next = JSON.stringify(override ?? null);
+        if (previous === next) {
+            return false;
+        }
+
+        const wasManual = this.isManualOverrideActive();
+        this.connectionOverride = override ? { ...override } : undefined;
+        if (!wasManual && !this.isManualOverrideActive()) {
+            return false;
+        }
+
+        if (this.uplink.isConnected) {
+            this.uplink = { isConnected: false, signalStrength: 0 };
+            this.emit('uplink-lost');
+        }
+        this.abortPendingWork();
+        this.invalidatePendingRequests();
+        this.processWatcher.stop();
+        this.clearReconnectTimer();
+        this.clearManualPins();
+        this.retryAttempt = 0;
+        this.transitionTo(ConnectionState.OFFLINE);
+        return true;
+    }
+
+    /**
+     * Whether a manual port is configured, bypassing process discovery
+     */
+    isManualOverrideActive(): boolean {
+        return (this.connectionOverride?.port ?? 0) > 0;
+    }
+
+    /**
+     * Establish uplink to the manually configured host and port
+     * The token still has to pass CSRF validation and the port must answer
+     * the same probe used for discovered ports.
+     */
+    private async establishManualUplink(signal: AbortSignal): Promise<boolean> {
+        const override = this.connectionOverride!;
+        this.transitionTo(ConnectionState.PROBING);
+        this.instances = [];
+        this.rejectedCandidates = [];
+        this.manualProbeResult = undefined;
+        const host = TelemetryService.normalizeHost(override.host);
+        const port = override.port;
+        const token = await this.readOverrideToken(override);
+        signal.throwIfAborted();
+
+        if (!host || !TelemetryService.isValidPort(port) || !token) {
+            console.warn('[AG Telemetry] Manual connection settings are incomplete or invalid');
+            this.emit('error', {
+                kind: 'discovery-failed',
+                message: 'Manual connection settings are incomplete or invalid'
+            });
+            this.uplink = { isConnected: false, signalStrength: 0, mode: 'manual' };
+            this.emit('uplink-lost');
+            // Retrying cannot fix invalid settings; wait for a configuration change
+            this.transitionTo(ConnectionState.OFFLINE);
+            return false;
+        }
+
+        const probe = await this.probeFrequency(port, token, signal, host);
+        signal.throwIfAborted();
+        this.manualProbeResult = probe;
+        if (probe.outcome !== 'accepted') {
+            this.emit('error', {
+                kind: 'port-scan-failed',
+                message: `Configured port ${port} did not accept the probe (${probe.outcome})`,
+                scans: [{ results: [probe] }]
+            });
+            this.uplink = { isConnected: false, signalStrength: 0, mode: 'manual' };
+            this.emit('uplink-lost');
+            this.scheduleReconnect();
+            return false;
+        }
+
+        this.uplink = {
+            isConnected: true,
+            host,
+            port,
+            securityToken: token,
+            lastContact: Date.now(),
+            signalStrength: 100,
+            mode: 'manual'
+        };
+
+        this.markConnected();
+        this.emit('uplink-established', { port });
+        return true;
+    }
+
+    /**
+     * Read the CSRF token from the configured token file or environment variable
+     * The file takes precedence; `~` expands to the home directory.
+     */
+    private async readOverrideToken(override: ConnectionOverride): Promise<string | null> {
+        let raw: string | undefined;
+
+        const tokenFile = override.tokenFile.trim();
+        const tokenEnvVar = override.tokenEnvVar.trim();
+
+        if (tokenFile) {
+            const filePath = tokenFile.startsWith('~')
+                ? homedir() + tokenFile.slice(1)
+                : tokenFile;
             try {
-                const data = JSON.parse(raw);
-                const processes = Array.isArray(data) ? data : [data];
-
-                for (const proc of processes) {
-                    const cmdLine = typeof proc.CommandLine === 'string' ? proc.CommandLine : '';
-                    const token = extractToken(cmdLine);
-                    const pid = Number(proc.ProcessId);
-                    if (token && isValidPid(pid)) {
-                        return { pid, token };
-                    }
+                const handle = await fs.open(filePath, 'r');
+                try {
+                    const buffer = Buffer.alloc(TelemetryService.MAX_TOKEN_FILE_BYTES);
+                    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+                    raw = buffer.subarray(0, bytesRead).toString('utf8');
+                } finally {
+                    await handle.close();
                 }
             } catch {
                 return null;
             }
-        } else {
-            const lines = raw.trim().split('\n');
-            for (const line of lines) {
-                const token = extractToken(line);
-                if (!token) {
-                    continue;
-                }
-                const pidMatch = line.trim().match(/^(\d+)/);
-                if (pidMatch) {
-                    const pid = parseInt(pidMatch[1], 10);
-                    if (isValidPid(pid)) {
-                        return { pid, token };
-                    }
-                }
-            }
+        } else if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(tokenEnvVar)) {
+            raw = process.env[tokenEnvVar];
         }
 
-        return null;
+        const token = raw?.trim() ?? '';
+        return isValidCsrfToken(token) ? token : null;
     }
 
     /**
-     * Scan communication frequencies (ports) for active uplink
+     * Strip IPv6 brackets and validate a configured host
      */
-    private async scanFrequencies(pid: number, token: string): Promise<number | null> {
-        const frequencies = await this.detectActiveFrequencies(pid);
-
-        for (const freq of frequencies) {
-            const isActive = await this.probeFrequency(freq, token);
-            if (isActive) return freq;
+    private static normalizeHost(host: string): string | null {
+        const trimmed = host.trim();
+        if (!isValidHost(trimmed)) {
+            return null;
         }
+        return trimmed.startsWith('[') ? trimmed.slice(1, -1) : trimmed;
+    }
 
-        return null;
+    /**
+     * Locate all Antigravity process beacons
+     * Platform strategies are tried in order (procfs before ps on Linux,
+     * CIM before wmic and tasklist on Windows) and recorded for diagnostics.
+     */
+    private async locateAntigravityBeacons(signal: AbortSignal): Promise<BeaconCandidate[]> {
+        const { value, attempts } = await this.enumerateBeacons(signal);
+        this.processDiscovery = attempts;
+        return value;
+    }
+
+    /**
+     * Run the process strategies without recording them for diagnostics
+     */
+    private enumerateBeacons(signal: AbortSignal): Promise<StrategyRun<BeaconCandidate>> {
+        return runStrategies(processStrategies(platform()), this.strategyContext(signal), true);
+    }
+
+    private strategyContext(signal: AbortSignal): StrategyContext {
+        return { runner: this.commandRunner, procRoot: this.procRoot, signal };
+    }
+
+    /**
+     * Scan communication frequencies (ports) for active uplink
+     * Ports are probed concurrently (bounded by probeConcurrency) and the
+     * scan resolves on the first accepted port, aborting the rest.
+     */
+    private scanFrequencies(
+        frequencies: number[],
+        token: string,
+        signal: AbortSignal,
+        pid: number
+    ): Promise<PortScanResult> {
+        return scanPorts(
+            frequencies,
+            (port, probeSignal) => this.probeFrequency(port, token, probeSignal, TelemetryService.DEFAULT_HOST, pid),
+            this.probeConcurrency,
+            signal
+        );
     }
 
     /**
      * Detect active communication frequencies for process
+     * Platform strategies are tried in order until one finds a listening
+     * port (procfs, ss, then netstat on Linux; lsof then netstat on macOS;
+     * Get-NetTCPConnection then netstat on Windows).
      */
-    private async detectActiveFrequencies(pid: number): Promise<number[]> {
+    private async detectActiveFrequencies(pid: number, signal: AbortSignal): Promise<number[]> {
         // Defense in depth: validate PID even though it comes from trusted OS output
         if (!isValidPid(pid)) {
             return [];
         }
 
-        const os = platform();
-        let output: string;
-
-        try {
-            if (os === 'win32') {
-                const { stdout } = await execAsync(
-                    `powershell -Command "Get-NetTCPConnection -OwningProcess ${pid} -State Listen | ` +
-                    `Select-Object -ExpandProperty LocalPort"`,
-                    { timeout: 5000 }
-                );
-                output = stdout;
-            } else if (os === 'darwin') {
-                const { stdout } = await execAsync(
-                    `lsof -iTCP -sTCP:LISTEN -a -p ${pid} -Fn | grep '^n' | sed 's/n\\*://'`,
-                    { timeout: 5000 }
-                );
-                output = stdout;
-            } else {
-                const { stdout } = await execAsync(
-                    `ss -tlnp 2>/dev/null | grep "pid=${pid}" | awk '{print $4}' | rev | cut -d: -f1 | rev`,
-                    { timeout: 5000 }
-                );
-                output = stdout;
-            }
-        } catch {
-            return [];
-        }
+        const { value, attempts } = await runStrategies(
+            portStrategies(platform(), pid),
+            this.strategyContext(signal),
+            false
+        );
+        this.portDiscovery.set(pid, attempts);
+        return TelemetryService.normalizePorts(value);
+    }
 
+    /**
+     * Deduplicate, validate, sort and cap a list of candidate ports
+     */
+    private static normalizePorts(candidates: Iterable<number>): number[] {
         const ports = new Set<number>();
-        for (const line of output.split('\n')) {
-            const port = parseInt(line.trim(), 10);
+        for (const port of candidates) {
             if (TelemetryService.isValidPort(port)) {
                 ports.add(port);
             }
@@ -332,93 +1157,298 @@ export class TelemetryService {
     }
 
     /**
-     * Probe a frequency to verify uplink capability
+     * Probe a frequency to verify uplink capability
+     *
+     * @param pid - Language server process, scopes the certificate pin
+     */
+    private async probeFrequency(
+        port: number,
+        token: string,
+        signal: AbortSignal,
+        host: string = TelemetryService.DEFAULT_HOST,
+        pid?: number
+    ): Promise<PortProbeResult> {
+        const startedAt = Date.now();
+        const result = (outcome: PortProbeOutcome, error?: ConnectError): PortProbeResult => ({
+            port,
+            outcome,
+            ...(error ? { statusCode: error.httpStatus, errorCode: error.code } : {}),
+            durationMs: Date.now() - startedAt
+        });
+
+        if (!TelemetryService.isValidPort(port) || !isValidCsrfToken(token)) {
+            return result('error');
+        }
+        if (signal.aborted) {
+            return result('aborted');
+        }
+
+        const response = await this.transport.request({
+            host,
+            port,
+            path: '/exa.language_server_pb.LanguageServerService/GetUnleashData',
+            headers: TelemetryService.connectHeaders(token),
+            body: JSON.stringify({
+                context: { properties: { ide: 'antigravity' } }
+            }),
+            timeoutMs: 3000,
+            maxBytes: TelemetryService.MAX_PROBE_BYTES,
+            signal,
+            verifyCertificate: this.certificateVerifier(host, port, pid)
+        });
+
+        if (response.kind === 'error') {
+            switch (response.code) {
+                case 'aborted':
+                    return result('aborted');
+                case CERTIFICATE_REFUSED:
+                    return result('certificate-mismatch');
+                case 'timeout':
+                    return result('timeout');
+                case 'ECONNREFUSED':
+                    return result('refused');
+                default:
+                    return result('error');
+            }
+        }
+        if (response.status !== 200) {
+            return result('http-status', parseConnectError(response.status, response.body, [token]));
+        }
+        if (response.oversized) {
+            return result('oversized');
+        }
+        if (response.body === null) {
+            return result('error');
+        }
+        return result(TelemetryService.isUnleashResponse(response.body) ? 'accepted' : 'unexpected-response');
+    }
+
+    /**
+     * Whether a probe body has the shape of a GetUnleashData reply
+     * The reply lists feature toggles, each with a name; proto3 JSON leaves
+     * out false booleans, so `enabled` and `variant` may be missing.
+     */
+    private static isUnleashResponse(body: string): boolean {
+        let data: unknown;
+        try {
+            data = JSON.parse(body);
+        } catch {
+            return false;
+        }
+
+        const isObject = (value: unknown): value is Record<string, unknown> =>
+            typeof value === 'object' && value !== null && !Array.isArray(value);
+
+        return isObject(data) && Array.isArray(data.toggles) && data.toggles.every(toggle =>
+            isObject(toggle) &&
+            typeof toggle.name === 'string' &&
+            toggle.name.length > 0 &&
+            (toggle.enabled === undefined || typeof toggle.enabled === 'boolean') &&
+            (toggle.variant === undefined || isObject(toggle.variant))
+        );
+    }
+
+    private static pinScope(host: string, pid?: number): string {
+        return pid ? `pid:${pid}` : `host:${host}`;
+    }
+
+    /**
+     * Trust-on-first-use check for the server certificate
+     * The first fingerprint seen for a pid and port is pinned; a different
+     * certificate later is refused before the CSRF token is sent.
+     */
+    private certificateVerifier(host: string, port: number, pid?: number): CertificateVerifier {
+        const scope = TelemetryService.pinScope(host, pid);
+
+        return fingerprint => {
+            const pins = this.certificatePins.get(scope) ?? new Map<number, string>();
+            const pinned = pins.get(port);
+            if (!pinned) {
+                // Plain HTTP has nothing to pin
+                if (fingerprint) {
+                    pins.set(port, fingerprint);
+                    this.certificatePins.set(scope, pins);
+                }
+                return true;
+            }
+            if (pinned === fingerprint) {
+                return true;
+            }
+
+            const reportKey = `${scope}:${port}:${fingerprint ?? 'plain'}`;
+            if (!this.reportedMismatches.has(reportKey)) {
+                this.reportedMismatches.add(reportKey);
+                const message = fingerprint
+                    ? `Server certificate on port ${port} changed; not sending the CSRF token`
+                    : `Port ${port} dropped TLS after a certificate was pinned; not sending the CSRF token`;
+                console.warn(`[AG Telemetry] ${message} (pinned ${pinned}, received ${fingerprint ?? 'none'})`);
+                this.emit('error', { kind: 'certificate-mismatch', message, pid, port, pinned, received: fingerprint });
+            }
+            return false;
+        };
+    }
+
+    /**
+     * Drop certificate pins of processes that are no longer running
+     */
+    private prunePins(livePids: number[]): void {
+        const live = new Set(livePids.map(pid => TelemetryService.pinScope('', pid)));
+        for (const scope of this.certificatePins.keys()) {
+            if (scope.startsWith('pid:') && !live.has(scope)) {
+                this.certificatePins.delete(scope);
+            }
+        }
+    }
+
+    /**
+     * Drop certificate pins of manual uplink targets
+     */
+    private clearManualPins(): void {
+        for (const scope of this.certificatePins.keys()) {
+            if (scope.startsWith('host:')) {
+                this.certificatePins.delete(scope);
+            }
+        }
+    }
+
+    /**
+     * Get the certificate fingerprint pinned for the current uplink
+     */
+    getCertificatePin(): string | undefined {
+        const { host, pid, port } = this.uplink;
+        if (!port) {
+            return undefined;
+        }
+        return this.certificatePins.get(TelemetryService.pinScope(host ?? TelemetryService.DEFAULT_HOST, pid))?.get(port);
+    }
+
+    /**
+     * Headers for a Connect unary JSON request
+     */
+    private static connectHeaders(token: string): Record<string, string> {
+        return {
+            'Content-Type': 'application/json',
+            'Connect-Protocol-Version': '1',
+            'X-Codeium-Csrf-Token': token
+        };
+    }
+
+    /**
+     * Acquire current telemetry from Antigravity systems
+     * Concurrent callers share a single in-flight request.
+     */
+    acquireTelemetry(): Promise<TelemetrySnapshot | null> {
+        if (!this.inFlightAcquisition) {
+            const acquisition = this.performAcquisition().finally(() => {
+                if (this.inFlightAcquisition === acquisition) {
+                    this.inFlightAcquisition = undefined;
+                }
+            });
+            this.inFlightAcquisition = acquisition;
+        }
+        return this.inFlightAcquisition;
+    }
+
+    /**
+     * Acquire telemetry on explicit user request
+     * Refreshes closer together than MIN_MANUAL_REFRESH_MS return the
+     * current snapshot instead of issuing another request. During backoff
+     * the pending reconnect runs right away.
      */
-    private probeFrequency(port: number, token: string): Promise<boolean> {
-        if (!TelemetryService.isValidPort(port) || !isValidCsrfToken(token)) {
-            return Promise.resolve(false);
+    requestManualRefresh(): Promise<TelemetrySnapshot | null> {
+        if (this.inFlightAcquisition) {
+            return this.inFlightAcquisition;
         }
 
-        return new Promise(resolve => {
-            const payload = JSON.stringify({
-                context: { properties: { ide: 'antigravity' } }
-            });
-
-            const req = https.request({
-                hostname: '127.0.0.1',
-                port,
-                path: '/exa.language_server_pb.LanguageServerService/GetUnleashData',
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Connect-Protocol-Version': '1',
-                    'X-Codeium-Csrf-Token': token
-                },
-                // SECURITY NOTE: rejectUnauthorized is disabled because the Antigravity
-                // language server uses a self-signed certificate for localhost communication.
-                // This is acceptable because:
-                // 1. Communication is strictly localhost (127.0.0.1), not DNS-resolvable
-                // 2. CSRF token provides request authenticity verification
-                // 3. An attacker with local machine access has already compromised security
-                rejectUnauthorized: false,
-                timeout: 3000
-            }, res => {
-                if (res.statusCode !== 200) {
-                    res.resume();
-                    resolve(false);
-                    return;
-                }
-
-                this.readLimitedResponse(res, TelemetryService.MAX_PROBE_BYTES).then(body => {
-                    resolve(body !== null);
-                });
-            });
+        const now = Date.now();
+        if (now - this.lastManualRefreshAt < TelemetryService.MIN_MANUAL_REFRESH_MS) {
+            return Promise.resolve(this.lastSnapshot ?? null);
+        }
 
-            req.on('error', () => resolve(false));
-            req.on('timeout', () => {
-                req.destroy();
-                resolve(false);
-            });
+        this.lastManualRefreshAt = now;
+        if (this.connectionState === ConnectionState.BACKOFF) {
+            return this.establishUplink().then(connected => connected ? this.acquireTelemetry() : null);
+        }
+        return this.acquireTelemetry();
+    }
 
-            req.write(payload);
-            req.end();
-        });
+    /**
+     * Discard responses to requests issued before the uplink target changed
+     */
+    private invalidatePendingRequests(): void {
+        this.acquisitionAttempt?.abort();
+        this.acquisitionAttempt = undefined;
+        this.appliedSequence = this.requestSequence;
+        this.inFlightAcquisition = undefined;
     }
 
     /**
-     * Acquire current telemetry from Antigravity systems
+     * @param allowRediscovery - Whether a rejected token may trigger one
+     *   rediscovery and retry (false for the retry itself)
      */
-    async acquireTelemetry(): Promise<TelemetrySnapshot | null> {
+    private async performAcquisition(allowRediscovery: boolean = true): Promise<TelemetrySnapshot | null> {
         if (!this.uplink.isConnected || !this.uplink.port || !this.uplink.securityToken) {
+            // A reconnect is already scheduled; don't bypass the backoff
+            if (this.connectionState === ConnectionState.BACKOFF) {
+                return null;
+            }
+
             const reconnected = await this.establishUplink();
             if (!reconnected) {
-                this.trackFailure('uplink-failed');
+                if (!this.disposed) {
+                    this.trackFailure('uplink-failed');
+                }
                 return null;
             }
         }
 
         this.emit('scan-started');
+        const sequence = ++this.requestSequence;
+        const attempt = new AbortController();
+        this.acquisitionAttempt = attempt;
+        const signal = this.linkSignals(attempt.signal);
 
         try {
-            const rawData = await this.transmitQuery();
+            const { response: rawData, failure } = await this.transmitQuery(signal);
+
+            // Cancelled requests leave uplink health untouched
+            if (signal.aborted) {
+                return null;
+            }
+
+            // A newer request has already been applied, or the uplink changed
+            if (sequence <= this.appliedSequence) {
+                return this.lastSnapshot ?? null;
+            }
+            this.appliedSequence = sequence;
 
             // Store raw response for diagnostics
             this.lastRawResponse = rawData;
 
+            if (failure) {
+                this.emit('error', failure);
+                if (failure.kind === 'connect-error' || failure.kind === 'http-status') {
+                    return await this.handleConnectError(failure, allowRediscovery);
+                }
+            }
+
             if (!rawData) {
                 this.degradeSignal();
-                this.trackFailure('no-response');
+                this.trackFailure(failure?.kind ?? 'no-response');
                 return null;
             }
 
             // Validate response schema
-            const validation = this.validateServerResponse(rawData);
+            const { validation, match } = this.validateServerResponse(rawData);
             this.lastValidation = validation;
+            if (validation.fingerprint) {
+                this.trackSchema(validation.fingerprint);
+            }
 
-            if (!validation.valid) {
+            if (!match) {
                 console.error('[AG Telemetry] Schema validation failed:', validation.errors);
                 this.emit('error', {
-                    type: 'schema-validation-failed',
+                    kind: 'schema-invalid',
                     message: 'API response schema validation failed',
                     errors: validation.errors,
                     receivedKeys: validation.receivedKeys
@@ -433,10 +1463,21 @@ export class TelemetryService {
                 console.warn('[AG Telemetry] Schema validation warnings:', validation.warnings);
             }
 
-            const systems = this.processTelemetryData(rawData);
+            const { systems, entries } = this.processTelemetryData(match);
+            if (entries.rejected > 0 || entries.truncated > 0) {
+                const dropped = `${entries.rejected} model entries rejected, ` +
+                    `${entries.truncated} over the ${TelemetryService.MAX_SYSTEMS} model limit`;
+                validation.warnings.push(dropped);
+                console.warn(`[AG Telemetry] ${dropped}:`, entries.rejections);
+            }
+
+            const account = match.adapter.parseAccount?.(rawData);
             const snapshot: TelemetrySnapshot = {
                 timestamp: Date.now(),
                 systems,
+                responseAdapter: match.adapter.id,
+                ...(account ? { account } : {}),
+                entries,
                 overallReadiness: this.assessOverallReadiness(systems),
                 activeAlerts: systems.filter(s =>
                     s.readiness === ReadinessLevel.WARNING ||
@@ -447,6 +1488,8 @@ export class TelemetryService {
             this.uplink.lastContact = Date.now();
             this.uplink.signalStrength = 100;
             this.lastSnapshot = snapshot;
+            this.markConnected();
+            this.planResetScan(snapshot);
 
             // Reset failure counter on success
             this.consecutiveFailures = 0;
@@ -456,11 +1499,126 @@ export class TelemetryService {
 
             return snapshot;
         } catch (err) {
+            if (signal.aborted) {
+                return null;
+            }
             this.degradeSignal();
             this.trackFailure('exception');
-            this.emit('error', err);
+            this.emit('error', { kind: 'parse-failed', message: TelemetryService.describeError(err) });
+            return null;
+        } finally {
+            if (this.acquisitionAttempt === attempt) {
+                this.acquisitionAttempt = undefined;
+            }
+        }
+    }
+
+    /**
+     * Compare a response's structure with the known one
+     * The known fingerprint accumulates every path and type seen, so fields
+     * a response leaves out are not a change. Emits schema-changed whenever
+     * the known fingerprint grows, so it can be persisted; drift is only
+     * reported for new paths or types against a fingerprint known before.
+     * Paths a response leaves out are listed in diagnostics without drift,
+     * since proto3 JSON omits fields that hold default values. Once the
+     * known fingerprint reaches its path cap, the additions that no longer
+     * fit are reported once and later ones go undetected.
+     */
+    private trackSchema(fingerprint: SchemaFingerprint): void {
+        const previous = this.knownFingerprint;
+        if (!previous) {
+            this.knownFingerprint = fingerprint;
+            this.missingSchemaPaths = [];
+            this.emit('schema-changed', { fingerprint });
+            return;
+        }
+
+        const diff = diffFingerprints(previous, fingerprint);
+        this.missingSchemaPaths = diff.removed;
+
+        const known = mergeFingerprints(previous, fingerprint);
+        if (known.hash === previous.hash && known.truncated === previous.truncated) {
+            return;
+        }
+        this.knownFingerprint = known;
+
+        if (known.truncated && !previous.truncated) {
+            console.warn('[AG Telemetry] Response structure has too many paths; later additions are not tracked');
+        }
+        if (diff.added.length === 0 && diff.retyped.length === 0) {
+            this.emit('schema-changed', { fingerprint: known });
+            return;
+        }
+
+        const drift: SchemaDrift = {
+            previousHash: previous.hash,
+            currentHash: known.hash,
+            detectedAt: Date.now(),
+            ...diff
+        };
+        this.schemaDrift = drift;
+        console.warn('[AG Telemetry] Response structure changed:', drift);
+        this.emit('schema-changed', { fingerprint: known, drift });
+    }
+
+    /**
+     * React to a Connect error from GetUserStatus
+     * A rejected token means the server restarted with a new one, so the
+     * uplink is rediscovered instead of slowly degraded.
+     */
+    private async handleConnectError(
+        failure: HttpStatusError | ConnectErrorResponse,
+        allowRediscovery: boolean
+    ): Promise<TelemetrySnapshot | null> {
+        this.lastConnectError = failure.connectError;
+        const reason = failure.reason;
+        this.trackFailure(reason);
+
+        if (reason !== 'token-invalid') {
+            this.degradeSignal();
+            return null;
+        }
+
+        this.uplink = { isConnected: false, signalStrength: 0 };
+        this.processWatcher.stop();
+        this.emit('uplink-lost');
+
+        if (!allowRediscovery) {
+            // A freshly discovered token was rejected too; back off
+            this.transitionTo(ConnectionState.DEGRADED);
+            this.scheduleReconnect();
             return null;
         }
+        if (await this.establishUplink()) {
+            return this.performAcquisition(false);
+        }
+        return null;
+    }
+
+    /**
+     * Wrap a decoded non-200 response as a telemetry error
+     */
+    private static connectFailure(connectError: ConnectError): HttpStatusError | ConnectErrorResponse {
+        const reason = classifyConnectError(connectError);
+        if (connectError.inferred) {
+            return {
+                kind: 'http-status',
+                message: `HTTP ${connectError.httpStatus}`,
+                statusCode: connectError.httpStatus,
+                connectError,
+                reason
+            };
+        }
+        return {
+            kind: 'connect-error',
+            message: connectError.message || connectError.code,
+            connectError,
+            reason
+        };
+    }
+
+    private static describeError(err: unknown): string {
+        return err instanceof Error ? err.message : String(err);
     }
 
     /**
@@ -474,7 +1632,7 @@ export class TelemetryService {
 
         if (this.consecutiveFailures === TelemetryService.FAILURE_THRESHOLD) {
             this.emit('error', {
-                type: 'consecutive-failures',
+                kind: 'consecutive-failures',
                 message: `${this.consecutiveFailures} consecutive failures detected`,
                 reason,
                 failureCount: this.consecutiveFailures
@@ -485,144 +1643,131 @@ export class TelemetryService {
     /**
      * Transmit query to acquire system status
      */
-    private transmitQuery(): Promise<ServerTelemetryResponse | null> {
+    private async transmitQuery(signal: AbortSignal): Promise<QueryOutcome> {
+        const host = this.uplink.host ?? TelemetryService.DEFAULT_HOST;
         const port = this.uplink.port;
         const token = this.uplink.securityToken ?? '';
 
-        if (!TelemetryService.isValidPort(port ?? 0) || !isValidCsrfToken(token)) {
-            return Promise.resolve(null);
+        if (!port || !TelemetryService.isValidPort(port) || !isValidCsrfToken(token)) {
+            return { response: null };
         }
 
-        return new Promise(resolve => {
-            const payload = JSON.stringify({
+        const response = await this.transport.request({
+            host,
+            port,
+            path: '/exa.language_server_pb.LanguageServerService/GetUserStatus',
+            headers: TelemetryService.connectHeaders(token),
+            body: JSON.stringify({
                 metadata: { ideName: 'antigravity' }
-            });
-
-            const req = https.request({
-                hostname: '127.0.0.1',
-                port,
-                path: '/exa.language_server_pb.LanguageServerService/GetUserStatus',
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Connect-Protocol-Version': '1',
-                    'X-Codeium-Csrf-Token': token
-                },
-                // SECURITY NOTE: rejectUnauthorized is disabled for localhost self-signed cert.
-                // See probeFrequency() for detailed security rationale.
-                rejectUnauthorized: false,
-                timeout: 5000
-            }, res => {
-                if (res.statusCode !== 200) {
-                    res.resume();
-                    resolve(null);
-                    return;
-                }
-
-                this.readLimitedResponse(res, TelemetryService.MAX_RESPONSE_BYTES).then(body => {
-                    if (!body) {
-                        resolve(null);
-                        return;
-                    }
-                    try {
-                        resolve(JSON.parse(body));
-                    } catch {
-                        resolve(null);
-                    }
-                });
-            });
-
-            req.on('error', () => resolve(null));
-            req.on('timeout', () => {
-                req.destroy();
-                resolve(null);
-            });
-
-            req.write(payload);
-            req.end();
+            }),
+            timeoutMs: 5000,
+            maxBytes: TelemetryService.MAX_RESPONSE_BYTES,
+            signal,
+            verifyCertificate: this.certificateVerifier(host, port, this.uplink.pid)
         });
+
+        if (response.kind === 'error') {
+            return {
+                response: null,
+                failure: { kind: 'transport', message: response.message, code: response.code }
+            };
+        }
+        if (response.status !== 200) {
+            const connectError = parseConnectError(response.status, response.body, [token]);
+            return { response: null, failure: TelemetryService.connectFailure(connectError) };
+        }
+        if (!response.body) {
+            return {
+                response: null,
+                failure: response.oversized
+                    ? { kind: 'parse-failed', message: 'Response exceeded the size limit' }
+                    : { kind: 'transport', message: 'Response stream failed' }
+            };
+        }
+        try {
+            return { response: JSON.parse(response.body) };
+        } catch {
+            return { response: null, failure: { kind: 'parse-failed', message: 'Response is not valid JSON' } };
+        }
     }
 
     /**
-     * Process raw telemetry into FuelSystem array
-     * Validates and sanitizes server response fields to prevent DoS/rendering issues
+     * Process located response entries into FuelSystem array
+     * Every entry is validated; labels and ids are sanitized here to
+     * prevent DoS/rendering issues whatever the response shape. Entries
+     * that are left out are reported with their index and the reason.
      * Detects and assigns quota pool IDs to models sharing the same quota
      */
-    private processTelemetryData(raw: ServerTelemetryResponse): FuelSystem[] {
-        const configs = raw.userStatus?.cascadeModelConfigData?.clientModelConfigs ?? [];
+    private processTelemetryData(match: AdapterMatch): { systems: FuelSystem[]; entries: EntryReport } {
         const systems: FuelSystem[] = [];
+        const entries: EntryReport = { accepted: 0, rejected: 0, truncated: 0, rejections: [] };
 
-        for (const config of configs) {
+        const reject = (index: number, reason: string, label?: string) => {
+            entries.rejected++;
+            if (entries.rejections.length < TelemetryService.MAX_REPORTED_REJECTIONS) {
+                entries.rejections.push(label ? { index, reason, label } : { index, reason });
+            }
+        };
+
+        for (const [index, entry] of match.entries.entries()) {
             if (systems.length >= TelemetryService.MAX_SYSTEMS) {
+                entries.truncated = match.entries.length - index;
                 break;
             }
 
-            // Validate label is a non-empty string
-            const rawLabel = config.label;
-            if (typeof rawLabel !== 'string') {
+            const parsed = match.adapter.parseEntry(entry);
+            if (typeof parsed === 'string') {
+                reject(index, parsed);
                 continue;
             }
-            const trimmedLabel = rawLabel.trim();
+
+            // Validate label is a non-empty string
+            const trimmedLabel = parsed.label.trim();
             if (trimmedLabel.length === 0) {
-                continue; // Skip invalid entries
+                reject(index, 'Label is empty');
+                continue;
             }
 
             const safeLabel = trimmedLabel.length > TelemetryService.MAX_LABEL_LENGTH
                 ? trimmedLabel.slice(0, TelemetryService.MAX_LABEL_LENGTH)
                 : trimmedLabel;
 
-            // Handle missing quotaInfo as exhausted quota (fuelLevel = 0)
-            // This ensures exhausted models still appear in the UI with reset time info
-            let fuelLevel: number;
-            let resetTime: string | undefined;
-
-            if (config.quotaInfo) {
-                // Validate and clamp remainingFraction to [0, 1]
-                const rawFraction = config.quotaInfo.remainingFraction;
-                if (typeof rawFraction === 'number' && Number.isFinite(rawFraction)) {
-                    fuelLevel = Math.max(0, Math.min(1, rawFraction));
-                } else {
-                    // Missing or invalid remainingFraction = exhausted
-                    fuelLevel = 0;
-                }
-
-                resetTime = typeof config.quotaInfo.resetTime === 'string'
-                    ? config.quotaInfo.resetTime
-                    : undefined;
-            } else {
-                // No quotaInfo at all = exhausted quota
-                fuelLevel = 0;
-                resetTime = undefined;
-            }
-
             // Validate systemId
-            const rawSystemId = config.modelOrAlias?.model ?? trimmedLabel;
-            if (typeof rawSystemId !== 'string') {
+            const trimmedSystemId = parsed.systemId.trim();
+            if (trimmedSystemId.length === 0) {
+                reject(index, 'Model id is empty', safeLabel);
                 continue;
             }
-            const trimmedSystemId = rawSystemId.trim();
-            if (trimmedSystemId.length === 0 ||
-                trimmedSystemId.length > TelemetryService.MAX_SYSTEM_ID_LENGTH) {
+            if (trimmedSystemId.length > TelemetryService.MAX_SYSTEM_ID_LENGTH) {
+                reject(
+                    index,
+                    `Model id is ${trimmedSystemId.length} characters (limit ${TelemetryService.MAX_SYSTEM_ID_LENGTH})`,
+                    safeLabel
+                );
                 continue;
             }
 
             const system: FuelSystem = {
                 systemId: trimmedSystemId,
                 designation: this.formatDesignation(safeLabel),
-                fuelLevel,
-                replenishmentEta: resetTime,
-                readiness: this.assessReadiness(fuelLevel),
+                fuelLevel: parsed.fuelLevel,
+                replenishmentEta: parsed.resetTime,
+                readiness: this.assessReadiness(parsed.fuelLevel),
                 systemClass: this.classifySystem(safeLabel),
-                isOnline: true
+                isOnline: true,
+                ...(parsed.capabilities ? { capabilities: parsed.capabilities } : {}),
+                ...(parsed.metadata ? { metadata: parsed.metadata } : {}),
+                ...(parsed.extraFields ? { extraFields: parsed.extraFields } : {})
             };
 
             systems.push(system);
         }
+        entries.accepted = systems.length;
 
         // Detect quota pools: group models by identical fuel levels
         this.assignQuotaPoolIds(systems);
 
-        return systems.sort((a, b) => a.fuelLevel - b.fuelLevel);
+        return { systems: systems.sort((a, b) => a.fuelLevel - b.fuelLevel), entries };
     }
 
     /**
@@ -665,9 +1810,10 @@ export class TelemetryService {
 
     /**
      * Validate server response schema
-     * Checks for expected data structures and logs discrepancies
+     * Registered response adapters are tried in order; the first that
+     * recognizes the response is returned along with the result.
      */
-    private validateServerResponse(response: unknown): ValidationResult {
+    private validateServerResponse(response: unknown): { validation: ValidationResult; match?: AdapterMatch } {
         const result: ValidationResult = {
             valid: true,
             errors: [],
@@ -676,78 +1822,28 @@ export class TelemetryService {
         };
 
         // Check for null/undefined response
-        if (!response || typeof response !== 'object') {
+        if (!response || typeof response !== 'object' || Array.isArray(response)) {
             result.valid = false;
             result.errors.push('Response is null, undefined, or not an object');
-            return result;
+            return { validation: result };
         }
 
         const data = response as Record<string, unknown>;
         result.receivedKeys = Object.keys(data);
+        result.fingerprint = computeFingerprint(data);
 
-        // Check for expected primary structure
-        const hasUserStatus = data.userStatus && typeof data.userStatus === 'object';
-
-        if (!hasUserStatus) {
-            result.valid = false;
-            result.errors.push(
-                `Missing 'userStatus' field. Received keys: [${result.receivedKeys.join(', ')}]`
-            );
-            return result;
-        }
-
-        // Check for cascadeModelConfigData
-        const userStatus = data.userStatus as Record<string, unknown>;
-        const hasCascade = userStatus.cascadeModelConfigData &&
-            typeof userStatus.cascadeModelConfigData === 'object';
-
-        if (!hasCascade) {
-            result.valid = false;
-            result.errors.push(
-                `Missing 'cascadeModelConfigData' in userStatus. ` +
-                `userStatus keys: [${Object.keys(userStatus).join(', ')}]`
-            );
-            return result;
-        }
-
-        // Check for clientModelConfigs array
-        const cascade = userStatus.cascadeModelConfigData as Record<string, unknown>;
-        const hasConfigs = Array.isArray(cascade.clientModelConfigs);
-
-        if (!hasConfigs) {
+        const selected = selectResponseAdapter(data);
+        if (!('adapter' in selected)) {
             result.valid = false;
-            result.errors.push(
-                `Missing or invalid 'clientModelConfigs' array. ` +
-                `cascadeModelConfigData keys: [${Object.keys(cascade).join(', ')}]`
-            );
-            return result;
-        }
-
-        const configs = cascade.clientModelConfigs as unknown[];
-
-        // Validate individual config structure
-        if (configs.length > 0) {
-            const sample = configs[0];
-            // Guard against null/undefined array elements
-            if (sample && typeof sample === 'object') {
-                const sampleObj = sample as Record<string, unknown>;
-                if (!sampleObj.label && !sampleObj.quotaInfo) {
-                    result.warnings.push(
-                        `Config structure may have changed. ` +
-                        `Sample config keys: [${Object.keys(sampleObj).join(', ')}]`
-                    );
-                }
-            } else if (sample === null || sample === undefined) {
-                result.warnings.push('First config element is null or undefined');
-            }
+            result.errors.push(...selected.reasons);
+            return { validation: result };
         }
 
-        // Check if configs array is empty (could be valid but worth noting)
-        if (configs.length === 0) {
-            result.warnings.push('clientModelConfigs array is empty - no models configured');
-        }
+        // Entries are validated one by one when the response is processed
+        result.adapterId = selected.adapter.id;
+        result.warnings.push(...(selected.adapter.describeEntries?.(selected.entries) ?? []));
 
-        return result;
+        return { validation: result, match: selected };
     }
 
     /**
@@ -808,36 +1904,379 @@ export class TelemetryService {
      */
     private degradeSignal(): void {
         this.uplink.signalStrength = Math.max(0, this.uplink.signalStrength - 25);
+        this.transitionTo(ConnectionState.DEGRADED);
 
         if (this.uplink.signalStrength === 0) {
             this.uplink.isConnected = false;
             this.emit('uplink-lost');
+            this.scheduleReconnect();
+        }
+    }
+
+    /**
+     * Move the state machine to a new state and notify subscribers
+     * Transitions not listed in CONNECTION_TRANSITIONS are ignored.
+     */
+    private transitionTo(next: ConnectionState, nextRetryAt?: number): void {
+        const previous = this.connectionState;
+        if (previous === next && this.nextRetryAt === nextRetryAt) {
+            return;
+        }
+        if (previous !== next && !canTransition(previous, next)) {
+            console.warn(`[AG Telemetry] Ignoring invalid state transition ${previous} -> ${next}`);
+            return;
+        }
+
+        this.connectionState = next;
+        this.nextRetryAt = nextRetryAt;
+
+        const change: ConnectionStateChange = {
+            state: next,
+            previous,
+            nextRetryAt,
+            retryAttempt: this.retryAttempt
+        };
+        this.emit('state-changed', change);
+    }
+
+    /**
+     * Record a healthy uplink and reset the backoff
+     */
+    private markConnected(): void {
+        this.clearReconnectTimer();
+        this.retryAttempt = 0;
+        this.heartbeatMisses = 0;
+        this.transitionTo(ConnectionState.CONNECTED);
+
+        // Manual uplinks have no known process to watch
+        const { mode, pid, securityToken } = this.uplink;
+        if (mode === 'auto' && pid && securityToken) {
+            // Rejected processes are known too, so they do not look like new servers
+            this.processWatcher.watch(pid, securityToken, [
+                ...this.instances.map(i => i.pid),
+                ...this.rejectedCandidates.map(r => r.pid)
+            ]);
+        } else {
+            this.processWatcher.stop();
+        }
+    }
+
+    /**
+     * Record an uplink whose port was already probed as healthy
+     * States with no direct transition to CONNECTED pass through PROBING.
+     */
+    private resumeConnected(): void {
+        if (this.connectionState !== ConnectionState.CONNECTED &&
+            !canTransition(this.connectionState, ConnectionState.CONNECTED)) {
+            this.transitionTo(ConnectionState.PROBING);
+        }
+        this.markConnected();
+    }
+
+    /**
+     * Drop the current uplink and rediscover immediately
+     * Used when the connected language server is known to be gone.
+     */
+    private async recoverUplink(reason: string): Promise<void> {
+        if (this.disposed || this.uplinkAttempt) {
+            return;
+        }
+
+        console.warn(`[AG Telemetry] ${reason}, rediscovering`);
+        this.invalidatePendingRequests();
+        this.uplink = { isConnected: false, signalStrength: 0 };
+        this.emit('uplink-lost');
+
+        if (await this.establishUplink()) {
+            await this.acquireTelemetry();
+        }
+    }
+
+    /**
+     * Schedule the next reconnect attempt using exponential backoff
+     */
+    private scheduleReconnect(): void {
+        if (this.disposed) {
+            return;
+        }
+
+        this.processWatcher.stop();
+        this.clearReconnectTimer();
+        const delay = computeBackoffDelay(this.retryAttempt, this.backoffPolicy);
+        this.retryAttempt++;
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = undefined;
+            void this.reconnect();
+        }, delay);
+        this.transitionTo(ConnectionState.BACKOFF, Date.now() + delay);
+    }
+
+    private async reconnect(): Promise<void> {
+        if (await this.establishUplink()) {
+            await this.acquireTelemetry();
+        }
+    }
+
+    private clearReconnectTimer(): void {
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
         }
     }
 
+    /**
+     * Get the current connection state
+     */
+    getConnectionState(): ConnectionStateInfo {
+        return {
+            state: this.connectionState,
+            nextRetryAt: this.nextRetryAt,
+            retryAttempt: this.retryAttempt
+        };
+    }
+
+    /**
+     * Restart the backoff sequence (for manual retry)
+     */
+    resetBackoff(): void {
+        this.retryAttempt = 0;
+    }
+
     /**
      * Start periodic telemetry scans
+     * The delay before each scan adapts to the last snapshot's readiness
+     * (see computeScanDelay) within the given bounds.
      */
-    startPeriodicScans(intervalSeconds: number): void {
+    startPeriodicScans(bounds: ScanBounds): void {
         this.stopPeriodicScans();
+        if (this.disposed) {
+            return;
+        }
 
-        const normalized = normalizeScanInterval(intervalSeconds, 90);
-        const interval = normalized * 1000;
-        this.scanTimer = setInterval(() => {
-            this.acquireTelemetry();
-        }, interval);
+        this.scanBounds = normalizeScanBounds(bounds.baselineSeconds, bounds.minSeconds, bounds.maxSeconds);
+        this.scheduleNextScan();
     }
 
     /**
      * Stop periodic scans
      */
     stopPeriodicScans(): void {
+        this.cancelScheduledScan();
+        this.scanBounds = undefined;
+    }
+
+    /**
+     * Pause or resume periodic and quota reset scans
+     * On resume a scan runs right away unless the last one is more recent
+     * than the minimum interval, and the reset scan is planned again.
+     */
+    setScansPaused(paused: boolean): void {
+        if (this.scansPaused === paused) {
+            return;
+        }
+
+        this.scansPaused = paused;
+        if (paused) {
+            this.cancelScheduledScan();
+            this.clearResetScan();
+            return;
+        }
+        if (this.lastSnapshot) {
+            this.planResetScan(this.lastSnapshot);
+        }
+        if (!this.scanBounds) {
+            return;
+        }
+
+        const age = Date.now() - (this.lastSnapshot?.timestamp ?? 0);
+        this.scheduleNextScan(Math.max(0, this.scanBounds.minSeconds * 1000 - age));
+    }
+
+    /**
+     * Get the current scan schedule
+     */
+    getScanSchedule(): ScanScheduleStatus {
+        return {
+            bounds: this.scanBounds ? { ...this.scanBounds } : undefined,
+            paused: this.scansPaused,
+            nextScanAt: this.nextScanAt,
+            nextResetScanAt: this.nextResetScanAt
+        };
+    }
+
+    private scheduleNextScan(delay?: number): void {
+        this.cancelScheduledScan();
+        if (this.disposed || this.scansPaused || !this.scanBounds) {
+            return;
+        }
+
+        const cycle = this.scanCycle;
+        const wait = delay ?? computeScanDelay(this.lastSnapshot, this.scanBounds);
+        this.nextScanAt = Date.now() + wait;
+        this.scanTimer = setTimeout(async () => {
+            this.scanTimer = undefined;
+            this.nextScanAt = undefined;
+            await this.acquireTelemetry();
+            if (cycle === this.scanCycle) {
+                this.scheduleNextScan();
+            }
+        }, wait);
+    }
+
+    /**
+     * Schedule a one-off scan shortly after the earliest quota reset
+     * If a reset time has passed but the server still reports the old
+     * level, rescan a few times until it refreshes.
+     */
+    private planResetScan(snapshot: TelemetrySnapshot): void {
+        this.clearResetScan();
+        if (this.disposed || this.scansPaused) {
+            return;
+        }
+
+        const now = Date.now();
+        let delay: number | undefined;
+        if (!hasOverdueReset(snapshot, now)) {
+            this.resetRetries = 0;
+        } else if (this.resetRetries < TelemetryService.MAX_RESET_RETRIES) {
+            this.resetRetries++;
+            delay = TelemetryService.RESET_RETRY_MS;
+        }
+
+        const resetAt = earliestResetAt(snapshot, now);
+        if (resetAt !== undefined) {
+            const untilReset = resetAt - now + TelemetryService.RESET_GRACE_MS;
+            if (untilReset <= TelemetryService.MAX_RESET_DELAY_MS) {
+                delay = Math.min(delay ?? untilReset, untilReset);
+            }
+        }
+        if (delay === undefined) {
+            return;
+        }
+
+        this.nextResetScanAt = now + delay;
+        this.resetScanTimer = setTimeout(() => {
+            this.resetScanTimer = undefined;
+            this.nextResetScanAt = undefined;
+            void this.acquireTelemetry();
+        }, delay);
+    }
+
+    private clearResetScan(): void {
+        this.nextResetScanAt = undefined;
+        if (this.resetScanTimer) {
+            clearTimeout(this.resetScanTimer);
+            this.resetScanTimer = undefined;
+        }
+    }
+
+    private cancelScheduledScan(): void {
+        this.scanCycle++;
+        this.nextScanAt = undefined;
         if (this.scanTimer) {
-            clearInterval(this.scanTimer);
+            clearTimeout(this.scanTimer);
             this.scanTimer = undefined;
         }
     }
 
+    /**
+     * Start liveness heartbeats between telemetry scans
+     * Each heartbeat is a GetUnleashData probe against the connected port.
+     *
+     * @param intervalSeconds - Seconds between heartbeats; 0 disables them
+     */
+    startHeartbeat(intervalSeconds: number): void {
+        this.stopHeartbeat();
+        if (this.disposed) {
+            return;
+        }
+
+        this.heartbeatIntervalSeconds = normalizeHeartbeatInterval(intervalSeconds, 15);
+        if (this.heartbeatIntervalSeconds === 0) {
+            return;
+        }
+        this.heartbeatTimer = setInterval(() => {
+            void this.heartbeat();
+        }, this.heartbeatIntervalSeconds * 1000);
+    }
+
+    /**
+     * Stop liveness heartbeats
+     */
+    stopHeartbeat(): void {
+        if (this.heartbeatTimer) {
+            clearInterval(this.heartbeatTimer);
+            this.heartbeatTimer = undefined;
+        }
+    }
+
+    /**
+     * Probe the connected port and feed the result into the connection state
+     * Misses degrade the connection and eventually trigger rediscovery; they
+     * never count towards the quota scan failure counter.
+     */
+    private async heartbeat(): Promise<void> {
+        const uplink = this.uplink;
+        const { isConnected, port, securityToken } = uplink;
+        if (this.disposed || this.heartbeatInFlight || this.uplinkAttempt || this.inFlightAcquisition) {
+            return;
+        }
+        if (!isConnected || !port || !securityToken) {
+            return;
+        }
+
+        this.heartbeatInFlight = true;
+        let result: PortProbeResult;
+        try {
+            result = await this.probeFrequency(
+                port,
+                securityToken,
+                this.lifecycle.signal,
+                uplink.host ?? TelemetryService.DEFAULT_HOST,
+                uplink.pid
+            );
+        } finally {
+            this.heartbeatInFlight = false;
+        }
+
+        // Uplink replaced or dropped while probing
+        if (this.disposed || this.uplink !== uplink || result.outcome === 'aborted') {
+            return;
+        }
+        this.lastHeartbeat = { at: Date.now(), result };
+
+        if (result.outcome === 'accepted') {
+            this.heartbeatMisses = 0;
+            uplink.lastContact = Date.now();
+            // Only recover what the heartbeat degraded; scan failures recover on the next scan
+            if (this.connectionState === ConnectionState.DEGRADED && uplink.signalStrength === 100) {
+                this.transitionTo(ConnectionState.CONNECTED);
+            }
+            return;
+        }
+
+        this.heartbeatMisses++;
+        const tokenRejected = result.errorCode === 'unauthenticated' || result.errorCode === 'permission_denied';
+        if (tokenRejected || this.heartbeatMisses >= TelemetryService.MAX_HEARTBEAT_MISSES) {
+            await this.recoverUplink(`Heartbeat lost (${result.errorCode ?? result.outcome})`);
+            return;
+        }
+        this.transitionTo(ConnectionState.DEGRADED);
+    }
+
+    /**
+     * Get the current heartbeat state
+     */
+    getHeartbeatStatus(): HeartbeatStatus {
+        return {
+            intervalSeconds: this.heartbeatIntervalSeconds,
+            lastBeatAt: this.lastHeartbeat?.at,
+            lastResult: this.lastHeartbeat ? { ...this.lastHeartbeat.result } : undefined,
+            consecutiveMisses: this.heartbeatMisses
+        };
+    }
+
     /**
      * Get current uplink status
      */
@@ -868,6 +2307,13 @@ export class TelemetryService {
         return this.lastValidation;
     }
 
+    /**
+     * Get the last Connect error returned by the server
+     */
+    getLastConnectError(): ConnectError | undefined {
+        return this.lastConnectError ? { ...this.lastConnectError } : undefined;
+    }
+
     /**
      * Get consecutive failure count
      */
@@ -880,8 +2326,21 @@ export class TelemetryService {
      */
     getDiagnosticInfo(): {
         uplink: UplinkStatus;
+        connection: ConnectionStateInfo;
+        heartbeat: HeartbeatStatus;
+        scanSchedule: ScanScheduleStatus;
+        transport: { id: string; endpoint: TransportEndpoint | undefined };
+        certificatePin: string | undefined;
+        connectionMode: UplinkMode;
+        portScans: { pid?: number; results: PortProbeResult[] }[];
+        rejectedCandidates: RejectedCandidate[];
+        discovery: DiscoveryReport;
         consecutiveFailures: number;
+        lastConnectError: ConnectError | undefined;
         lastValidation: ValidationResult | undefined;
+        schemaDrift: SchemaDrift | undefined;
+        knownFingerprint: SchemaFingerprint | undefined;
+        missingSchemaPaths: string[];
         lastRawResponseSample: string | undefined;
         hasSnapshot: boolean;
         systemCount: number;
@@ -898,8 +2357,34 @@ export class TelemetryService {
 
         return {
             uplink: { ...this.uplink },
+            connection: this.getConnectionState(),
+            heartbeat: this.getHeartbeatStatus(),
+            scanSchedule: this.getScanSchedule(),
+            transport: {
+                id: this.transport.id,
+                endpoint: this.uplink.port
+                    ? this.transport.describeEndpoint(this.uplink.host ?? TelemetryService.DEFAULT_HOST, this.uplink.port)
+                    : undefined
+            },
+            certificatePin: this.getCertificatePin(),
+            connectionMode: this.uplink.mode ?? (this.isManualOverrideActive() ? 'manual' : 'auto'),
+            portScans: this.manualProbeResult
+                ? [{ results: [{ ...this.manualProbeResult }] }]
+                : this.instances.map(i => ({ pid: i.pid, results: i.probeResults.map(r => ({ ...r })) })),
+            rejectedCandidates: this.rejectedCandidates.map(r => ({ ...r })),
+            discovery: {
+                processes: this.processDiscovery.map(a => ({ ...a })),
+                ports: Array.from(this.portDiscovery, ([pid, attempts]) => ({
+                    pid,
+                    attempts: attempts.map(a => ({ ...a }))
+                }))
+            },
             consecutiveFailures: this.consecutiveFailures,
+            lastConnectError: this.getLastConnectError(),
             lastValidation: this.lastValidation,
+            schemaDrift: this.schemaDrift,
+            knownFingerprint: this.knownFingerprint,
+            missingSchemaPaths: [...this.missingSchemaPaths],
             lastRawResponseSample: rawSample,
             hasSnapshot: !!this.lastSnapshot,
             systemCount: this.lastSnapshot?.systems.length ?? 0
@@ -917,7 +2402,14 @@ export class TelemetryService {
      * Dispose resources
      */
     dispose(): void {
+        this.disposed = true;
+        this.lifecycle.abort();
+        this.processWatcher.stop();
+        this.clearReconnectTimer();
         this.stopPeriodicScans();
+        this.clearResetScan();
+        this.stopHeartbeat();
+        this.transport.dispose();
         this.eventSubscribers.clear();
     }
 }
@@ -0,0 +1,172 @@
+/**
+ * AG Telemetry - Discovery Fixtures
+ * Recorded output of the process and port discovery tools
+ */
+
+export const TOKEN = 'a1b2c3d4-e5f6-7890-abcd-ef1234567890';
+export const OTHER_TOKEN = 'ffffffff-0000-1111-2222-333333333333';
+
+/** macOS `ps -axww -o pid=,args=` */
+export const PS_PROCESSES = [
+    '    1 /sbin/launchd',
+    '  412 /System/Library/CoreServices/Finder.app/Contents/MacOS/Finder',
+    ' 8812 /Applications/Antigravity.app/Contents/Resources/app/extensions/antigravity/bin/language_server_macos_arm ' +
+    `--enable_lsp --csrf_token ${TOKEN} --extension_server_port 53122 --workspace_id file_Users_me_proj`,
+    ' 8830 /Applications/Antigravity.app/Contents/Resources/app/extensions/antigravity/bin/language_server_macos_arm ' +
+    '--enable_lsp --extension_server_port 53140',
+    ' 9001 /usr/bin/grep --color=auto language_server',
+    ' 9120 /usr/local/bin/node /Users/me/tools/watch.js --csrf_token ' + OTHER_TOKEN,
+    ''
+].join('\n');
+
+/** macOS `ps -o uid=,comm= -p 8812` */
+export const PS_IDENTITY =
+    '  501 /Applications/Antigravity.app/Contents/Resources/app/extensions/antigravity/bin/language_server_macos_arm\n';
+
+/** Linux procps `ps -o uid=,comm= -p 8812`, which only prints the name */
+export const PS_IDENTITY_LINUX = ' 1000 language_server\n';
+
+/** macOS `lsof -nP -iTCP -sTCP:LISTEN -a -p 8812 -Fn` */
+export const LSOF_LISTENERS = [
+    'p8812',
+    'f12',
+    'n127.0.0.1:53125',
+    'f14',
+    'n127.0.0.1:53126',
+    'f19',
+    'n[::1]:53127',
+    'f21',
+    'n*:53128',
+    ''
+].join('\n');
+
+/** Linux `ss -tlnp` */
+export const SS_LISTENERS = [
+    'State  Recv-Q Send-Q Local Address:Port  Peer Address:Port Process',
+    'LISTEN 0      4096       127.0.0.1:42100      0.0.0.0:*     users:(("language_server",pid=8812,fd=10))',
+    'LISTEN 0      4096       127.0.0.1:42101      0.0.0.0:*     users:(("language_server",pid=8812,fd=12))',
+    'LISTEN 0      4096            [::]:42102         [::]:*     users:(("language_server",pid=88120,fd=9))',
+    'LISTEN 0      511        127.0.0.1:5173       0.0.0.0:*     users:(("node",pid=4410,fd=21))',
+    'LISTEN 0      128          0.0.0.0:22         0.0.0.0:*',
+    ''
+].join('\n');
+
+/** Windows `Get-CimInstance Win32_Process ... | ConvertTo-Json -Compress` */
+export const WINDOWS_PROCESSES = JSON.stringify([
+    {
+        ProcessId: 7420,
+        CommandLine: 'C:\\Users\\me\\AppData\\Local\\Programs\\Antigravity\\resources\\app\\extensions\\antigravity\\' +
+            `bin\\language_server_windows_x64.exe --enable_lsp --csrf_token ${TOKEN} --workspace_id file_c_3A_proj`
+    },
+    {
+        ProcessId: 7433,
+        CommandLine: null
+    }
+]);
+
+/** The same query when exactly one process matched (PowerShell drops the array) */
+export const WINDOWS_PROCESS_SINGLE = JSON.stringify({
+    ProcessId: 7420,
+    CommandLine: `language_server_windows_x64.exe --csrf_token=${TOKEN}`
+});
+
+/** Windows executable paths and owners of every language server process */
+export const WINDOWS_IDENTITY = JSON.stringify([
+    {
+        ProcessId: 7433,
+        ExecutablePath: 'C:\\Users\\other\\language_server_windows_x64.exe',
+        User: 'other'
+    },
+    {
+        ProcessId: 7420,
+        ExecutablePath: 'C:\\Users\\me\\AppData\\Local\\Programs\\Antigravity\\resources\\app\\extensions\\' +
+            'antigravity\\bin\\language_server_windows_x64.exe',
+        User: 'me'
+    }
+]);
+
+/** Windows `Get-NetTCPConnection -State Listen | Select-Object LocalPort,OwningProcess | ConvertTo-Json -Compress` */
+export const WINDOWS_LISTENERS = JSON.stringify([
+    { LocalPort: 135, OwningProcess: 1044 },
+    { LocalPort: 53125, OwningProcess: 7420 },
+    { LocalPort: 53126, OwningProcess: 7420 },
+    { LocalPort: 53125, OwningProcess: 7420 },
+    { LocalPort: 8080, OwningProcess: 74200 }
+]);
+
+/** Windows `wmic process where "name like '%language_server%'" get ProcessId,CommandLine /value` */
+export const WMIC_PROCESSES = [
+    '',
+    '',
+    'CommandLine=C:\\Users\\me\\AppData\\Local\\Programs\\Antigravity\\resources\\app\\extensions\\antigravity\\' +
+    `bin\\language_server_windows_x64.exe --enable_lsp --csrf_token ${TOKEN}`,
+    'ProcessId=7420',
+    '',
+    '',
+    'CommandLine=',
+    'ProcessId=7433',
+    '',
+    ''
+].join('\r\n');
+
+/** Windows `tasklist /FO CSV /NH /FI "IMAGENAME eq language_server*"` */
+export const TASKLIST_PROCESSES = [
+    '"language_server_windows_x64.exe","7420","Console","1","312,400 K"',
+    '"language_server_windows_x64.exe","7433","Console","1","98,112 K"',
+    ''
+].join('\r\n');
+
+/** tasklist output when no process matched */
+export const TASKLIST_NO_MATCH = 'INFO: No tasks are running which match the specified criteria.\r\n';
+
+/** Windows `netstat -ano` (German locale) */
+export const WINDOWS_NETSTAT = [
+    '',
+    'Aktive Verbindungen',
+    '',
+    '  Proto  Lokale Adresse         Remoteadresse          Status           PID',
+    '  TCP    0.0.0.0:135            0.0.0.0:0              ABHÖREN         1044',
+    '  TCP    127.0.0.1:53125        0.0.0.0:0              ABHÖREN         7420',
+    '  TCP    127.0.0.1:53125        127.0.0.1:61011        HERGESTELLT     7420',
+    '  TCP    [::1]:53127            [::]:0                 ABHÖREN         7420',
+    '  TCP    127.0.0.1:8080         0.0.0.0:0              ABHÖREN         74200',
+    '  UDP    0.0.0.0:5353           *:*                                    7420',
+    ''
+].join('\r\n');
+
+/** macOS `netstat -anv -p tcp` with the bare pid column */
+export const DARWIN_NETSTAT = [
+    'Active Internet connections (including servers)',
+    'Proto Recv-Q Send-Q  Local Address          Foreign Address        (state)     rhiwat shiwat    pid   epid  state    options',
+    'tcp4       0      0  127.0.0.1.53125        *.*                    LISTEN      131072 131072   8812      0 0x0100 0x00000106',
+    'tcp6       0      0  ::1.53127              *.*                    LISTEN      131072 131072   8812      0 0x0100 0x00000106',
+    'tcp4       0      0  127.0.0.1.53125        127.0.0.1.61011        ESTABLISHED 408300 146988   8812      0 0x0102 0x00000000',
+    'tcp4       0      0  *.5000                 *.*                    LISTEN      131072 131072    611      0 0x0100 0x00000106',
+    ''
+].join('\n');
+
+/** Newer macOS `netstat -anv -p tcp`, which prints `name:pid` in the pid column */
+export const DARWIN_NETSTAT_NAMED = [
+    'Proto Recv-Q Send-Q  Local Address          Foreign Address        (state)      rhiwat  shiwat process:pid  state  options',
+    'tcp4       0      0  127.0.0.1.53126        *.*                    LISTEN       131072  131072 language_server:8812 00100 00000006',
+    ''
+].join('\n');
+
+/** Linux net-tools `netstat -tlnp` */
+export const LINUX_NETSTAT = [
+    'Active Internet connections (only servers)',
+    'Proto Recv-Q Send-Q Local Address           Foreign Address         State       PID/Program name',
+    'tcp        0      0 127.0.0.1:42100         0.0.0.0:*               LISTEN      8812/language_serve',
+    'tcp        0      0 0.0.0.0:22              0.0.0.0:*               LISTEN      -',
+    'tcp6       0      0 ::1:42101               :::*                    LISTEN      8812/language_serve',
+    'tcp6       0      0 :::42102                :::*                    LISTEN      88120/language_serv',
+    ''
+].join('\n');
+
+/** GetUnleashData reply; proto3 JSON leaves out the false `enabled` of the second toggle */
+export const UNLEASH_RESPONSE = JSON.stringify({
+    toggles: [
+        { name: 'cascade-model-selector', enabled: true, variant: { name: 'enabled', enabled: true } },
+        { name: 'quota-reset-banner', variant: { name: 'disabled' } }
+    ]
+});
@@ -0,0 +1,61 @@
+/**
+ * AG Telemetry - GetUserStatus Fixtures
+ * Recorded GetUserStatus responses, one per known shape
+ */
+
+/** Current shape, read by the user-status-v1 adapter */
+export const USER_STATUS_V1 = {
+    userStatus: {
+        name: 'Test User',
+        cascadeModelConfigData: {
+            clientModelConfigs: [
+                {
+                    label: 'Gemini 3 Pro (High)',
+                    modelOrAlias: { model: 'MODEL_PLACEHOLDER_M7' },
+                    supportsImages: true,
+                    isRecommended: true,
+                    allowedTiers: ['TEAMS_TIER_PRO', 'TEAMS_TIER_TEAMS'],
+                    tagTitle: 'New',
+                    supportedMimeTypes: { 'image/png': true, 'image/jpeg': true },
+                    quotaInfo: { remainingFraction: 0.8, resetTime: '2026-10-19T18:00:00Z' }
+                },
+                {
+                    label: 'Claude Sonnet 4.5',
+                    modelOrAlias: { model: 'MODEL_CLAUDE_4_5_SONNET' },
+                    modelProvider: 'MODEL_PROVIDER_ANTHROPIC',
+                    supportsImages: false,
+                    quotaInfo: { remainingFraction: 0.15, resetTime: '2026-10-19T16:30:00Z' }
+                },
+                {
+                    label: 'GPT-OSS 120B (Medium)',
+                    modelOrAlias: { model: 'MODEL_OPENAI_GPT_OSS_120B_MEDIUM' },
+                    quotaInfo: { resetTime: '2026-10-19T21:00:00Z' }
+                }
+            ],
+            clientModelSorts: [{ name: 'Recommended' }]
+        },
+        planStatus: {
+            planInfo: {
+                teamsTier: 'TEAMS_TIER_PRO',
+                planName: 'Pro',
+                monthlyPromptCredits: 50000,
+                monthlyFlowCredits: '150000'
+            },
+            availablePromptCredits: 41250,
+            availableFlowCredits: '-1'
+        }
+    }
+};
+
+/** The same data without the userStatus wrapper, read by cascade-config-v1 */
+export const CASCADE_CONFIG_V1 = {
+    cascadeModelConfigData: USER_STATUS_V1.userStatus.cascadeModelConfigData
+};
+
+/** A response no adapter recognizes */
+export const UNKNOWN_SHAPE = {
+    userStatus: {
+        name: 'Test User',
+        modelQuotas: [{ id: 'gemini-3-pro', remaining: 0.8 }]
+    }
+};
@@ -36,6 +36,7 @@ describe('Extension Integration Tests', function () {
             'agTelemetry.refreshTelemetry',
             'agTelemetry.missionBriefing',
             'agTelemetry.establishLink',
+            'agTelemetry.selectInstance',
             'agTelemetry.runDiagnostics'
         ];
 
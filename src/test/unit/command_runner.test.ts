@@ -0,0 +1,77 @@
+/**
+ * AG Telemetry - Command Runner Unit Tests
+ * Tests for shell-free command execution with timeouts and output caps
+ */
+
+import { expect } from 'chai';
+import { CommandRequest, NodeCommandRunner } from '../../command_runner';
+
+describe('NodeCommandRunner', () => {
+    const runner = new NodeCommandRunner();
+
+    /**
+     * Run a Node.js script as the command
+     */
+    function node(script: string, overrides: Partial<CommandRequest> = {}) {
+        return runner.run({
+            file: process.execPath,
+            args: ['-e', script],
+            timeoutMs: 5000,
+            maxBytes: 1024,
+            signal: new AbortController().signal,
+            ...overrides
+        });
+    }
+
+    it('should return stdout and the exit code', async () => {
+        expect(await node('process.stdout.write("ok"); process.exit(3)')).to.deep.equal({
+            kind: 'output', stdout: 'ok', exitCode: 3
+        });
+    });
+
+    it('should pass arguments without shell interpretation', async () => {
+        const result = await runner.run({
+            file: process.execPath,
+            args: ['-e', 'process.stdout.write(process.argv[1])', '$(id); echo `id` | cat'],
+            timeoutMs: 5000,
+            maxBytes: 1024,
+            signal: new AbortController().signal
+        });
+        expect(result).to.include({ kind: 'output', stdout: '$(id); echo `id` | cat' });
+    });
+
+    it('should report missing executables', async () => {
+        const result = await runner.run({
+            file: 'agt-no-such-tool',
+            args: [],
+            timeoutMs: 5000,
+            maxBytes: 1024,
+            signal: new AbortController().signal
+        });
+        expect(result).to.include({ kind: 'error', code: 'ENOENT' });
+    });
+
+    it('should stop commands that exceed the timeout', async () => {
+        const result = await node('setTimeout(() => undefined, 10000)', { timeoutMs: 50 });
+        expect(result).to.include({ kind: 'error', code: 'timeout' });
+    });
+
+    it('should stop commands whose output exceeds the cap', async () => {
+        const result = await node('process.stdout.write("x".repeat(4096))', { maxBytes: 100 });
+        expect(result).to.include({ kind: 'error', code: 'oversized' });
+    });
+
+    it('should stop when aborted', async () => {
+        const controller = new AbortController();
+        const pending = node('setTimeout(() => undefined, 10000)', { signal: controller.signal });
+        setTimeout(() => controller.abort(), 20);
+        expect(await pending).to.include({ kind: 'error', code: 'aborted' });
+    });
+
+    it('should not start when already aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        expect(await node('process.stdout.write("ran")', { signal: controller.signal }))
+            .to.include({ kind: 'error', code: 'aborted' });
+    });
+});
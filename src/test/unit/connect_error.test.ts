@@ -0,0 +1,100 @@
+/**
+ * AG Telemetry - Connect Error Unit Tests
+ * Tests for decoding Connect protocol error responses
+ */
+
+import { expect } from 'chai';
+import {
+    classifyConnectError,
+    codeFromHttpStatus,
+    isConnectErrorCode,
+    parseConnectError
+} from '../../connect_error';
+
+describe('Connect Error Decoding', () => {
+
+    describe('parseConnectError', () => {
+        it('should decode code, message and detail types', () => {
+            const body = JSON.stringify({
+                code: 'unauthenticated',
+                message: 'invalid CSRF token',
+                details: [{ type: 'google.rpc.ErrorInfo', value: 'AAAA' }]
+            });
+
+            const error = parseConnectError(401, body);
+            expect(error.code).to.equal('unauthenticated');
+            expect(error.message).to.equal('invalid CSRF token');
+            expect(error.httpStatus).to.equal(401);
+            expect(error.detailTypes).to.deep.equal(['google.rpc.ErrorInfo']);
+            expect(error.inferred).to.be.false;
+        });
+
+        it('should fall back to the HTTP status when the body is not Connect JSON', () => {
+            expect(parseConnectError(404, '<html>Not Found</html>')).to.include({
+                code: 'unimplemented',
+                inferred: true
+            });
+            expect(parseConnectError(503, null).code).to.equal('unavailable');
+            expect(parseConnectError(401, '[]').code).to.equal('unauthenticated');
+        });
+
+        it('should ignore unknown codes', () => {
+            expect(parseConnectError(500, '{"code":"exploded"}').code).to.equal('unknown');
+        });
+
+        it('should redact secrets from the message', () => {
+            const error = parseConnectError(401, '{"code":"unauthenticated","message":"token abc123def is stale"}', ['abc123def']);
+            expect(error.message).to.equal('token [redacted] is stale');
+        });
+
+        it('should sanitize and truncate the message', () => {
+            const error = parseConnectError(500, JSON.stringify({
+                code: 'internal',
+                message: '$(alert) boom\n' + 'x'.repeat(500)
+            }));
+            expect(error.message).to.not.include('$(alert)');
+            expect(error.message).to.not.include('\n');
+            expect(error.message.length).to.be.at.most(200);
+        });
+
+        it('should cap the number of detail types', () => {
+            const details = Array.from({ length: 20 }, (_, i) => ({ type: `type.${i}` }));
+            const error = parseConnectError(400, JSON.stringify({ code: 'invalid_argument', details }));
+            expect(error.detailTypes).to.have.lengthOf(5);
+        });
+    });
+
+    describe('codeFromHttpStatus', () => {
+        it('should follow the Connect HTTP mapping', () => {
+            expect(codeFromHttpStatus(400)).to.equal('internal');
+            expect(codeFromHttpStatus(403)).to.equal('permission_denied');
+            expect(codeFromHttpStatus(429)).to.equal('unavailable');
+            expect(codeFromHttpStatus(418)).to.equal('unknown');
+        });
+    });
+
+    describe('isConnectErrorCode', () => {
+        it('should accept only known codes', () => {
+            expect(isConnectErrorCode('resource_exhausted')).to.be.true;
+            expect(isConnectErrorCode('RESOURCE_EXHAUSTED')).to.be.false;
+            expect(isConnectErrorCode(16)).to.be.false;
+        });
+    });
+
+    describe('classifyConnectError', () => {
+        const classify = (status: number, body: string) =>
+            classifyConnectError(parseConnectError(status, body));
+
+        it('should treat authentication failures as an invalid token', () => {
+            expect(classify(401, '')).to.equal('token-invalid');
+            expect(classify(403, '{"code":"permission_denied"}')).to.equal('token-invalid');
+        });
+
+        it('should distinguish missing RPCs, busy servers and other errors', () => {
+            expect(classify(404, '')).to.equal('rpc-unavailable');
+            expect(classify(503, '')).to.equal('server-busy');
+            expect(classify(429, '{"code":"resource_exhausted"}')).to.equal('server-busy');
+            expect(classify(500, '{"code":"internal"}')).to.equal('server-error');
+        });
+    });
+});
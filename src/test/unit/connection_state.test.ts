@@ -0,0 +1,90 @@
+/**
+ * AG Telemetry - Connection State Unit Tests
+ * Tests for state transitions and reconnect backoff
+ */
+
+import { expect } from 'chai';
+import {
+    CONNECTION_TRANSITIONS,
+    canTransition,
+    computeBackoffDelay,
+    formatRetryCountdown,
+    BackoffPolicy
+} from '../../connection_state';
+import { ConnectionState } from '../../types';
+
+describe('Connection State', () => {
+
+    describe('canTransition', () => {
+        it('should allow the normal connect path', () => {
+            expect(canTransition(ConnectionState.OFFLINE, ConnectionState.DISCOVERING)).to.be.true;
+            expect(canTransition(ConnectionState.DISCOVERING, ConnectionState.PROBING)).to.be.true;
+            expect(canTransition(ConnectionState.PROBING, ConnectionState.CONNECTED)).to.be.true;
+        });
+
+        it('should allow degradation, recovery and backoff', () => {
+            expect(canTransition(ConnectionState.CONNECTED, ConnectionState.DEGRADED)).to.be.true;
+            expect(canTransition(ConnectionState.DEGRADED, ConnectionState.CONNECTED)).to.be.true;
+            expect(canTransition(ConnectionState.DEGRADED, ConnectionState.BACKOFF)).to.be.true;
+            expect(canTransition(ConnectionState.BACKOFF, ConnectionState.DISCOVERING)).to.be.true;
+        });
+
+        it('should reject shortcuts that skip probing', () => {
+            expect(canTransition(ConnectionState.OFFLINE, ConnectionState.CONNECTED)).to.be.false;
+            expect(canTransition(ConnectionState.DISCOVERING, ConnectionState.CONNECTED)).to.be.false;
+            expect(canTransition(ConnectionState.BACKOFF, ConnectionState.CONNECTED)).to.be.false;
+        });
+
+        it('should let every state go offline except offline itself', () => {
+            for (const state of Object.values(ConnectionState)) {
+                const expected = state !== ConnectionState.OFFLINE;
+                expect(canTransition(state, ConnectionState.OFFLINE), state).to.equal(expected);
+            }
+        });
+
+        it('should define transitions for every state', () => {
+            expect(Object.keys(CONNECTION_TRANSITIONS)).to.have.members(Object.values(ConnectionState));
+        });
+    });
+
+    describe('computeBackoffDelay', () => {
+        const policy: BackoffPolicy = { baseMs: 1000, maxMs: 60000, jitter: 0.2 };
+        const noJitter = () => 0.5;
+
+        it('should double the delay on each attempt', () => {
+            expect(computeBackoffDelay(0, policy, noJitter)).to.equal(1000);
+            expect(computeBackoffDelay(1, policy, noJitter)).to.equal(2000);
+            expect(computeBackoffDelay(4, policy, noJitter)).to.equal(16000);
+        });
+
+        it('should cap the delay at the policy maximum', () => {
+            expect(computeBackoffDelay(10, policy, noJitter)).to.equal(60000);
+            expect(computeBackoffDelay(1000, policy, noJitter)).to.equal(60000);
+        });
+
+        it('should apply jitter within bounds', () => {
+            expect(computeBackoffDelay(2, policy, () => 0)).to.equal(3200);
+            expect(computeBackoffDelay(2, policy, () => 0.999999)).to.be.closeTo(4800, 1);
+        });
+
+        it('should never exceed the cap even with upward jitter', () => {
+            expect(computeBackoffDelay(20, policy, () => 0.999999)).to.equal(60000);
+        });
+
+        it('should treat invalid attempts as the first attempt', () => {
+            expect(computeBackoffDelay(-3, policy, noJitter)).to.equal(1000);
+            expect(computeBackoffDelay(NaN, policy, noJitter)).to.equal(1000);
+        });
+    });
+
+    describe('formatRetryCountdown', () => {
+        it('should format seconds and minutes', () => {
+            expect(formatRetryCountdown(4200)).to.equal('5s');
+            expect(formatRetryCountdown(125000)).to.equal('2m 05s');
+        });
+
+        it('should clamp negative values to zero', () => {
+            expect(formatRetryCountdown(-500)).to.equal('0s');
+        });
+    });
+});
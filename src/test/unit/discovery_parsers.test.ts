@@ -0,0 +1,191 @@
+/**
+ * AG Telemetry - Discovery Parsers Unit Tests
+ * Tests for ps, lsof, ss, netstat, wmic, tasklist and PowerShell parsers
+ * against recorded output
+ */
+
+import { expect } from 'chai';
+import {
+    parseDarwinNetstatListeners,
+    parseLinuxNetstatListeners,
+    parseLsofListeners,
+    parsePsIdentity,
+    parsePsProcesses,
+    parseSsListeners,
+    parseTasklistPids,
+    parseWindowsIdentity,
+    parseWindowsListeners,
+    parseWindowsNetstatListeners,
+    parseWindowsProcesses,
+    parseWmicProcesses
+} from '../../discovery_parsers';
+import {
+    DARWIN_NETSTAT,
+    DARWIN_NETSTAT_NAMED,
+    LINUX_NETSTAT,
+    LSOF_LISTENERS,
+    PS_IDENTITY,
+    PS_IDENTITY_LINUX,
+    PS_PROCESSES,
+    SS_LISTENERS,
+    TASKLIST_NO_MATCH,
+    TASKLIST_PROCESSES,
+    TOKEN,
+    WINDOWS_IDENTITY,
+    WINDOWS_LISTENERS,
+    WINDOWS_NETSTAT,
+    WINDOWS_PROCESSES,
+    WINDOWS_PROCESS_SINGLE,
+    WMIC_PROCESSES
+} from '../fixtures/discovery';
+
+describe('Discovery Parsers', () => {
+
+    describe('parsePsProcesses', () => {
+        it('should keep language servers that carry a token', () => {
+            expect(parsePsProcesses(PS_PROCESSES)).to.deep.equal([
+                { pid: 8812, token: TOKEN, workspaceId: 'file_Users_me_proj' }
+            ]);
+        });
+
+        it('should ignore tokens of other processes', () => {
+            const pids = parsePsProcesses(PS_PROCESSES).map(c => c.pid);
+            expect(pids).to.not.include(9120);
+            expect(pids).to.not.include(9001);
+        });
+
+        it('should return nothing for empty output', () => {
+            expect(parsePsProcesses('')).to.deep.equal([]);
+        });
+    });
+
+    describe('parseWindowsProcesses', () => {
+        it('should parse an array of processes', () => {
+            expect(parseWindowsProcesses(WINDOWS_PROCESSES)).to.deep.equal([
+                { pid: 7420, token: TOKEN, workspaceId: 'file_c_3A_proj' }
+            ]);
+        });
+
+        it('should parse the bare object PowerShell emits for one process', () => {
+            expect(parseWindowsProcesses(WINDOWS_PROCESS_SINGLE)).to.deep.equal([{ pid: 7420, token: TOKEN }]);
+        });
+
+        it('should return nothing for empty or malformed output', () => {
+            expect(parseWindowsProcesses('')).to.deep.equal([]);
+            expect(parseWindowsProcesses('Get-CimInstance : Access denied')).to.deep.equal([]);
+            expect(parseWindowsProcesses('null')).to.deep.equal([]);
+        });
+    });
+
+    describe('parsePsIdentity', () => {
+        it('should read the owner and executable path', () => {
+            expect(parsePsIdentity(PS_IDENTITY)).to.deep.equal({
+                uid: 501,
+                executable: '/Applications/Antigravity.app/Contents/Resources/app/extensions/antigravity/bin/' +
+                    'language_server_macos_arm'
+            });
+        });
+
+        it('should reject bare command names', () => {
+            expect(parsePsIdentity(PS_IDENTITY_LINUX)).to.be.null;
+            expect(parsePsIdentity('')).to.be.null;
+        });
+    });
+
+    describe('parseWindowsIdentity', () => {
+        it('should read the executable path and owner of the requested process', () => {
+            expect(parseWindowsIdentity(WINDOWS_IDENTITY, 7420)).to.deep.include({ user: 'me' });
+            expect(parseWindowsIdentity(WINDOWS_IDENTITY, 7420)?.executable)
+                .to.match(/Antigravity.*language_server_windows_x64\.exe$/);
+            expect(parseWindowsIdentity(WINDOWS_IDENTITY, 7433)).to.deep.include({ user: 'other' });
+        });
+
+        it('should return null when the process is not listed', () => {
+            expect(parseWindowsIdentity(WINDOWS_IDENTITY, 742)).to.be.null;
+            expect(parseWindowsIdentity('not json', 7420)).to.be.null;
+        });
+
+        it('should leave out fields the query could not read', () => {
+            expect(parseWindowsIdentity('{"ProcessId":7420,"ExecutablePath":null,"User":null}', 7420))
+                .to.deep.equal({});
+        });
+    });
+
+    describe('parseLsofListeners', () => {
+        it('should read the port of every listening address', () => {
+            expect(parseLsofListeners(LSOF_LISTENERS)).to.deep.equal([53125, 53126, 53127, 53128]);
+        });
+
+        it('should return nothing when lsof matched no socket', () => {
+            expect(parseLsofListeners('')).to.deep.equal([]);
+        });
+    });
+
+    describe('parseSsListeners', () => {
+        it('should keep sockets of the exact pid', () => {
+            expect(parseSsListeners(SS_LISTENERS, 8812)).to.deep.equal([42100, 42101]);
+            expect(parseSsListeners(SS_LISTENERS, 88120)).to.deep.equal([42102]);
+        });
+
+        it('should ignore sockets without owner information', () => {
+            expect(parseSsListeners(SS_LISTENERS, 22)).to.deep.equal([]);
+        });
+    });
+
+    describe('parseWindowsListeners', () => {
+        it('should keep sockets of the exact pid', () => {
+            expect(parseWindowsListeners(WINDOWS_LISTENERS, 7420)).to.deep.equal([53125, 53126, 53125]);
+        });
+
+        it('should return nothing for malformed output', () => {
+            expect(parseWindowsListeners('Get-NetTCPConnection : not recognized', 7420)).to.deep.equal([]);
+        });
+    });
+
+    describe('parseWmicProcesses', () => {
+        it('should parse key-value blocks', () => {
+            expect(parseWmicProcesses(WMIC_PROCESSES)).to.deep.equal([{ pid: 7420, token: TOKEN }]);
+        });
+
+        it('should return nothing for empty output', () => {
+            expect(parseWmicProcesses('\r\n\r\n')).to.deep.equal([]);
+        });
+    });
+
+    describe('parseTasklistPids', () => {
+        it('should read the pid of each language server', () => {
+            expect(parseTasklistPids(TASKLIST_PROCESSES)).to.deep.equal([7420, 7433]);
+        });
+
+        it('should ignore the no-match notice', () => {
+            expect(parseTasklistPids(TASKLIST_NO_MATCH)).to.deep.equal([]);
+        });
+    });
+
+    describe('parseWindowsNetstatListeners', () => {
+        it('should keep listeners of the pid regardless of the display language', () => {
+            expect(parseWindowsNetstatListeners(WINDOWS_NETSTAT, 7420)).to.deep.equal([53125, 53127]);
+        });
+
+        it('should not match pids by prefix', () => {
+            expect(parseWindowsNetstatListeners(WINDOWS_NETSTAT, 742)).to.deep.equal([]);
+        });
+    });
+
+    describe('parseDarwinNetstatListeners', () => {
+        it('should read dotted addresses with a bare pid column', () => {
+            expect(parseDarwinNetstatListeners(DARWIN_NETSTAT, 8812)).to.deep.equal([53125, 53127]);
+        });
+
+        it('should read the name:pid column of newer releases', () => {
+            expect(parseDarwinNetstatListeners(DARWIN_NETSTAT_NAMED, 8812)).to.deep.equal([53126]);
+        });
+    });
+
+    describe('parseLinuxNetstatListeners', () => {
+        it('should keep IPv4 and IPv6 listeners of the exact pid', () => {
+            expect(parseLinuxNetstatListeners(LINUX_NETSTAT, 8812)).to.deep.equal([42100, 42101]);
+            expect(parseLinuxNetstatListeners(LINUX_NETSTAT, 88120)).to.deep.equal([42102]);
+        });
+    });
+});
@@ -0,0 +1,171 @@
+/**
+ * AG Telemetry - Discovery Strategies Unit Tests
+ * Tests for ordered per-platform discovery fallbacks
+ */
+
+import { expect } from 'chai';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandRequest, CommandResult, CommandRunner } from '../../command_runner';
+import {
+    StrategyContext,
+    formatStrategyAttempts,
+    portStrategies,
+    processStrategies,
+    runStrategies
+} from '../../discovery_strategies';
+import {
+    DARWIN_NETSTAT,
+    LINUX_NETSTAT,
+    TASKLIST_PROCESSES,
+    TOKEN,
+    WMIC_PROCESSES
+} from '../fixtures/discovery';
+
+describe('Discovery Strategies', () => {
+    let commands: CommandRequest[];
+    let outputs: Record<string, CommandResult>;
+
+    /** Answers by executable name; anything unknown is not installed */
+    const runner: CommandRunner = {
+        run: async request => {
+            commands.push(request);
+            return outputs[request.file] ??
+                { kind: 'error', code: 'ENOENT', message: `spawn ${request.file} ENOENT` };
+        }
+    };
+
+    function context(signal: AbortSignal = new AbortController().signal): StrategyContext {
+        return { runner, procRoot: path.join(os.tmpdir(), 'agt-missing-proc'), signal };
+    }
+
+    function output(stdout: string, exitCode: number = 0): CommandResult {
+        return { kind: 'output', stdout, exitCode };
+    }
+
+    beforeEach(() => {
+        commands = [];
+        outputs = {};
+    });
+
+    describe('processStrategies', () => {
+        it('should fall back from CIM to wmic on Windows', async () => {
+            outputs.wmic = output(WMIC_PROCESSES);
+
+            const run = await runStrategies(processStrategies('win32'), context(), true);
+
+            expect(run.value).to.deep.equal([{ pid: 7420, token: TOKEN }]);
+            expect(run.attempts).to.deep.equal([
+                { strategy: 'cim', outcome: 'unavailable', detail: 'powershell not found' },
+                { strategy: 'wmic', outcome: 'ok' }
+            ]);
+        });
+
+        it('should explain that tasklist finds servers without tokens', async () => {
+            outputs.tasklist = output(TASKLIST_PROCESSES);
+
+            const run = await runStrategies(processStrategies('win32'), context(), true);
+
+            expect(run.value).to.deep.equal([]);
+            expect(run.attempts[2]).to.deep.include({ strategy: 'tasklist', outcome: 'failed' });
+            expect(run.attempts[2].detail).to.contain('7420, 7433');
+        });
+
+        it('should fall back from procfs to ps on Linux', async () => {
+            outputs.ps = output('');
+
+            const run = await runStrategies(processStrategies('linux'), context(), true);
+
+            expect(run.attempts.map(a => [a.strategy, a.outcome])).to.deep.equal([
+                ['procfs', 'unavailable'],
+                ['ps', 'ok']
+            ]);
+        });
+
+        it('should stop at the first strategy that ran, even with no servers', async () => {
+            outputs.powershell = output('');
+
+            const run = await runStrategies(processStrategies('win32'), context(), true);
+
+            expect(run.attempts).to.deep.equal([{ strategy: 'cim', outcome: 'ok' }]);
+            expect(commands).to.have.lengthOf(1);
+        });
+    });
+
+    describe('portStrategies', () => {
+        it('should fall back from lsof to netstat on macOS', async () => {
+            outputs.lsof = output('', 1);
+            outputs.netstat = output(DARWIN_NETSTAT);
+
+            const run = await runStrategies(portStrategies('darwin', 8812), context(), false);
+
+            expect(run.value).to.deep.equal([53125, 53127]);
+            expect(run.attempts).to.deep.equal([
+                { strategy: 'lsof', outcome: 'failed', detail: 'lsof exited with code 1' },
+                { strategy: 'netstat', outcome: 'ok' }
+            ]);
+        });
+
+        it('should try the next strategy when one finds no port', async () => {
+            outputs.ss = output('State Recv-Q Send-Q Local Address:Port Peer Address:Port Process\n');
+            outputs.netstat = output(LINUX_NETSTAT);
+
+            const run = await runStrategies(portStrategies('linux', 8812), context(), false);
+
+            expect(run.value).to.deep.equal([42100, 42101]);
+            expect(run.attempts.map(a => [a.strategy, a.outcome])).to.deep.equal([
+                ['procfs', 'unavailable'],
+                ['ss', 'empty'],
+                ['netstat', 'ok']
+            ]);
+        });
+
+        it('should report every failure when nothing works', async () => {
+            outputs.powershell = { kind: 'error', code: 'timeout', message: 'powershell timed out after 5000ms' };
+
+            const run = await runStrategies(portStrategies('win32', 7420), context(), false);
+
+            expect(run.value).to.deep.equal([]);
+            expect(run.attempts).to.deep.equal([
+                {
+                    strategy: 'Get-NetTCPConnection',
+                    outcome: 'failed',
+                    detail: 'powershell timed out after 5000ms'
+                },
+                { strategy: 'netstat', outcome: 'unavailable', detail: 'netstat not found' }
+            ]);
+        });
+
+        it('should pass the pid as its own argument', async () => {
+            await runStrategies(portStrategies('darwin', 8812), context(), false);
+            expect(commands[0].args).to.include('8812');
+        });
+    });
+
+    describe('runStrategies', () => {
+        it('should not start further strategies once aborted', async () => {
+            const controller = new AbortController();
+            controller.abort();
+
+            const run = await runStrategies(portStrategies('darwin', 8812), context(controller.signal), false);
+
+            expect(run.attempts).to.deep.equal([]);
+            expect(commands).to.deep.equal([]);
+        });
+    });
+
+    describe('formatStrategyAttempts', () => {
+        it('should name the strategy used and why earlier ones were skipped', () => {
+            expect(formatStrategyAttempts([
+                { strategy: 'procfs', outcome: 'unavailable', detail: 'cannot read /proc' },
+                { strategy: 'ss', outcome: 'empty' },
+                { strategy: 'netstat', outcome: 'ok' }
+            ])).to.equal('netstat (procfs unavailable: cannot read /proc; ss empty)');
+        });
+
+        it('should say when no strategy produced a result', () => {
+            expect(formatStrategyAttempts([{ strategy: 'lsof', outcome: 'empty' }])).to.equal('no result (lsof empty)');
+            expect(formatStrategyAttempts([{ strategy: 'ps', outcome: 'ok' }])).to.equal('ps');
+        });
+    });
+});
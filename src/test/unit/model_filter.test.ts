@@ -0,0 +1,100 @@
+/**
+ * AG Telemetry - Model Filter Unit Tests
+ * Tests for capability and metadata matching and filter descriptions
+ */
+
+import { expect } from 'chai';
+import {
+    collectMetadataValues,
+    describeModelFilter,
+    emptyModelFilter,
+    hasCapabilities,
+    matchesModelFilter
+} from '../../model_filter';
+import { createFuelSystem } from '../helpers/factories';
+
+describe('Model Filter', () => {
+
+    describe('hasCapabilities', () => {
+        const recommended = createFuelSystem({ capabilities: { recommended: true, images: false } });
+        const both = createFuelSystem({ capabilities: { recommended: true, images: true } });
+        const unreported = createFuelSystem();
+
+        it('should match every model when nothing is required', () => {
+            expect(hasCapabilities(unreported, [])).to.be.true;
+        });
+
+        it('should require every selected capability', () => {
+            expect(hasCapabilities(recommended, ['recommended'])).to.be.true;
+            expect(hasCapabilities(recommended, ['recommended', 'images'])).to.be.false;
+            expect(hasCapabilities(both, ['recommended', 'images'])).to.be.true;
+        });
+
+        it('should not match models that do not report the capability', () => {
+            expect(hasCapabilities(unreported, ['images'])).to.be.false;
+        });
+    });
+
+    describe('matchesModelFilter', () => {
+        const claude = createFuelSystem({
+            capabilities: { recommended: true },
+            metadata: { provider: 'MODEL_PROVIDER_ANTHROPIC', allowedTiers: ['pro', 'teams'], tag: 'New' }
+        });
+        const gemini = createFuelSystem({
+            metadata: { provider: 'MODEL_PROVIDER_GOOGLE', allowedTiers: ['free', 'pro'] }
+        });
+        const unreported = createFuelSystem();
+
+        it('should match every model with an empty filter', () => {
+            for (const system of [claude, gemini, unreported]) {
+                expect(matchesModelFilter(system, emptyModelFilter())).to.be.true;
+            }
+        });
+
+        it('should match any selected value within a dimension', () => {
+            const filter = { ...emptyModelFilter(), providers: ['MODEL_PROVIDER_ANTHROPIC', 'MODEL_PROVIDER_GOOGLE'] };
+            expect(matchesModelFilter(claude, filter)).to.be.true;
+            expect(matchesModelFilter(gemini, filter)).to.be.true;
+            expect(matchesModelFilter(unreported, filter)).to.be.false;
+        });
+
+        it('should match any of the allowed tiers', () => {
+            const filter = { ...emptyModelFilter(), tiers: ['free'] };
+            expect(matchesModelFilter(claude, filter)).to.be.false;
+            expect(matchesModelFilter(gemini, filter)).to.be.true;
+        });
+
+        it('should require every dimension and capability', () => {
+            const filter = { ...emptyModelFilter(), capabilities: ['recommended' as const], tiers: ['pro'], tags: ['New'] };
+            expect(matchesModelFilter(claude, filter)).to.be.true;
+            expect(matchesModelFilter(gemini, filter)).to.be.false;
+        });
+    });
+
+    describe('collectMetadataValues', () => {
+        it('should list distinct values in order', () => {
+            const systems = [
+                createFuelSystem({ metadata: { allowedTiers: ['pro', 'teams'] } }),
+                createFuelSystem({ metadata: { allowedTiers: ['free', 'pro'] } }),
+                createFuelSystem()
+            ];
+            expect(collectMetadataValues(systems, 'tiers')).to.deep.equal(['free', 'pro', 'teams']);
+            expect(collectMetadataValues(systems, 'providers')).to.be.empty;
+        });
+    });
+
+    describe('describeModelFilter', () => {
+        it('should list the selected capabilities and values', () => {
+            expect(describeModelFilter({
+                capabilities: ['recommended', 'images'],
+                providers: ['MODEL_PROVIDER_ANTHROPIC'],
+                tiers: ['pro', 'teams'],
+                tags: []
+            })).to.equal('Recommended, Image Input, Provider: MODEL_PROVIDER_ANTHROPIC, Plan: pro | teams');
+        });
+
+        it('should describe an empty filter as inactive', () => {
+            expect(describeModelFilter(emptyModelFilter())).to.be.undefined;
+        });
+    });
+});
@@ -0,0 +1,155 @@
+/**
+ * AG Telemetry - Port Scanner Unit Tests
+ * Tests for bounded-concurrency port probing
+ */
+
+import { expect } from 'chai';
+import { scanPorts, PortProbe } from '../../port_scanner';
+import { PortProbeOutcome } from '../../types';
+
+/**
+ * Create a fake probe that settles after a delay with a fixed outcome per port
+ * and records concurrency and abort behaviour.
+ */
+function createFakeProbe(
+    outcomes: Record<number, { outcome: PortProbeOutcome; delayMs: number }>
+) {
+    const stats = { inFlight: 0, maxInFlight: 0, started: [] as number[], aborted: [] as number[] };
+
+    const probe: PortProbe = (port, signal) => {
+        stats.started.push(port);
+        stats.inFlight++;
+        stats.maxInFlight = Math.max(stats.maxInFlight, stats.inFlight);
+        const { outcome, delayMs } = outcomes[port] ?? { outcome: 'refused', delayMs: 1 };
+
+        return new Promise(resolve => {
+            let done = false;
+            const timer = setTimeout(() => {
+                done = true;
+                stats.inFlight--;
+                resolve({ port, outcome, durationMs: delayMs });
+            }, delayMs);
+
+            signal.addEventListener('abort', () => {
+                if (done) {
+                    return;
+                }
+                done = true;
+                clearTimeout(timer);
+                stats.inFlight--;
+                stats.aborted.push(port);
+                resolve({ port, outcome: 'aborted', durationMs: 0 });
+            });
+        });
+    };
+
+    return { probe, stats };
+}
+
+describe('Port Scanner', () => {
+
+    describe('scanPorts', () => {
+        it('should return null with no results for an empty port list', async () => {
+            const { probe } = createFakeProbe({});
+            const result = await scanPorts([], probe, 4);
+            expect(result).to.deep.equal({ port: null, results: [] });
+        });
+
+        it('should never exceed the concurrency limit', async () => {
+            const { probe, stats } = createFakeProbe({});
+            await scanPorts([1, 2, 3, 4, 5, 6, 7, 8], probe, 3);
+            expect(stats.maxInFlight).to.equal(3);
+            expect(stats.started).to.have.lengthOf(8);
+        });
+
+        it('should resolve on the first accepted port without waiting for slow probes', async () => {
+            const { probe, stats } = createFakeProbe({
+                1: { outcome: 'timeout', delayMs: 200 },
+                2: { outcome: 'accepted', delayMs: 5 },
+                3: { outcome: 'refused', delayMs: 200 }
+            });
+
+            const startedAt = Date.now();
+            const result = await scanPorts([1, 2, 3], probe, 3);
+
+            expect(result.port).to.equal(2);
+            expect(Date.now() - startedAt).to.be.lessThan(150);
+            expect(stats.aborted).to.have.members([1, 3]);
+        });
+
+        it('should record aborted in-flight probes and skipped ports', async () => {
+            const { probe } = createFakeProbe({
+                1: { outcome: 'accepted', delayMs: 5 },
+                2: { outcome: 'refused', delayMs: 100 }
+            });
+
+            const result = await scanPorts([1, 2, 3, 4], probe, 2);
+
+            expect(result.port).to.equal(1);
+            expect(result.results.map(r => r.outcome)).to.deep.equal([
+                'accepted', 'aborted', 'skipped', 'skipped'
+            ]);
+        });
+
+        it('should report every rejection reason when no port is accepted', async () => {
+            const { probe } = createFakeProbe({
+                10: { outcome: 'refused', delayMs: 1 },
+                20: { outcome: 'timeout', delayMs: 3 },
+                30: { outcome: 'http-status', delayMs: 2 },
+                40: { outcome: 'oversized', delayMs: 1 }
+            });
+
+            const result = await scanPorts([10, 20, 30, 40], probe, 2);
+
+            expect(result.port).to.be.null;
+            expect(result.results.map(r => [r.port, r.outcome])).to.deep.equal([
+                [10, 'refused'], [20, 'timeout'], [30, 'http-status'], [40, 'oversized']
+            ]);
+        });
+
+        it('should record probes that throw as errors', async () => {
+            const probe: PortProbe = async () => {
+                throw new Error('boom');
+            };
+
+            const result = await scanPorts([1], probe, 1);
+            expect(result.port).to.be.null;
+            expect(result.results[0].outcome).to.equal('error');
+        });
+
+        it('should stop probing when the caller aborts', async () => {
+            const { probe, stats } = createFakeProbe({
+                1: { outcome: 'timeout', delayMs: 200 },
+                2: { outcome: 'timeout', delayMs: 200 }
+            });
+            const controller = new AbortController();
+
+            const startedAt = Date.now();
+            const scan = scanPorts([1, 2, 3], probe, 2, controller.signal);
+            setTimeout(() => controller.abort(), 10);
+            const result = await scan;
+
+            expect(Date.now() - startedAt).to.be.lessThan(150);
+            expect(result.port).to.be.null;
+            expect(result.results.map(r => r.outcome)).to.deep.equal(['aborted', 'aborted', 'skipped']);
+            expect(stats.aborted).to.have.members([1, 2]);
+        });
+
+        it('should not start any probe when already aborted', async () => {
+            const { probe, stats } = createFakeProbe({});
+            const controller = new AbortController();
+            controller.abort();
+
+            const result = await scanPorts([1, 2], probe, 2, controller.signal);
+
+            expect(stats.started).to.be.empty;
+            expect(result.results.map(r => r.outcome)).to.deep.equal(['skipped', 'skipped']);
+        });
+
+        it('should treat invalid concurrency values as sequential', async () => {
+            const { probe, stats } = createFakeProbe({});
+            await scanPorts([1, 2, 3], probe, 0);
+            expect(stats.maxInFlight).to.equal(1);
+        });
+    });
+});
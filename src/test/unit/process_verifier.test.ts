@@ -0,0 +1,118 @@
+/**
+ * AG Telemetry - Process Verifier Unit Tests
+ * Tests for install location and ownership checks of discovered servers
+ */
+
+import { expect } from 'chai';
+import {
+    VerificationPolicy,
+    defaultInstallRoots,
+    isPathInside,
+    verifyProcessIdentity
+} from '../../process_verifier';
+
+describe('Process Verifier', () => {
+
+    describe('defaultInstallRoots', () => {
+        it('should resolve Windows roots from the environment', () => {
+            const roots = defaultInstallRoots('win32', 'C:\\Users\\me', {
+                LOCALAPPDATA: 'C:\\Users\\me\\AppData\\Local',
+                ProgramFiles: 'C:\\Program Files'
+            });
+            expect(roots).to.deep.equal([
+                'C:\\Users\\me\\AppData\\Local\\Programs\\Antigravity',
+                'C:\\Program Files\\Antigravity'
+            ]);
+        });
+
+        it('should skip Windows roots whose folder is not set', () => {
+            expect(defaultInstallRoots('win32', 'C:\\Users\\me', {})).to.deep.equal([]);
+        });
+
+        it('should include the per-user Applications folder on macOS', () => {
+            expect(defaultInstallRoots('darwin', '/Users/me', {})).to.deep.equal([
+                '/Applications/Antigravity.app',
+                '/Users/me/Applications/Antigravity.app'
+            ]);
+        });
+
+        it('should not trust the home directory on Linux', () => {
+            const roots = defaultInstallRoots('linux', '/home/me', {});
+            expect(roots).to.include('/usr/share/antigravity');
+            expect(roots.some(root => root.startsWith('/home/me'))).to.be.false;
+        });
+    });
+
+    describe('isPathInside', () => {
+        it('should accept files below the root', () => {
+            expect(isPathInside('/opt/antigravity/bin/ls', '/opt/antigravity', 'linux')).to.be.true;
+            expect(isPathInside('/opt/antigravity/bin/ls', '/opt/antigravity/', 'linux')).to.be.true;
+        });
+
+        it('should reject the root itself, siblings and escapes', () => {
+            expect(isPathInside('/opt/antigravity', '/opt/antigravity', 'linux')).to.be.false;
+            expect(isPathInside('/opt/antigravity-evil/ls', '/opt/antigravity', 'linux')).to.be.false;
+            expect(isPathInside('/opt/antigravity/../evil/ls', '/opt/antigravity', 'linux')).to.be.false;
+        });
+
+        it('should reject relative paths', () => {
+            expect(isPathInside('antigravity/ls', '/opt', 'linux')).to.be.false;
+            expect(isPathInside('/opt/antigravity/ls', 'opt', 'linux')).to.be.false;
+        });
+
+        it('should accept names that merely start with dots', () => {
+            expect(isPathInside('/opt/antigravity/..bin/ls', '/opt/antigravity', 'linux')).to.be.true;
+        });
+
+        it('should compare case-insensitively on Windows and macOS only', () => {
+            expect(isPathInside('c:\\program files\\antigravity\\ls.exe', 'C:\\Program Files\\Antigravity', 'win32'))
+                .to.be.true;
+            expect(isPathInside('/applications/antigravity.app/ls', '/Applications/Antigravity.app', 'darwin'))
+                .to.be.true;
+            expect(isPathInside('/OPT/antigravity/ls', '/opt/antigravity', 'linux')).to.be.false;
+        });
+    });
+
+    describe('verifyProcessIdentity', () => {
+        const posix: VerificationPolicy = { platform: 'linux', trustedRoots: ['/opt/antigravity'], uid: 1000 };
+        const windows: VerificationPolicy = {
+            platform: 'win32',
+            trustedRoots: ['C:\\Program Files\\Antigravity'],
+            user: 'me'
+        };
+
+        it('should accept a trusted executable owned by the current user', () => {
+            expect(verifyProcessIdentity(
+                { executable: '/opt/antigravity/bin/language_server', uid: 1000 },
+                posix
+            )).to.be.null;
+            expect(verifyProcessIdentity(
+                { executable: 'C:\\Program Files\\Antigravity\\bin\\language_server.exe', user: 'ME' },
+                windows
+            )).to.be.null;
+        });
+
+        it('should reject processes of other users before looking at the path', () => {
+            expect(verifyProcessIdentity({ executable: '/tmp/x', uid: 0 }, posix)).to.equal('foreign-user');
+            expect(verifyProcessIdentity({ user: 'admin' }, windows)).to.equal('foreign-user');
+        });
+
+        it('should reject executables outside the trusted roots', () => {
+            expect(verifyProcessIdentity(
+                { executable: '/tmp/language_server', uid: 1000 },
+                posix
+            )).to.equal('untrusted-path');
+        });
+
+        it('should reject processes whose identity is incomplete', () => {
+            expect(verifyProcessIdentity(null, posix)).to.equal('unverifiable');
+            expect(verifyProcessIdentity({ uid: 1000 }, posix)).to.equal('unverifiable');
+            expect(verifyProcessIdentity({ executable: '/opt/antigravity/ls' }, posix)).to.equal('unverifiable');
+            expect(verifyProcessIdentity(
+                { executable: '/opt/antigravity/ls', uid: 1000 },
+                { ...posix, uid: undefined }
+            )).to.equal('unverifiable');
+            expect(verifyProcessIdentity({ executable: 'C:\\x.exe' }, windows)).to.equal('unverifiable');
+        });
+    });
+});
@@ -0,0 +1,201 @@
+/**
+ * AG Telemetry - Process Watcher Unit Tests
+ * Tests for language server liveness and restart detection
+ */
+
+import { expect } from 'chai';
+import { ProcessChange, ProcessWatcher } from '../../process_watcher';
+import { BeaconCandidate } from '../../procfs';
+
+/**
+ * Create a watcher over a mutable fake process table
+ */
+function createWatcher(rescanEvery: number = 1) {
+    const state = {
+        alive: new Set<number>([100]),
+        servers: [{ pid: 100, token: 'token-a' }] as BeaconCandidate[],
+        listError: false,
+        healthy: false,
+        changes: [] as ProcessChange[]
+    };
+
+    const watcher = new ProcessWatcher({
+        isAlive: pid => state.alive.has(pid),
+        listServers: async () => {
+            if (state.listError) {
+                throw new Error('ps failed');
+            }
+            return state.servers;
+        },
+        onChange: change => state.changes.push(change),
+        isHealthy: () => state.healthy,
+        intervalMs: 5,
+        rescanEvery
+    });
+
+    return { watcher, state };
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Process Watcher', () => {
+    let watcher: ProcessWatcher;
+
+    afterEach(() => {
+        watcher?.stop();
+    });
+
+    it('should report when the watched process exits', async () => {
+        const fake = createWatcher(100);
+        watcher = fake.watcher;
+        watcher.watch(100, 'token-a', [100]);
+
+        fake.state.alive.clear();
+        await wait(30);
+
+        expect(fake.state.changes).to.deep.equal(['process-exited']);
+        expect(watcher.isWatching()).to.be.false;
+    });
+
+    it('should report a rotated token on the same pid', async () => {
+        const fake = createWatcher();
+        watcher = fake.watcher;
+        watcher.watch(100, 'token-a', [100]);
+
+        fake.state.servers = [{ pid: 100, token: 'token-b' }];
+        await wait(30);
+
+        expect(fake.state.changes).to.deep.equal(['token-changed']);
+    });
+
+    it('should report a language server that was not running at connect time', async () => {
+        const fake = createWatcher();
+        watcher = fake.watcher;
+        watcher.watch(100, 'token-a', [100, 200]);
+
+        fake.state.servers = [
+            { pid: 100, token: 'token-a' },
+            { pid: 200, token: 'token-c' },
+            { pid: 300, token: 'token-d' }
+        ];
+        await wait(30);
+
+        expect(fake.state.changes).to.deep.equal(['server-started']);
+    });
+
+    it('should not report a new language server while the uplink is healthy', async () => {
+        const fake = createWatcher();
+        watcher = fake.watcher;
+        watcher.watch(100, 'token-a', [100]);
+
+        fake.state.healthy = true;
+        fake.state.servers = [
+            { pid: 100, token: 'token-a' },
+            { pid: 300, token: 'token-d' }
+        ];
+        await wait(20);
+        expect(fake.state.changes).to.be.empty;
+        expect(watcher.isWatching()).to.be.true;
+
+        fake.state.healthy = false;
+        await wait(20);
+        expect(fake.state.changes).to.deep.equal(['server-started']);
+    });
+
+    it('should treat a live pid missing from the server list as exited', async () => {
+        const fake = createWatcher();
+        watcher = fake.watcher;
+        watcher.watch(100, 'token-a', [100]);
+
+        fake.state.alive.add(200);
+        fake.state.servers = [{ pid: 200, token: 'token-a' }];
+        await wait(30);
+
+        expect(fake.state.changes).to.deep.equal(['process-exited']);
+    });
+
+    it('should keep watching when enumeration fails or returns nothing', async () => {
+        const fake = createWatcher();
+        watcher = fake.watcher;
+        watcher.watch(100, 'token-a', [100]);
+
+        fake.state.servers = [];
+        await wait(20);
+        fake.state.listError = true;
+        await wait(20);
+
+        expect(fake.state.changes).to.be.empty;
+        expect(watcher.isWatching()).to.be.true;
+    });
+
+    it('should only enumerate servers every rescanEvery ticks', async () => {
+        let listCalls = 0;
+        watcher = new ProcessWatcher({
+            isAlive: () => true,
+            listServers: async () => {
+                listCalls++;
+                return [{ pid: 100, token: 'token-a' }];
+            },
+            onChange: () => undefined,
+            intervalMs: 5,
+            rescanEvery: 1000
+        });
+        watcher.watch(100, 'token-a', []);
+
+        await wait(40);
+
+        expect(listCalls).to.equal(0);
+    });
+
+    it('should only check liveness when rescanEvery is 0', async () => {
+        let listCalls = 0;
+        const changes: ProcessChange[] = [];
+        const alive = new Set([100]);
+        watcher = new ProcessWatcher({
+            isAlive: pid => alive.has(pid),
+            listServers: async () => {
+                listCalls++;
+                return [{ pid: 100, token: 'token-b' }];
+            },
+            onChange: change => changes.push(change),
+            intervalMs: 5,
+            rescanEvery: 0
+        });
+        watcher.watch(100, 'token-a', []);
+
+        await wait(30);
+        expect(listCalls).to.equal(0);
+        expect(changes).to.be.empty;
+
+        alive.clear();
+        await wait(20);
+        expect(changes).to.deep.equal(['process-exited']);
+    });
+
+    it('should not report anything after stop', async () => {
+        const fake = createWatcher();
+        watcher = fake.watcher;
+        watcher.watch(100, 'token-a', [100]);
+        watcher.stop();
+
+        fake.state.alive.clear();
+        await wait(30);
+
+        expect(fake.state.changes).to.be.empty;
+        expect(watcher.isWatching()).to.be.false;
+    });
+
+    it('should follow the latest target when retargeted', async () => {
+        const fake = createWatcher();
+        watcher = fake.watcher;
+        watcher.watch(100, 'token-a', [100]);
+
+        fake.state.alive = new Set([200]);
+        fake.state.servers = [{ pid: 200, token: 'token-b' }];
+        watcher.watch(200, 'token-b', [200]);
+        await wait(30);
+
+        expect(fake.state.changes).to.be.empty;
+        expect(watcher.isWatching()).to.be.true;
+    });
+});
@@ -0,0 +1,322 @@
+/**
+ * AG Telemetry - Procfs Discovery Unit Tests
+ * Tests for /proc based process discovery against a fake proc tree
+ */
+
+import { expect } from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    parseCmdline,
+    extractCsrfTokenFromArgs,
+    extractWorkspaceIdFromArgs,
+    isLanguageServerCommand,
+    readProcessArgs,
+    readProcessIdentity,
+    findLanguageServerProcesses,
+    parseSocketInode,
+    parseListeningSockets,
+    readListeningPorts
+} from '../../procfs';
+
+/**
+ * Write a fake /proc/<pid>/cmdline entry
+ */
+function writeProcess(root: string, pid: number | string, args: string[]): void {
+    const dir = path.join(root, String(pid));
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, 'cmdline'), args.map(a => a + '\0').join(''));
+}
+
+const TCP_HEADER =
+    '  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode';
+
+/**
+ * Build a /proc/net/tcp row
+ */
+function tcpRow(slot: number, local: string, state: string, inode: number): string {
+    return `   ${slot}: ${local} 00000000:0000 ${state} 00000000:00000000 00:00000000 00000000  1000        0 ${inode} 1 0000000000000000 100 0 0 10 0`;
+}
+
+/**
+ * Write fake fd symlinks for a process
+ */
+function writeFds(root: string, pid: number, targets: string[]): void {
+    const dir = path.join(root, String(pid), 'fd');
+    fs.mkdirSync(dir, { recursive: true });
+    targets.forEach((target, i) => fs.symlinkSync(target, path.join(dir, String(i))));
+}
+
+describe('Procfs Discovery', () => {
+
+    describe('parseCmdline', () => {
+        it('should split NUL-separated arguments', () => {
+            expect(parseCmdline('/bin/ls\0-la\0/tmp\0')).to.deep.equal(['/bin/ls', '-la', '/tmp']);
+        });
+
+        it('should keep arguments containing spaces intact', () => {
+            const raw = Buffer.from('/opt/My App/language_server\0--flag\0');
+            expect(parseCmdline(raw)).to.deep.equal(['/opt/My App/language_server', '--flag']);
+        });
+
+        it('should return an empty array for kernel threads', () => {
+            expect(parseCmdline('')).to.deep.equal([]);
+        });
+    });
+
+    describe('extractCsrfTokenFromArgs', () => {
+        it('should extract inline token values', () => {
+            expect(extractCsrfTokenFromArgs(['ls', '--csrf_token=abc123def456'])).to.equal('abc123def456');
+        });
+
+        it('should extract token from the following argument', () => {
+            expect(extractCsrfTokenFromArgs(['ls', '--csrf-token', 'abc123def456'])).to.equal('abc123def456');
+        });
+
+        it('should reject tokens that fail validation', () => {
+            expect(extractCsrfTokenFromArgs(['ls', '--csrf_token=not;valid'])).to.be.null;
+            expect(extractCsrfTokenFromArgs(['ls', '--csrf_token'])).to.be.null;
+        });
+
+        it('should not treat a token-looking argument value as a flag', () => {
+            expect(extractCsrfTokenFromArgs(['ls', '--name', '--csrf_token=abc123'])).to.equal('abc123');
+            expect(extractCsrfTokenFromArgs(['ls', '--description=--csrf_token abc123'])).to.be.null;
+        });
+
+        it('should prefer the last valid token', () => {
+            const args = ['ls', '--csrf_token=aaaaaa', '--csrf_token', 'bbbbbb'];
+            expect(extractCsrfTokenFromArgs(args)).to.equal('bbbbbb');
+        });
+    });
+
+    describe('extractWorkspaceIdFromArgs', () => {
+        it('should extract inline and separate workspace ids', () => {
+            expect(extractWorkspaceIdFromArgs(['ls', '--workspace_id=file_home_me_proj'])).to.equal('file_home_me_proj');
+            expect(extractWorkspaceIdFromArgs(['ls', '--workspace_id', 'file_home_me_proj'])).to.equal('file_home_me_proj');
+        });
+
+        it('should return undefined when absent or oversized', () => {
+            expect(extractWorkspaceIdFromArgs(['ls', '--csrf_token=abcdef'])).to.be.undefined;
+            expect(extractWorkspaceIdFromArgs(['ls', '--workspace_id=' + 'x'.repeat(600)])).to.be.undefined;
+        });
+    });
+
+    describe('isLanguageServerCommand', () => {
+        it('should match language_server case-insensitively', () => {
+            expect(isLanguageServerCommand(['/opt/bin/Language_Server_linux_x64'])).to.be.true;
+        });
+
+        it('should not match unrelated processes', () => {
+            expect(isLanguageServerCommand(['/usr/bin/node', 'server.js'])).to.be.false;
+        });
+    });
+
+    describe('findLanguageServerProcesses', () => {
+        let procRoot: string;
+
+        beforeEach(() => {
+            procRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'agt-proc-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(procRoot, { recursive: true, force: true });
+        });
+
+        it('should return null when the proc root does not exist', async () => {
+            const result = await findLanguageServerProcesses(path.join(procRoot, 'missing'));
+            expect(result).to.be.null;
+        });
+
+        it('should return an empty list when no language server is running', async () => {
+            writeProcess(procRoot, 1, ['/sbin/init']);
+            writeProcess(procRoot, 200, ['/usr/bin/bash']);
+            expect(await findLanguageServerProcesses(procRoot)).to.deep.equal([]);
+        });
+
+        it('should find language server processes with valid tokens', async () => {
+            writeProcess(procRoot, 1, ['/sbin/init']);
+            writeProcess(procRoot, 4321, [
+                '/opt/antigravity/language_server_linux_x64',
+                '--csrf_token',
+                'a1b2c3d4-e5f6-7890-abcd-ef1234567890'
+            ]);
+
+            const result = await findLanguageServerProcesses(procRoot);
+            expect(result).to.deep.equal([
+                { pid: 4321, token: 'a1b2c3d4-e5f6-7890-abcd-ef1234567890' }
+            ]);
+        });
+
+        it('should include the workspace id when present', async () => {
+            writeProcess(procRoot, 77, ['language_server', '--csrf_token=abcdef', '--workspace_id=file_tmp_a']);
+
+            const result = await findLanguageServerProcesses(procRoot);
+            expect(result).to.deep.equal([{ pid: 77, token: 'abcdef', workspaceId: 'file_tmp_a' }]);
+        });
+
+        it('should order candidates by ascending pid', async () => {
+            writeProcess(procRoot, 900, ['language_server', '--csrf_token=bbbbbb']);
+            writeProcess(procRoot, 12, ['language_server', '--csrf_token=aaaaaa']);
+
+            const result = await findLanguageServerProcesses(procRoot);
+            expect(result?.map(c => c.pid)).to.deep.equal([12, 900]);
+        });
+
+        it('should skip language servers without a valid token', async () => {
+            writeProcess(procRoot, 10, ['language_server', '--port=1234']);
+            writeProcess(procRoot, 11, ['language_server', '--csrf_token=zz']);
+            expect(await findLanguageServerProcesses(procRoot)).to.deep.equal([]);
+        });
+
+        it('should ignore non-process entries and unreadable processes', async () => {
+            writeProcess(procRoot, 'self', ['language_server', '--csrf_token=abcdef']);
+            fs.mkdirSync(path.join(procRoot, '55'));
+            fs.writeFileSync(path.join(procRoot, 'uptime'), '1.0 1.0');
+
+            expect(await findLanguageServerProcesses(procRoot)).to.deep.equal([]);
+        });
+    });
+
+    describe('parseSocketInode', () => {
+        it('should extract socket inodes', () => {
+            expect(parseSocketInode('socket:[98765]')).to.equal('98765');
+        });
+
+        it('should ignore non-socket descriptors', () => {
+            expect(parseSocketInode('/dev/null')).to.be.null;
+            expect(parseSocketInode('pipe:[1234]')).to.be.null;
+            expect(parseSocketInode('anon_inode:[eventfd]')).to.be.null;
+        });
+    });
+
+    describe('parseListeningSockets', () => {
+        it('should map LISTEN inodes to decoded ports', () => {
+            const table = [
+                TCP_HEADER,
+                tcpRow(0, '0100007F:A4B1', '0A', 1111),
+                tcpRow(1, '0100007F:1F90', '01', 2222)
+            ].join('\n');
+
+            const result = parseListeningSockets(table);
+            expect(Array.from(result.entries())).to.deep.equal([['1111', 42161]]);
+        });
+
+        it('should decode IPv6 local addresses', () => {
+            const table = [
+                TCP_HEADER,
+                tcpRow(0, '00000000000000000000000001000000:2382', '0A', 3333)
+            ].join('\n');
+
+            expect(parseListeningSockets(table).get('3333')).to.equal(9090);
+        });
+
+        it('should skip malformed rows and zero inodes', () => {
+            const table = [
+                TCP_HEADER,
+                'garbage',
+                tcpRow(0, '0100007F:1F90', '0A', 0)
+            ].join('\n');
+
+            expect(parseListeningSockets(table).size).to.equal(0);
+        });
+    });
+
+    describe('readListeningPorts', () => {
+        let procRoot: string;
+
+        beforeEach(() => {
+            procRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'agt-proc-'));
+            fs.mkdirSync(path.join(procRoot, 'net'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(procRoot, { recursive: true, force: true });
+        });
+
+        it('should return ports owned by the process from tcp and tcp6', async () => {
+            writeFds(procRoot, 42, ['/dev/null', 'socket:[1111]', 'socket:[3333]', 'pipe:[7]']);
+            fs.writeFileSync(path.join(procRoot, 'net', 'tcp'), [
+                TCP_HEADER,
+                tcpRow(0, '0100007F:A4B1', '0A', 1111),
+                tcpRow(1, '0100007F:0016', '0A', 9999)
+            ].join('\n'));
+            fs.writeFileSync(path.join(procRoot, 'net', 'tcp6'), [
+                TCP_HEADER,
+                tcpRow(0, '00000000000000000000000001000000:2382', '0A', 3333)
+            ].join('\n'));
+
+            const ports = await readListeningPorts(42, procRoot);
+            expect(ports?.sort((a, b) => a - b)).to.deep.equal([9090, 42161]);
+        });
+
+        it('should ignore sockets that are not listening', async () => {
+            writeFds(procRoot, 42, ['socket:[1111]']);
+            fs.writeFileSync(path.join(procRoot, 'net', 'tcp'), [
+                TCP_HEADER,
+                tcpRow(0, '0100007F:A4B1', '01', 1111)
+            ].join('\n'));
+
+            expect(await readListeningPorts(42, procRoot)).to.deep.equal([]);
+        });
+
+        it('should return null when the fd directory is unreadable', async () => {
+            fs.writeFileSync(path.join(procRoot, 'net', 'tcp'), TCP_HEADER);
+            expect(await readListeningPorts(42, procRoot)).to.be.null;
+        });
+
+        it('should return null when no tcp table can be read', async () => {
+            writeFds(procRoot, 42, ['socket:[1111]']);
+            expect(await readListeningPorts(42, procRoot)).to.be.null;
+        });
+    });
+
+    describe('readProcessArgs', () => {
+        it('should reject invalid pids without touching the filesystem', async () => {
+            expect(await readProcessArgs(-1, '/nonexistent')).to.be.null;
+            expect(await readProcessArgs(0, '/nonexistent')).to.be.null;
+        });
+    });
+
+    describe('readProcessIdentity', () => {
+        let procRoot: string;
+
+        beforeEach(() => {
+            procRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'agt-proc-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(procRoot, { recursive: true, force: true });
+        });
+
+        it('should read the executable link and owner', async () => {
+            writeProcess(procRoot, 100, ['language_server']);
+            fs.symlinkSync('/opt/antigravity/bin/language_server', path.join(procRoot, '100', 'exe'));
+
+            expect(await readProcessIdentity(100, procRoot)).to.deep.equal({
+                executable: '/opt/antigravity/bin/language_server',
+                uid: fs.statSync(procRoot).uid
+            });
+        });
+
+        it('should strip the deleted marker of replaced binaries', async () => {
+            writeProcess(procRoot, 100, ['language_server']);
+            fs.symlinkSync('/opt/antigravity/bin/language_server (deleted)', path.join(procRoot, '100', 'exe'));
+
+            const identity = await readProcessIdentity(100, procRoot);
+            expect(identity?.executable).to.equal('/opt/antigravity/bin/language_server');
+        });
+
+        it('should return the owner alone when the executable is unreadable', async () => {
+            writeProcess(procRoot, 100, ['language_server']);
+
+            const identity = await readProcessIdentity(100, procRoot);
+            expect(identity).to.deep.equal({ uid: fs.statSync(procRoot).uid });
+        });
+
+        it('should return null for missing processes and invalid pids', async () => {
+            expect(await readProcessIdentity(100, procRoot)).to.be.null;
+            expect(await readProcessIdentity(-1, procRoot)).to.be.null;
+        });
+    });
+});
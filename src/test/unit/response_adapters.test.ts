@@ -0,0 +1,205 @@
+/**
+ * AG Telemetry - Response Adapters Unit Tests
+ * Tests for adapter selection and entry parsing against recorded responses
+ */
+
+import { expect } from 'chai';
+import {
+    AdapterMatch,
+    ParsedModel,
+    RESPONSE_ADAPTERS,
+    ResponseAdapter,
+    selectResponseAdapter
+} from '../../response_adapters';
+import { CASCADE_CONFIG_V1, UNKNOWN_SHAPE, USER_STATUS_V1 } from '../fixtures/user_status';
+
+describe('Response Adapters', () => {
+
+    function select(response: object): AdapterMatch {
+        const selected = selectResponseAdapter(response as Record<string, unknown>);
+        if (!('adapter' in selected)) {
+            throw new Error(`No adapter matched: ${selected.reasons.join('; ')}`);
+        }
+        return selected;
+    }
+
+    it('should register adapters with unique ids', () => {
+        const ids = RESPONSE_ADAPTERS.map(a => a.id);
+        expect(new Set(ids).size).to.equal(ids.length);
+    });
+
+    describe('selectResponseAdapter', () => {
+        it('should read the current response shape', () => {
+            const match = select(USER_STATUS_V1);
+            expect(match.adapter.id).to.equal('user-status-v1');
+            expect(match.entries).to.have.lengthOf(3);
+        });
+
+        it('should read the response without the userStatus wrapper', () => {
+            const match = select(CASCADE_CONFIG_V1);
+            expect(match.adapter.id).to.equal('cascade-config-v1');
+            expect(match.entries).to.have.lengthOf(3);
+        });
+
+        it('should explain per adapter why an unknown shape was not recognized', () => {
+            const selected = selectResponseAdapter(UNKNOWN_SHAPE);
+            expect(selected).to.not.have.property('adapter');
+            expect((selected as { reasons: string[] }).reasons).to.deep.equal([
+                "user-status-v1: Missing 'cascadeModelConfigData' in userStatus. userStatus keys: [name, modelQuotas]",
+                "cascade-config-v1: Missing 'cascadeModelConfigData' in response. response keys: [userStatus]"
+            ]);
+        });
+
+        it('should reject a model list that is not an array', () => {
+            const selected = selectResponseAdapter({
+                userStatus: { cascadeModelConfigData: { clientModelConfigs: {} } }
+            });
+            expect((selected as { reasons: string[] }).reasons[0])
+                .to.match(/^user-status-v1: Missing or invalid 'clientModelConfigs' array/);
+        });
+
+        it('should try adapters in the given order', () => {
+            const first: ResponseAdapter = { id: 'first', locate: () => [], parseEntry: () => 'unused' };
+            const second: ResponseAdapter = { id: 'second', locate: () => [1], parseEntry: () => 'unused' };
+            const selected = selectResponseAdapter({}, [first, second]);
+            expect((selected as AdapterMatch).adapter.id).to.equal('first');
+        });
+    });
+
+    describe('client model config entries', () => {
+        const { adapter, entries } = select(USER_STATUS_V1);
+
+        function parse(entry: unknown): ParsedModel {
+            const parsed = adapter.parseEntry(entry);
+            if (typeof parsed === 'string') {
+                throw new Error(`Entry rejected: ${parsed}`);
+            }
+            return parsed;
+        }
+
+        it('should read label, model id, quota and reset time', () => {
+            expect(adapter.parseEntry(entries[0])).to.deep.include({
+                label: 'Gemini 3 Pro (High)',
+                systemId: 'MODEL_PLACEHOLDER_M7',
+                fuelLevel: 0.8,
+                resetTime: '2026-10-19T18:00:00Z'
+            });
+        });
+
+        it('should read capabilities and metadata', () => {
+            expect(adapter.parseEntry(entries[0])).to.deep.include({
+                capabilities: { recommended: true, images: true },
+                metadata: { allowedTiers: ['TEAMS_TIER_PRO', 'TEAMS_TIER_TEAMS'], tag: 'New' }
+            });
+            expect(adapter.parseEntry(entries[1])).to.deep.include({
+                capabilities: { images: false },
+                metadata: { provider: 'MODEL_PROVIDER_ANTHROPIC' }
+            });
+            expect(adapter.parseEntry(entries[2])).to.not.have.any.keys('capabilities', 'metadata', 'extraFields');
+        });
+
+        it('should ignore capability and metadata values of the wrong type', () => {
+            const parsed = parse({
+                label: 'm',
+                isRecommended: 'yes',
+                modelProvider: 42,
+                allowedTiers: ['TEAMS_TIER_PRO', 7, ' ', 'x'.repeat(100)]
+            });
+            expect(parsed.capabilities).to.be.undefined;
+            expect(parsed.metadata).to.deep.equal({ allowedTiers: ['TEAMS_TIER_PRO', 'x'.repeat(64)] });
+        });
+
+        it('should keep unknown fields as sanitized previews', () => {
+            expect(parse(entries[0]).extraFields).to.deep.equal({
+                supportedMimeTypes: '{"image/png":true,"image/jpeg":true}'
+            });
+
+            const parsed = parse({
+                label: 'm',
+                'note\u0007$(alert)': 'line\nbreak',
+                blob: 'x'.repeat(1000)
+            });
+            expect(parsed.extraFields).to.deep.equal({
+                note: '"line\\nbreak"',
+                blob: `"${'x'.repeat(124)}...`
+            });
+        });
+
+        it('should bound the number of unknown fields', () => {
+            const entry: Record<string, unknown> = { label: 'm' };
+            for (let i = 0; i < 40; i++) {
+                entry[`field${i}`] = i;
+            }
+            expect(Object.keys(parse(entry).extraFields ?? {})).to.have.lengthOf(16);
+        });
+
+        it('should read a missing remaining fraction as an exhausted quota', () => {
+            expect(adapter.parseEntry(entries[2])).to.include({ fuelLevel: 0, resetTime: '2026-10-19T21:00:00Z' });
+            expect(adapter.parseEntry({ label: 'no-quota' })).to.include({ fuelLevel: 0, systemId: 'no-quota' });
+        });
+
+        it('should clamp the remaining fraction', () => {
+            expect(parse({ label: 'm', quotaInfo: { remainingFraction: 1.5 } }).fuelLevel).to.equal(1);
+            expect(parse({ label: 'm', quotaInfo: { remainingFraction: -1 } }).fuelLevel).to.equal(0);
+            expect(parse({ label: 'm', quotaInfo: { remainingFraction: NaN } }).fuelLevel).to.equal(0);
+        });
+
+        it('should explain why entries without a usable label or model id are rejected', () => {
+            expect(adapter.parseEntry(null)).to.equal('Entry is null, not an object');
+            expect(adapter.parseEntry(['gemini'])).to.equal('Entry is an array, not an object');
+            expect(adapter.parseEntry('gemini')).to.equal('Entry is a string, not an object');
+            expect(adapter.parseEntry({})).to.equal("'label' is missing");
+            expect(adapter.parseEntry({ label: 42 })).to.equal("'label' is a number, not a string");
+            expect(adapter.parseEntry({ label: 'm', modelOrAlias: { model: 7 } }))
+                .to.equal("'modelOrAlias.model' is a number, not a string");
+        });
+    });
+
+    describe('plan status', () => {
+        const { adapter } = select(USER_STATUS_V1);
+
+        function parseAccount(userStatus: unknown) {
+            return adapter.parseAccount?.({ userStatus });
+        }
+
+        it('should read plan and credits, including int64 counts sent as strings', () => {
+            expect(adapter.parseAccount?.(USER_STATUS_V1)).to.deep.equal({
+                planName: 'Pro',
+                tier: 'TEAMS_TIER_PRO',
+                promptCredits: { available: 41250, monthly: 50000 },
+                flowCredits: { monthly: 150000 }
+            });
+        });
+
+        it('should leave out fields that are missing or malformed', () => {
+            expect(parseAccount({
+                planStatus: {
+                    planInfo: { planName: '   ', teamsTier: 3, monthlyPromptCredits: Infinity },
+                    availablePromptCredits: '12abc',
+                    availableFlowCredits: 75
+                }
+            })).to.deep.equal({ flowCredits: { available: 75 } });
+        });
+
+        it('should cap the plan name length', () => {
+            const account = parseAccount({ planStatus: { planInfo: { planName: 'x'.repeat(500) } } });
+            expect(account?.planName).to.have.lengthOf(64);
+        });
+
+        it('should return nothing when the response has no plan status', () => {
+            expect(parseAccount({})).to.be.undefined;
+            expect(parseAccount({ planStatus: 'pro' })).to.be.undefined;
+            expect(adapter.parseAccount?.({})).to.be.undefined;
+        });
+
+        it('should return nothing for a response that is not an object', () => {
+            expect(adapter.parseAccount?.(null)).to.be.undefined;
+            expect(adapter.parseAccount?.('userStatus')).to.be.undefined;
+            expect(adapter.parseAccount?.([{ userStatus: {} }])).to.be.undefined;
+        });
+
+        it('should not be read from shapes without userStatus', () => {
+            expect(select(CASCADE_CONFIG_V1).adapter.parseAccount).to.be.undefined;
+        });
+    });
+});
@@ -0,0 +1,119 @@
+/**
+ * AG Telemetry - Scan Scheduler Unit Tests
+ * Tests for readiness-driven scan delays
+ */
+
+import { expect } from 'chai';
+import { computeScanDelay, earliestResetAt, hasOverdueReset } from '../../scan_scheduler';
+import {
+    FuelSystem,
+    ReadinessLevel,
+    ScanBounds,
+    SystemClass,
+    TelemetrySnapshot
+} from '../../types';
+
+describe('Scan Scheduler', () => {
+    const bounds: ScanBounds = { baselineSeconds: 90, minSeconds: 30, maxSeconds: 600 };
+    const now = Date.parse('2026-01-01T12:00:00Z');
+
+    function system(readiness: ReadinessLevel, fuelLevel: number, replenishmentEta?: string): FuelSystem {
+        return {
+            systemId: `model-${readiness}-${fuelLevel}`,
+            designation: 'Model',
+            fuelLevel,
+            replenishmentEta,
+            readiness,
+            systemClass: SystemClass.GEMINI_PRO,
+            isOnline: true
+        };
+    }
+
+    function snapshot(...systems: FuelSystem[]): TelemetrySnapshot {
+        return { timestamp: now, systems, overallReadiness: ReadinessLevel.NOMINAL, activeAlerts: 0 };
+    }
+
+    describe('computeScanDelay', () => {
+        it('should use the baseline without a snapshot', () => {
+            expect(computeScanDelay(undefined, bounds, now)).to.equal(90000);
+            expect(computeScanDelay(snapshot(), bounds, now)).to.equal(90000);
+        });
+
+        it('should scan at the minimum interval when any model is WARNING or CRITICAL', () => {
+            expect(computeScanDelay(snapshot(
+                system(ReadinessLevel.NOMINAL, 0.9),
+                system(ReadinessLevel.WARNING, 0.1)
+            ), bounds, now)).to.equal(30000);
+            expect(computeScanDelay(snapshot(system(ReadinessLevel.CRITICAL, 0)), bounds, now)).to.equal(30000);
+        });
+
+        it('should scan at the maximum interval when everything is NOMINAL', () => {
+            expect(computeScanDelay(snapshot(
+                system(ReadinessLevel.NOMINAL, 1),
+                system(ReadinessLevel.NOMINAL, 0.8)
+            ), bounds, now)).to.equal(600000);
+        });
+
+        it('should use the baseline for CAUTION', () => {
+            expect(computeScanDelay(snapshot(
+                system(ReadinessLevel.NOMINAL, 1),
+                system(ReadinessLevel.CAUTION, 0.3)
+            ), bounds, now)).to.equal(90000);
+        });
+
+        it('should pull the scan forward for an imminent quota reset', () => {
+            const eta = new Date(now + 120000).toISOString();
+            expect(computeScanDelay(snapshot(system(ReadinessLevel.NOMINAL, 0.6, eta)), bounds, now))
+                .to.equal(120000);
+        });
+
+        it('should not scan faster than the minimum for a reset', () => {
+            const eta = new Date(now + 5000).toISOString();
+            expect(computeScanDelay(snapshot(system(ReadinessLevel.CAUTION, 0.3, eta)), bounds, now))
+                .to.equal(30000);
+        });
+
+        it('should ignore resets of full models, past resets and invalid timestamps', () => {
+            const soon = new Date(now + 60000).toISOString();
+            const past = new Date(now - 60000).toISOString();
+            expect(computeScanDelay(snapshot(
+                system(ReadinessLevel.NOMINAL, 1, soon),
+                system(ReadinessLevel.NOMINAL, 0.7, past),
+                system(ReadinessLevel.NOMINAL, 0.7, 'soon')
+            ), bounds, now)).to.equal(600000);
+        });
+    });
+
+    describe('earliestResetAt', () => {
+        it('should return the earliest future reset of a partly used model', () => {
+            const later = new Date(now + 3600000).toISOString();
+            const sooner = new Date(now + 600000).toISOString();
+            expect(earliestResetAt(snapshot(
+                system(ReadinessLevel.CAUTION, 0.3, later),
+                system(ReadinessLevel.CRITICAL, 0, sooner),
+                system(ReadinessLevel.NOMINAL, 1, new Date(now + 1000).toISOString())
+            ), now)).to.equal(now + 600000);
+        });
+
+        it('should return undefined when no reset is pending', () => {
+            expect(earliestResetAt(snapshot(
+                system(ReadinessLevel.CRITICAL, 0, new Date(now - 1000).toISOString()),
+                system(ReadinessLevel.CAUTION, 0.3)
+            ), now)).to.be.undefined;
+        });
+    });
+
+    describe('hasOverdueReset', () => {
+        it('should detect a partly used model whose reset time has passed', () => {
+            const past = new Date(now - 1000).toISOString();
+            expect(hasOverdueReset(snapshot(system(ReadinessLevel.CRITICAL, 0, past)), now)).to.be.true;
+        });
+
+        it('should ignore full models and future resets', () => {
+            expect(hasOverdueReset(snapshot(
+                system(ReadinessLevel.NOMINAL, 1, new Date(now - 1000).toISOString()),
+                system(ReadinessLevel.WARNING, 0.1, new Date(now + 1000).toISOString())
+            ), now)).to.be.false;
+        });
+    });
+});
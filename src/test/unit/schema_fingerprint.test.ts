@@ -0,0 +1,135 @@
+/**
+ * AG Telemetry - Schema Fingerprint Unit Tests
+ * Tests for structural fingerprints, their diffs and persisted validation
+ */
+
+import { expect } from 'chai';
+import { computeFingerprint, diffFingerprints, isSchemaFingerprint, mergeFingerprints } from '../../schema_fingerprint';
+import { USER_STATUS_V1 } from '../fixtures/user_status';
+
+describe('Schema Fingerprint', () => {
+
+    describe('computeFingerprint', () => {
+        it('should record nested key paths and value types', () => {
+            const { paths } = computeFingerprint(USER_STATUS_V1);
+
+            expect(paths).to.include({
+                'userStatus': 'object',
+                'userStatus.name': 'string',
+                'userStatus.cascadeModelConfigData.clientModelConfigs': 'array',
+                'userStatus.cascadeModelConfigData.clientModelConfigs[].label': 'string',
+                'userStatus.cascadeModelConfigData.clientModelConfigs[].quotaInfo.remainingFraction': 'number',
+                'userStatus.planStatus.planInfo.monthlyFlowCredits': 'string'
+            });
+        });
+
+        it('should merge the types of array elements', () => {
+            const { paths } = computeFingerprint({ items: [{ id: 1 }, { id: 'a' }, null] });
+            expect(paths).to.deep.equal({ 'items': 'array', 'items[]': 'null|object', 'items[].id': 'number|string' });
+        });
+
+        it('should not depend on values or list lengths', () => {
+            const one = computeFingerprint({ models: [{ label: 'a', fraction: 0.5 }] });
+            const many = computeFingerprint({ models: [{ label: 'b', fraction: 1 }, { label: 'c', fraction: 0 }] });
+            expect(many.hash).to.equal(one.hash);
+        });
+
+        it('should give the entries of a map one path', () => {
+            const { paths } = computeFingerprint(USER_STATUS_V1);
+            const configs = 'userStatus.cascadeModelConfigData.clientModelConfigs[]';
+
+            expect(paths).to.include({ [`${configs}.supportedMimeTypes{}`]: 'boolean' });
+            expect(Object.keys(paths).filter(path => path.includes('image/'))).to.be.empty;
+            expect(computeFingerprint({ types: { 'image/png': true } }).hash)
+                .to.equal(computeFingerprint({ types: { 'video/mp4': false, 'image/gif': true } }).hash);
+        });
+
+        it('should change when a type changes', () => {
+            expect(computeFingerprint({ fraction: '0.5' }).hash).to.not.equal(computeFingerprint({ fraction: 0.5 }).hash);
+        });
+
+        it('should bound the number of paths and the depth', () => {
+            const wide: Record<string, number> = {};
+            for (let i = 0; i < 600; i++) {
+                wide[`key${i}`] = i;
+            }
+            const capped = computeFingerprint(wide);
+            expect(Object.keys(capped.paths)).to.have.lengthOf(512);
+            expect(capped.truncated).to.be.true;
+
+            let deep: Record<string, unknown> = {};
+            const root = deep;
+            for (let i = 0; i < 50; i++) {
+                deep.next = {};
+                deep = deep.next as Record<string, unknown>;
+            }
+            expect(Object.keys(computeFingerprint(root).paths)).to.have.lengthOf(12);
+        });
+
+        it('should keep keys such as __proto__ as plain paths', () => {
+            const { paths } = computeFingerprint(JSON.parse('{"__proto__":{"polluted":true}}'));
+            expect(Object.keys(paths)).to.deep.equal(['__proto__', '__proto__.polluted']);
+            expect(({} as Record<string, unknown>).polluted).to.be.undefined;
+        });
+    });
+
+    describe('diffFingerprints', () => {
+        it('should list added, removed and retyped paths', () => {
+            const previous = computeFingerprint({ status: { credits: 5, plan: 'pro' } });
+            const current = computeFingerprint({ status: { credits: '5', tier: 'pro' } });
+
+            expect(diffFingerprints(previous, current)).to.deep.equal({
+                added: ['status.tier'],
+                removed: ['status.plan'],
+                retyped: [{ path: 'status.credits', from: 'number', to: 'string' }]
+            });
+        });
+
+        it('should only report types the previous fingerprint never recorded', () => {
+            const previous = mergeFingerprints(computeFingerprint({ credits: 5 }), computeFingerprint({ credits: '5' }));
+
+            expect(diffFingerprints(previous, computeFingerprint({ credits: 5 })).retyped).to.be.empty;
+            expect(diffFingerprints(previous, computeFingerprint({ credits: null })).retyped)
+                .to.deep.equal([{ path: 'credits', from: 'number|string', to: 'null' }]);
+        });
+
+        it('should not confuse paths with object prototype members', () => {
+            const previous = computeFingerprint({ a: 1 });
+            const current = computeFingerprint({ a: 1, constructor: 'x' });
+            expect(diffFingerprints(previous, current)).to.deep.equal({ added: ['constructor'], removed: [], retyped: [] });
+        });
+    });
+
+    describe('mergeFingerprints', () => {
+        it('should keep every path and type seen', () => {
+            const known = computeFingerprint({ credits: 5, plan: 'pro' });
+            const merged = mergeFingerprints(known, computeFingerprint({ credits: '5' }));
+
+            expect(merged.paths).to.deep.equal({ credits: 'number|string', plan: 'string' });
+            expect(merged.hash).to.not.equal(known.hash);
+        });
+
+        it('should not change when a response omits known fields', () => {
+            const known = computeFingerprint({ quota: { remainingFraction: 0.5, resetTime: 'soon' } });
+            const merged = mergeFingerprints(known, computeFingerprint({ quota: {} }));
+
+            expect(merged.hash).to.equal(known.hash);
+        });
+    });
+
+    describe('isSchemaFingerprint', () => {
+        it('should accept a computed fingerprint after a storage round trip', () => {
+            const stored: unknown = JSON.parse(JSON.stringify(computeFingerprint(USER_STATUS_V1)));
+            expect(isSchemaFingerprint(stored)).to.be.true;
+        });
+
+        it('should reject malformed stored values', () => {
+            const valid = computeFingerprint({ a: 1 });
+            expect(isSchemaFingerprint(undefined)).to.be.false;
+            expect(isSchemaFingerprint({ ...valid, hash: 'abc' })).to.be.false;
+            expect(isSchemaFingerprint({ ...valid, paths: [] })).to.be.false;
+            expect(isSchemaFingerprint({ ...valid, paths: { a: 1 } })).to.be.false;
+            expect(isSchemaFingerprint({ hash: valid.hash, paths: valid.paths })).to.be.false;
+        });
+    });
+});
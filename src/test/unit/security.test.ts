@@ -8,8 +8,13 @@ import {
     escapeMarkdown,
     isValidPid,
     isValidCsrfToken,
+    isValidHost,
     isValidAlertThresholds,
+    normalizeHeartbeatInterval,
+    normalizeProbeConcurrency,
+    normalizeScanBounds,
     normalizeScanInterval,
+    normalizeTrustedPaths,
     sanitizeNotificationContent,
     sanitizeLabel
 } from '../../security';
@@ -161,6 +166,40 @@ describe('Security Utilities', () => {
 
 
 
+    describe('isValidHost', () => {
+        it('should accept loopback addresses and host names', () => {
+            expect(isValidHost('127.0.0.1')).to.be.true;
+            expect(isValidHost('localhost')).to.be.true;
+            expect(isValidHost('host.docker.internal')).to.be.true;
+        });
+
+        it('should accept IPv6 literals with or without brackets', () => {
+            expect(isValidHost('::1')).to.be.true;
+            expect(isValidHost('[::1]')).to.be.true;
+            expect(isValidHost('fe80::1')).to.be.true;
+        });
+
+        it('should reject empty and non-string input', () => {
+            expect(isValidHost('')).to.be.false;
+            expect(isValidHost(null as unknown as string)).to.be.false;
+            expect(isValidHost(42 as unknown as string)).to.be.false;
+        });
+
+        it('should reject hosts with ports, paths or credentials', () => {
+            expect(isValidHost('localhost:8080')).to.be.false;
+            expect(isValidHost('localhost/path')).to.be.false;
+            expect(isValidHost('user@localhost')).to.be.false;
+            expect(isValidHost('http://localhost')).to.be.false;
+        });
+
+        it('should reject whitespace and malformed labels', () => {
+            expect(isValidHost('local host')).to.be.false;
+            expect(isValidHost('-localhost')).to.be.false;
+            expect(isValidHost('localhost.')).to.be.false;
+            expect(isValidHost('a..b')).to.be.false;
+        });
+    });
+
     describe('isValidAlertThresholds', () => {
         it('should return true for valid ordered thresholds', () => {
             expect(isValidAlertThresholds({
@@ -326,6 +365,101 @@ describe('Security Utilities', () => {
         });
     });
 
+    describe('normalizeProbeConcurrency', () => {
+        it('should pass through values within range', () => {
+            expect(normalizeProbeConcurrency(1)).to.equal(1);
+            expect(normalizeProbeConcurrency(8)).to.equal(8);
+            expect(normalizeProbeConcurrency(16)).to.equal(16);
+        });
+
+        it('should clamp values outside the range', () => {
+            expect(normalizeProbeConcurrency(0)).to.equal(1);
+            expect(normalizeProbeConcurrency(-5)).to.equal(1);
+            expect(normalizeProbeConcurrency(100)).to.equal(16);
+        });
+
+        it('should floor fractional values', () => {
+            expect(normalizeProbeConcurrency(3.9)).to.equal(3);
+        });
+
+        it('should use fallback for invalid input', () => {
+            expect(normalizeProbeConcurrency('8')).to.equal(4);
+            expect(normalizeProbeConcurrency(NaN)).to.equal(4);
+            expect(normalizeProbeConcurrency(undefined, 2)).to.equal(2);
+        });
+    });
+
+    describe('normalizeTrustedPaths', () => {
+        it('should keep trimmed absolute paths', () => {
+            expect(normalizeTrustedPaths(['  /opt/ag ', '/home/me/ag'])).to.deep.equal(['/opt/ag', '/home/me/ag']);
+        });
+
+        it('should drop relative, empty and non-string entries', () => {
+            expect(normalizeTrustedPaths(['bin', '', 42, null, './ag', '/opt/ag'])).to.deep.equal(['/opt/ag']);
+        });
+
+        it('should deduplicate and cap the list', () => {
+            const many = Array.from({ length: 40 }, (_, i) => `/opt/ag${i % 20}`);
+            expect(normalizeTrustedPaths(many)).to.have.lengthOf(16);
+            expect(normalizeTrustedPaths(['/opt/ag', '/opt/ag'])).to.deep.equal(['/opt/ag']);
+        });
+
+        it('should return an empty list for non-array input', () => {
+            expect(normalizeTrustedPaths('/opt/ag')).to.deep.equal([]);
+            expect(normalizeTrustedPaths(undefined)).to.deep.equal([]);
+        });
+    });
+
+    describe('normalizeScanBounds', () => {
+        it('should pass through consistent bounds', () => {
+            expect(normalizeScanBounds(90, 30, 600)).to.deep.equal({
+                baselineSeconds: 90, minSeconds: 30, maxSeconds: 600
+            });
+        });
+
+        it('should widen the bounds to include the baseline', () => {
+            expect(normalizeScanBounds(120, 300, 60)).to.deep.equal({
+                baselineSeconds: 120, minSeconds: 120, maxSeconds: 120
+            });
+        });
+
+        it('should clamp each value like scanInterval', () => {
+            expect(normalizeScanBounds(10, 1, 100000)).to.deep.equal({
+                baselineSeconds: 30, minSeconds: 30, maxSeconds: 86400
+            });
+        });
+
+        it('should use defaults for invalid input', () => {
+            expect(normalizeScanBounds('90', null, undefined)).to.deep.equal({
+                baselineSeconds: 90, minSeconds: 30, maxSeconds: 600
+            });
+        });
+    });
+
+    describe('normalizeHeartbeatInterval', () => {
+        it('should pass through values within range', () => {
+            expect(normalizeHeartbeatInterval(5)).to.equal(5);
+            expect(normalizeHeartbeatInterval(15)).to.equal(15);
+            expect(normalizeHeartbeatInterval(300)).to.equal(300);
+        });
+
+        it('should treat zero and negative values as disabled', () => {
+            expect(normalizeHeartbeatInterval(0)).to.equal(0);
+            expect(normalizeHeartbeatInterval(-10)).to.equal(0);
+        });
+
+        it('should clamp enabled values to the range', () => {
+            expect(normalizeHeartbeatInterval(1)).to.equal(5);
+            expect(normalizeHeartbeatInterval(1000)).to.equal(300);
+        });
+
+        it('should use fallback for invalid input', () => {
+            expect(normalizeHeartbeatInterval('30')).to.equal(15);
+            expect(normalizeHeartbeatInterval(NaN)).to.equal(15);
+            expect(normalizeHeartbeatInterval(undefined, 0)).to.equal(0);
+        });
+    });
+
     describe('sanitizeNotificationContent', () => {
         it('should return empty string for null/undefined/empty input', () => {
             expect(sanitizeNotificationContent('')).to.equal('');
@@ -4,7 +4,40 @@
  */
 
 import { expect } from 'chai';
-import { ReadinessLevel, SystemClass, ServerTelemetryResponse } from '../../types';
+import * as sinon from 'sinon';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    ConnectionState,
+    ConnectionStateChange,
+    PortProbeOutcome,
+    PortProbeResult,
+    ReadinessLevel,
+    SchemaChange,
+    ServerInstance,
+    SystemClass,
+    ServerTelemetryResponse,
+    TelemetryError,
+    TelemetrySnapshot,
+    UplinkStatus
+} from '../../types';
+import { TelemetryService } from '../../telemetry_service';
+import { classifyConnectError, parseConnectError } from '../../connect_error';
+import { Transport, TransportRequest, TransportResult } from '../../transport';
+import { CommandRequest, CommandRunner } from '../../command_runner';
+import {
+    PS_PROCESSES,
+    SS_LISTENERS,
+    TOKEN,
+    UNLEASH_RESPONSE,
+    WINDOWS_IDENTITY,
+    WINDOWS_PROCESSES
+} from '../fixtures/discovery';
+import { CASCADE_CONFIG_V1, UNKNOWN_SHAPE, USER_STATUS_V1 } from '../fixtures/user_status';
+import { computeFingerprint } from '../../schema_fingerprint';
 
 // Local thresholds for testing (same as defaults in telemetry_service.ts)
 interface AlertThresholds {
@@ -343,6 +376,87 @@ describe('TelemetryService Logic', () => {
         });
     });
 
+    describe('matchesWorkspace', () => {
+        // Simulating the matchesWorkspace logic
+        function matchesWorkspace(workspaceId: string | undefined, hints: string[]): boolean {
+            if (!workspaceId) {
+                return false;
+            }
+
+            const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+            const id = normalize(workspaceId);
+            return id.length > 0 && hints.some(hint => {
+                const normalizedHint = normalize(hint);
+                return normalizedHint.length > 0 && id === normalizedHint;
+            });
+        }
+
+        it('should match a Unix folder URI', () => {
+            expect(matchesWorkspace('file_home_me_proj', ['file:///home/me/proj'])).to.be.true;
+        });
+
+        it('should match an encoded Windows folder URI', () => {
+            expect(matchesWorkspace('file_c_3A_Users_me_proj', ['file:///c%3A/Users/me/proj'])).to.be.true;
+        });
+
+        it('should not match a different folder', () => {
+            expect(matchesWorkspace('file_home_me_proj', ['file:///home/me/other'])).to.be.false;
+            expect(matchesWorkspace('file_home_me_proj', ['file:///home/me/proj2'])).to.be.false;
+        });
+
+        it('should not match without a workspace id or hints', () => {
+            expect(matchesWorkspace(undefined, ['file:///home/me/proj'])).to.be.false;
+            expect(matchesWorkspace('file_home_me_proj', [])).to.be.false;
+            expect(matchesWorkspace('___', ['///'])).to.be.false;
+        });
+    });
+
+    describe('chooseInstance', () => {
+        interface MinimalInstance {
+            pid: number;
+            healthy: boolean;
+            matchesWorkspace: boolean;
+        }
+
+        // Simulating the chooseInstance priority logic
+        function chooseInstance(instances: MinimalInstance[], preferredPid?: number): number | undefined {
+            const healthy = instances.filter(i => i.healthy);
+            const preferred = healthy.find(i => i.pid === preferredPid);
+            if (preferred) {
+                return preferred.pid;
+            }
+            return (healthy.find(i => i.matchesWorkspace) ?? healthy[0])?.pid;
+        }
+
+        it('should prefer the user-selected instance', () => {
+            const instances = [
+                { pid: 10, healthy: true, matchesWorkspace: true },
+                { pid: 20, healthy: true, matchesWorkspace: false }
+            ];
+            expect(chooseInstance(instances, 20)).to.equal(20);
+        });
+
+        it('should ignore an unhealthy preferred instance', () => {
+            const instances = [
+                { pid: 10, healthy: true, matchesWorkspace: false },
+                { pid: 20, healthy: false, matchesWorkspace: false }
+            ];
+            expect(chooseInstance(instances, 20)).to.equal(10);
+        });
+
+        it('should pick the workspace match before the first healthy instance', () => {
+            const instances = [
+                { pid: 10, healthy: true, matchesWorkspace: false },
+                { pid: 20, healthy: true, matchesWorkspace: true }
+            ];
+            expect(chooseInstance(instances)).to.equal(20);
+        });
+
+        it('should return undefined when no instance is healthy', () => {
+            expect(chooseInstance([{ pid: 10, healthy: false, matchesWorkspace: true }])).to.be.undefined;
+        });
+    });
+
     describe('processTelemetryData', () => {
         const thresholds: AlertThresholds = {
             caution: 40,
@@ -574,22 +688,7 @@ describe('TelemetryService Logic', () => {
 
             const configs = cascade.clientModelConfigs as unknown[];
 
-            if (configs.length > 0) {
-                const sample = configs[0];
-                // Guard against null/undefined array elements
-                if (sample && typeof sample === 'object') {
-                    const sampleObj = sample as Record<string, unknown>;
-                    if (!sampleObj.label && !sampleObj.quotaInfo) {
-                        result.warnings.push(
-                            `Config structure may have changed. ` +
-                            `Sample config keys: [${Object.keys(sampleObj).join(', ')}]`
-                        );
-                    }
-                } else if (sample === null || sample === undefined) {
-                    result.warnings.push('First config element is null or undefined');
-                }
-            }
-
+            // Entries are validated one by one when the response is processed
             if (configs.length === 0) {
                 result.warnings.push('clientModelConfigs array is empty - no models configured');
             }
@@ -688,7 +787,7 @@ describe('TelemetryService Logic', () => {
             expect(result.warnings).to.include('clientModelConfigs array is empty - no models configured');
         });
 
-        it('should add warning for unexpected config structure', () => {
+        it('should leave unexpected config structure to entry validation', () => {
             const response = {
                 userStatus: {
                     cascadeModelConfigData: {
@@ -700,7 +799,7 @@ describe('TelemetryService Logic', () => {
             };
             const result = validateServerResponse(response);
             expect(result.valid).to.be.true;
-            expect(result.warnings[0]).to.include('Config structure may have changed');
+            expect(result.warnings).to.be.empty;
         });
 
         it('should track received keys for debugging', () => {
@@ -736,7 +835,7 @@ describe('TelemetryService Logic', () => {
             expect(result.warnings).to.be.empty;
         });
 
-        it('should add warning for null config element', () => {
+        it('should leave a null config element to entry validation', () => {
             const response = {
                 userStatus: {
                     cascadeModelConfigData: {
@@ -746,10 +845,10 @@ describe('TelemetryService Logic', () => {
             };
             const result = validateServerResponse(response);
             expect(result.valid).to.be.true;
-            expect(result.warnings).to.include('First config element is null or undefined');
+            expect(result.warnings).to.be.empty;
         });
 
-        it('should add warning for undefined config element', () => {
+        it('should leave an undefined config element to entry validation', () => {
             const response = {
                 userStatus: {
                     cascadeModelConfigData: {
@@ -759,7 +858,7 @@ describe('TelemetryService Logic', () => {
             };
             const result = validateServerResponse(response);
             expect(result.valid).to.be.true;
-            expect(result.warnings).to.include('First config element is null or undefined');
+            expect(result.warnings).to.be.empty;
         });
 
         it('should handle primitive config element gracefully', () => {
@@ -1071,3 +1170,1682 @@ describe('TelemetryService Logic', () => {
         });
     });
 });
+
+describe('TelemetryService', () => {
+
+    describe('tryFastReconnect', () => {
+        const token = 'a1b2c3d4-e5f6-7890-abcd-ef1234567890';
+        const tokenHash = createHash('sha256').update(token).digest('hex');
+        let procRoot: string;
+        let service: TelemetryService;
+
+        beforeEach(() => {
+            procRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'agt-proc-'));
+            service = new TelemetryService({ procRoot });
+        });
+
+        afterEach(() => {
+            service.dispose();
+            fs.rmSync(procRoot, { recursive: true, force: true });
+        });
+
+        /**
+         * Register the current (live) test process as a fake language server
+         */
+        function writeLiveServer(csrfToken: string): void {
+            const dir = path.join(procRoot, String(process.pid));
+            fs.mkdirSync(dir, { recursive: true });
+            fs.writeFileSync(
+                path.join(dir, 'cmdline'),
+                `language_server\0--csrf_token\0${csrfToken}\0`
+            );
+            fs.symlinkSync('/opt/antigravity/bin/language_server', path.join(dir, 'exe'));
+        }
+
+        it('should reject malformed hints', async () => {
+            expect(await service.tryFastReconnect(undefined)).to.be.false;
+            expect(await service.tryFastReconnect({ pid: 'x', port: 1, tokenHash })).to.be.false;
+            expect(await service.tryFastReconnect({ pid: process.pid, port: 70000, tokenHash })).to.be.false;
+            expect(await service.tryFastReconnect({ pid: process.pid, port: 1, tokenHash: token })).to.be.false;
+        });
+
+        it('should fall back when the process is gone', async () => {
+            // PID 4194304 is valid but practically never allocated
+            const hint = { pid: 4194304, port: 1, tokenHash };
+            expect(await service.tryFastReconnect(hint)).to.be.false;
+        });
+
+        it('should fall back when the token hash no longer matches', async () => {
+            writeLiveServer('ffffffff-ffff-ffff-ffff-ffffffffffff');
+            const hint = { pid: process.pid, port: 1, tokenHash };
+            expect(await service.tryFastReconnect(hint)).to.be.false;
+            expect(service.getUplinkStatus().isConnected).to.be.false;
+        });
+
+        it('should fall back when the persisted port does not answer', async () => {
+            writeLiveServer(token);
+            const hint = { pid: process.pid, port: 1, tokenHash };
+            expect(await service.tryFastReconnect(hint)).to.be.false;
+            expect(service.getUplinkStatus().isConnected).to.be.false;
+        });
+
+        it('should not persist anything while disconnected', () => {
+            expect(service.getUplinkHint()).to.be.undefined;
+        });
+
+        it('should return to offline without scheduling a retry', async () => {
+            writeLiveServer(token);
+            await service.tryFastReconnect({ pid: process.pid, port: 1, tokenHash });
+            expect(service.getConnectionState().state).to.equal(ConnectionState.OFFLINE);
+        });
+    });
+
+    describe('connection state', () => {
+        let procRoot: string;
+        let service: TelemetryService;
+
+        beforeEach(() => {
+            procRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'agt-proc-'));
+            service = new TelemetryService({
+                procRoot,
+                backoffPolicy: { baseMs: 20, maxMs: 50, jitter: 0 }
+            });
+        });
+
+        afterEach(() => {
+            service.dispose();
+            fs.rmSync(procRoot, { recursive: true, force: true });
+        });
+
+        it('should start offline', () => {
+            expect(service.getConnectionState()).to.deep.equal({
+                state: ConnectionState.OFFLINE,
+                nextRetryAt: undefined,
+                retryAttempt: 0
+            });
+        });
+
+        it('should emit discovering then backoff when no server is found', async () => {
+            const changes: ConnectionStateChange[] = [];
+            service.subscribe(event => {
+                if (event.type === 'state-changed') {
+                    changes.push(event.payload);
+                }
+            });
+
+            const before = Date.now();
+            expect(await service.establishUplink()).to.be.false;
+
+            expect(changes.map(c => [c.previous, c.state])).to.deep.equal([
+                [ConnectionState.OFFLINE, ConnectionState.DISCOVERING],
+                [ConnectionState.DISCOVERING, ConnectionState.BACKOFF]
+            ]);
+            expect(changes[1].retryAttempt).to.equal(1);
+            expect(changes[1].nextRetryAt).to.be.within(before + 20, Date.now() + 20);
+        });
+
+        it('should report discovery-failed when no server is found', async () => {
+            const kinds: string[] = [];
+            service.subscribe(event => {
+                if (event.type === 'error') {
+                    kinds.push(event.payload.kind);
+                }
+            });
+
+            await service.establishUplink();
+            expect(kinds).to.deep.equal(['discovery-failed']);
+        });
+
+        it('should retry automatically with growing, capped delays', async () => {
+            const delays: number[] = [];
+            service.subscribe(event => {
+                const change = event.payload as ConnectionStateChange;
+                if (event.type === 'state-changed' && change.state === ConnectionState.BACKOFF) {
+                    delays.push(change.nextRetryAt! - event.timestamp);
+                }
+            });
+
+            await service.establishUplink();
+            await new Promise(resolve => setTimeout(resolve, 200));
+
+            expect(delays.length).to.be.at.least(3);
+            expect(delays[0]).to.be.closeTo(20, 5);
+            expect(delays[1]).to.be.closeTo(40, 5);
+            expect(delays[2]).to.be.closeTo(50, 5);
+        });
+
+        it('should not bypass the backoff when telemetry is requested', async () => {
+            await service.establishUplink();
+            let scans = 0;
+            service.subscribe(event => {
+                if (event.type === 'scan-started') {
+                    scans++;
+                }
+            });
+
+            expect(await service.acquireTelemetry()).to.be.null;
+            expect(scans).to.equal(0);
+            expect(service.getConsecutiveFailures()).to.equal(0);
+        });
+
+        it('should share an uplink attempt in progress with later callers', async () => {
+            let attempts = 0;
+            service.subscribe(event => {
+                if (event.type === 'scan-started') {
+                    attempts++;
+                }
+            });
+
+            const first = service.establishUplink();
+            const second = service.establishUplink();
+            expect(service.isEstablishingUplink()).to.be.true;
+
+            expect(await Promise.all([first, second])).to.deep.equal([false, false]);
+            expect(attempts).to.equal(1);
+            expect(service.isEstablishingUplink()).to.be.false;
+        });
+
+        it('should retry right away on a manual refresh during backoff', async () => {
+            service.dispose();
+            service = new TelemetryService({
+                procRoot,
+                backoffPolicy: { baseMs: 60000, maxMs: 60000, jitter: 0 }
+            });
+            await service.establishUplink();
+            let attempts = 0;
+            service.subscribe(event => {
+                if (event.type === 'scan-started') {
+                    attempts++;
+                }
+            });
+
+            expect(await service.requestManualRefresh()).to.be.null;
+            expect(attempts).to.equal(1);
+            expect(service.getConnectionState()).to.include({
+                state: ConnectionState.BACKOFF,
+                retryAttempt: 2
+            });
+        });
+
+        it('should stop retrying after dispose', async () => {
+            await service.establishUplink();
+            let attempts = 0;
+            service.subscribe(event => {
+                if (event.type === 'scan-started') {
+                    attempts++;
+                }
+            });
+
+            service.dispose();
+            await new Promise(resolve => setTimeout(resolve, 60));
+            expect(attempts).to.equal(0);
+        });
+
+        it('should stay connected when an uplink attempt is cancelled', async () => {
+            const internals = service as unknown as { uplink: UplinkStatus; connectionState: ConnectionState };
+            internals.uplink = {
+                isConnected: true, host: '127.0.0.1', port: 42100,
+                securityToken: 'a1b2c3d4', signalStrength: 100, mode: 'manual'
+            };
+            internals.connectionState = ConnectionState.CONNECTED;
+
+            const controller = new AbortController();
+            controller.abort();
+            expect(await service.establishUplink(controller.signal)).to.be.false;
+
+            expect(service.getConnectionState().state).to.equal(ConnectionState.CONNECTED);
+            expect(service.getUplinkStatus().isConnected).to.be.true;
+        });
+
+        it('should connect when a healthy instance is selected during backoff', async () => {
+            await service.establishUplink();
+            expect(service.getConnectionState().state).to.equal(ConnectionState.BACKOFF);
+
+            const uplink: UplinkStatus = {
+                isConnected: true, pid: 2147483646, host: '127.0.0.1', port: 42100,
+                securityToken: 'a1b2c3d4', signalStrength: 100, mode: 'auto'
+            };
+            (service as unknown as { instances: ServerInstance[] }).instances = [
+                { pid: 2147483646, ports: [42100], uplink, probeResults: [] }
+            ];
+
+            expect(service.selectInstance(2147483646)).to.be.true;
+            expect(service.getConnectionState()).to.include({
+                state: ConnectionState.CONNECTED,
+                retryAttempt: 0
+            });
+        });
+
+        it('should rediscover as soon as the connected process exits', async () => {
+            service.dispose();
+            service = new TelemetryService({ procRoot, watchIntervalMs: 5 });
+            const internals = service as unknown as {
+                uplink: UplinkStatus;
+                connectionState: ConnectionState;
+                markConnected: () => void;
+            };
+            const events: string[] = [];
+            service.subscribe(event => {
+                if (event.type === 'uplink-lost' || event.type === 'state-changed') {
+                    events.push(event.type === 'uplink-lost' ? event.type : event.payload.state);
+                }
+            });
+
+            // No process can have this pid
+            internals.uplink = {
+                isConnected: true, pid: 2147483646, port: 42100,
+                securityToken: 'a1b2c3d4', signalStrength: 100, mode: 'auto'
+            };
+            internals.connectionState = ConnectionState.PROBING;
+            internals.markConnected();
+            await new Promise(resolve => setTimeout(resolve, 40));
+
+            expect(events.slice(0, 3)).to.deep.equal([
+                ConnectionState.CONNECTED, 'uplink-lost', ConnectionState.DISCOVERING
+            ]);
+        });
+
+        it('should notice a rotated token on Windows', async () => {
+            service.dispose();
+            const platformStub = sinon.stub(process, 'platform').value('win32');
+            const commands: CommandRequest[] = [];
+            const rotated = JSON.stringify({
+                ProcessId: process.pid,
+                CommandLine: 'language_server_windows_x64.exe --csrf_token ffffffff-ffff-ffff-ffff-ffffffffffff'
+            });
+            try {
+                service = new TelemetryService({
+                    procRoot,
+                    watchIntervalMs: 1,
+                    commandRunner: {
+                        run: async request => {
+                            commands.push(request);
+                            return { kind: 'output', stdout: rotated, exitCode: 0 };
+                        }
+                    }
+                });
+                const internals = service as unknown as {
+                    uplink: UplinkStatus;
+                    connectionState: ConnectionState;
+                    markConnected: () => void;
+                };
+                const lost = new Promise<void>(resolve => service.subscribe(event => {
+                    if (event.type === 'uplink-lost') {
+                        resolve();
+                    }
+                }));
+
+                internals.uplink = {
+                    isConnected: true, pid: process.pid, port: 42100,
+                    securityToken: 'a1b2c3d4-e5f6-7890-abcd-ef1234567890', signalStrength: 100, mode: 'auto'
+                };
+                internals.connectionState = ConnectionState.PROBING;
+                internals.markConnected();
+                await lost;
+
+                expect(commands[0].file).to.equal('powershell');
+            } finally {
+                platformStub.restore();
+            }
+        });
+    });
+
+    describe('acquireTelemetry', () => {
+        /** Outcome shape returned by the private transmitQuery */
+        interface QueryOutcome {
+            response: ServerTelemetryResponse | null;
+            failure?: TelemetryError;
+        }
+
+        function connectFailure(status: number, body: string): TelemetryError {
+            const connectError = parseConnectError(status, body);
+            return {
+                kind: connectError.inferred ? 'http-status' : 'connect-error',
+                message: connectError.message,
+                statusCode: status,
+                connectError,
+                reason: classifyConnectError(connectError)
+            } as TelemetryError;
+        }
+
+        /** Private members the tests drive directly */
+        interface ServiceInternals {
+            uplink: UplinkStatus;
+            instances: ServerInstance[];
+            connectionState: ConnectionState;
+            transmitQuery: () => Promise<QueryOutcome>;
+        }
+
+        const token = 'a1b2c3d4-e5f6-7890-abcd-ef1234567890';
+        let service: TelemetryService;
+        let internals: ServiceInternals;
+        let received: TelemetrySnapshot[];
+
+        function connectedUplink(pid: number, port: number): UplinkStatus {
+            return { isConnected: true, pid, port, securityToken: token, signalStrength: 100, mode: 'auto' };
+        }
+
+        function createResponse(fraction: number): QueryOutcome {
+            return {
+                response: {
+                    userStatus: {
+                        cascadeModelConfigData: {
+                            clientModelConfigs: [{
+                                label: 'gemini-pro',
+                                modelOrAlias: { model: 'gemini-pro-v1' },
+                                quotaInfo: { remainingFraction: fraction }
+                            }]
+                        }
+                    }
+                }
+            };
+        }
+
+        /**
+         * Stub transmitQuery with responses the test resolves manually
+         */
+        function deferTransmits() {
+            const pending: ((outcome: QueryOutcome) => void)[] = [];
+            const stub = sinon.stub(internals, 'transmitQuery').callsFake(
+                () => new Promise(resolve => pending.push(resolve))
+            );
+            return { stub, pending };
+        }
+
+        beforeEach(() => {
+            service = new TelemetryService();
+            internals = service as unknown as ServiceInternals;
+            internals.uplink = connectedUplink(100, 4100);
+            internals.connectionState = ConnectionState.CONNECTED;
+            received = [];
+            service.subscribe(event => {
+                if (event.type === 'telemetry-received') {
+                    received.push(event.payload as TelemetrySnapshot);
+                }
+            });
+        });
+
+        afterEach(() => {
+            sinon.restore();
+            service.dispose();
+        });
+
+        it('should share one in-flight request between concurrent callers', async () => {
+            const { stub, pending } = deferTransmits();
+
+            const calls = [service.acquireTelemetry(), service.acquireTelemetry(), service.acquireTelemetry()];
+            await Promise.resolve();
+            pending.forEach(resolve => resolve(createResponse(0.5)));
+            const results = await Promise.all(calls);
+
+            expect(stub.callCount).to.equal(1);
+            expect(results[0]).to.not.be.null;
+            expect(results[1]).to.equal(results[0]);
+            expect(results[2]).to.equal(results[0]);
+            expect(received).to.have.lengthOf(1);
+        });
+
+        it('should issue a new request once the previous one settled', async () => {
+            const stub = sinon.stub(internals, 'transmitQuery').resolves(createResponse(0.5));
+
+            await service.acquireTelemetry();
+            await service.acquireTelemetry();
+
+            expect(stub.callCount).to.equal(2);
+        });
+
+        it('should collapse rapid repeated Refresh clicks into one request', async () => {
+            const stub = sinon.stub(internals, 'transmitQuery').resolves(createResponse(0.5));
+
+            const clicks: Promise<TelemetrySnapshot | null>[] = [];
+            for (let i = 0; i < 5; i++) {
+                clicks.push(service.requestManualRefresh());
+            }
+            await Promise.all(clicks);
+
+            // Clicks arriving after the request settled are throttled too
+            await service.requestManualRefresh();
+            await service.requestManualRefresh();
+
+            expect(stub.callCount).to.equal(1);
+            expect(received).to.have.lengthOf(1);
+        });
+
+        it('should allow another manual refresh after the minimum spacing', async () => {
+            const clock = sinon.useFakeTimers({ now: 1_000_000, toFake: ['Date'] });
+            const stub = sinon.stub(internals, 'transmitQuery').resolves(createResponse(0.5));
+
+            await service.requestManualRefresh();
+            clock.tick(1000);
+            await service.requestManualRefresh();
+            clock.tick(1500);
+            await service.requestManualRefresh();
+
+            expect(stub.callCount).to.equal(2);
+        });
+
+        it('should not let periodic scans be throttled by manual refreshes', async () => {
+            const stub = sinon.stub(internals, 'transmitQuery').resolves(createResponse(0.5));
+
+            await service.requestManualRefresh();
+            await service.acquireTelemetry();
+
+            expect(stub.callCount).to.equal(2);
+        });
+
+        it('should drop responses from a previous instance that arrive late', async () => {
+            internals.instances = [{
+                pid: 200,
+                ports: [4200],
+                uplink: connectedUplink(200, 4200),
+                probeResults: []
+            }];
+            const { stub, pending } = deferTransmits();
+
+            const stale = service.acquireTelemetry();
+            await Promise.resolve();
+            expect(service.selectInstance(200)).to.be.true;
+
+            const fresh = service.acquireTelemetry();
+            await Promise.resolve();
+            expect(stub.callCount).to.equal(2);
+
+            pending[1](createResponse(0.9));
+            await fresh;
+            pending[0](createResponse(0.1));
+            await stale;
+
+            expect(received).to.have.lengthOf(1);
+            expect(service.getLastSnapshot()?.systems[0].fuelLevel).to.equal(0.9);
+        });
+
+        it('should degrade the signal on a busy server without rediscovery', async () => {
+            const establish = sinon.stub(service, 'establishUplink').resolves(false);
+            sinon.stub(internals, 'transmitQuery').resolves({
+                response: null,
+                failure: connectFailure(503, '{"code":"unavailable","message":"overloaded"}')
+            });
+
+            expect(await service.acquireTelemetry()).to.be.null;
+
+            expect(establish.called).to.be.false;
+            expect(service.getUplinkStatus().signalStrength).to.equal(75);
+            expect(service.getLastConnectError()?.code).to.equal('unavailable');
+        });
+
+        /**
+         * Collect error payloads emitted by the service
+         */
+        function collectErrors(): TelemetryError[] {
+            const errors: TelemetryError[] = [];
+            service.subscribe(event => {
+                if (event.type === 'error') {
+                    errors.push(event.payload);
+                }
+            });
+            return errors;
+        }
+
+        it('should emit connect-error and http-status kinds for non-200 responses', async () => {
+            sinon.stub(service, 'establishUplink').resolves(false);
+            const transmit = sinon.stub(internals, 'transmitQuery');
+            transmit.onFirstCall().resolves({
+                response: null,
+                failure: connectFailure(503, '{"code":"unavailable","message":"overloaded"}')
+            });
+            transmit.onSecondCall().resolves({ response: null, failure: connectFailure(502, '') });
+            const errors = collectErrors();
+
+            await service.acquireTelemetry();
+            await service.acquireTelemetry();
+
+            expect(errors.map(e => e.kind)).to.deep.equal(['connect-error', 'http-status']);
+        });
+
+        it('should emit schema-invalid for responses without userStatus', async () => {
+            sinon.stub(internals, 'transmitQuery').resolves({ response: {} });
+            const errors = collectErrors();
+
+            await service.acquireTelemetry();
+
+            expect(errors).to.have.lengthOf(1);
+            const [error] = errors;
+            expect(error.kind).to.equal('schema-invalid');
+            if (error.kind === 'schema-invalid') {
+                expect(error.receivedKeys).to.deep.equal([]);
+            }
+        });
+
+        it('should record the response adapter that parsed the snapshot', async () => {
+            sinon.stub(internals, 'transmitQuery').resolves({ response: CASCADE_CONFIG_V1 as ServerTelemetryResponse });
+
+            const snapshot = await service.acquireTelemetry();
+
+            expect(snapshot?.responseAdapter).to.equal('cascade-config-v1');
+            expect(snapshot?.systems.map(s => s.systemId)).to.deep.equal([
+                'MODEL_OPENAI_GPT_OSS_120B_MEDIUM',
+                'MODEL_CLAUDE_4_5_SONNET',
+                'MODEL_PLACEHOLDER_M7'
+            ]);
+            expect(service.getDiagnosticInfo().lastValidation?.adapterId).to.equal('cascade-config-v1');
+        });
+
+        it('should carry the account summary on the snapshot', async () => {
+            sinon.stub(internals, 'transmitQuery').resolves({ response: USER_STATUS_V1 as ServerTelemetryResponse });
+
+            const snapshot = await service.acquireTelemetry();
+
+            expect(snapshot?.account).to.deep.include({ planName: 'Pro', tier: 'TEAMS_TIER_PRO' });
+            expect(snapshot?.account?.promptCredits).to.deep.equal({ available: 41250, monthly: 50000 });
+        });
+
+        it('should carry model capabilities and metadata on each system', async () => {
+            sinon.stub(internals, 'transmitQuery').resolves({ response: USER_STATUS_V1 as ServerTelemetryResponse });
+
+            const snapshot = await service.acquireTelemetry();
+            const gemini = snapshot?.systems.find(s => s.systemId === 'MODEL_PLACEHOLDER_M7');
+
+            expect(gemini?.capabilities).to.deep.equal({ recommended: true, images: true });
+            expect(gemini?.metadata?.tag).to.equal('New');
+            expect(gemini?.extraFields).to.have.keys('supportedMimeTypes');
+        });
+
+        describe('model entry validation', () => {
+            function respondWith(configs: unknown[]) {
+                sinon.stub(internals, 'transmitQuery').resolves({
+                    response: { userStatus: { cascadeModelConfigData: { clientModelConfigs: configs } } } as
+                        ServerTelemetryResponse
+                });
+            }
+
+            it('should report every rejected entry with its index and reason', async () => {
+                respondWith([
+                    { label: 'gemini-pro', quotaInfo: { remainingFraction: 0.5 } },
+                    null,
+                    { label: '   ' },
+                    { label: 'claude', modelOrAlias: { model: 'x'.repeat(300) } },
+                    { label: 'flash', modelOrAlias: { model: ' ' } }
+                ]);
+
+                const snapshot = await service.acquireTelemetry();
+
+                expect(snapshot?.systems).to.have.lengthOf(1);
+                expect(snapshot?.entries).to.deep.equal({
+                    accepted: 1,
+                    rejected: 4,
+                    truncated: 0,
+                    rejections: [
+                        { index: 1, reason: 'Entry is null, not an object' },
+                        { index: 2, reason: 'Label is empty' },
+                        { index: 3, reason: 'Model id is 300 characters (limit 256)', label: 'claude' },
+                        { index: 4, reason: 'Model id is empty', label: 'flash' }
+                    ]
+                });
+                expect(service.getDiagnosticInfo().lastValidation?.warnings)
+                    .to.include('4 model entries rejected, 0 over the 200 model limit');
+            });
+
+            it('should warn about rejected entries instead of inspecting the first one', async () => {
+                respondWith([
+                    { unexpectedField: 'value' },
+                    { label: 'gemini-pro', quotaInfo: { remainingFraction: 0.5 } }
+                ]);
+
+                await service.acquireTelemetry();
+
+                expect(service.getDiagnosticInfo().lastValidation?.warnings)
+                    .to.deep.equal(['1 model entries rejected, 0 over the 200 model limit']);
+            });
+
+            it('should take the empty list warning from the adapter', async () => {
+                respondWith([]);
+
+                await service.acquireTelemetry();
+
+                expect(service.getDiagnosticInfo().lastValidation?.warnings)
+                    .to.deep.equal(['clientModelConfigs array is empty - no models configured']);
+            });
+
+            it('should count entries past the model limit as truncated', async () => {
+                respondWith(Array.from({ length: 205 }, (_, i) => ({ label: `model-${i}` })));
+
+                const snapshot = await service.acquireTelemetry();
+
+                expect(snapshot?.entries).to.include({ accepted: 200, rejected: 0, truncated: 5 });
+            });
+
+            it('should count every rejection but keep only the first few', async () => {
+                respondWith(Array.from({ length: 50 }, () => ({ label: 42 })));
+
+                const snapshot = await service.acquireTelemetry();
+
+                expect(snapshot?.entries?.rejected).to.equal(50);
+                expect(snapshot?.entries?.rejections).to.have.lengthOf(20);
+                expect(snapshot?.entries?.rejections[19].index).to.equal(19);
+            });
+
+            it('should report a clean response as fully accepted', async () => {
+                sinon.stub(internals, 'transmitQuery').resolves(createResponse(0.5));
+
+                const snapshot = await service.acquireTelemetry();
+
+                expect(snapshot?.entries).to.deep.equal({ accepted: 1, rejected: 0, truncated: 0, rejections: [] });
+            });
+        });
+
+        describe('schema drift', () => {
+            function collectSchemaChanges(): SchemaChange[] {
+                const changes: SchemaChange[] = [];
+                service.subscribe(event => {
+                    if (event.type === 'schema-changed') {
+                        changes.push(event.payload);
+                    }
+                });
+                return changes;
+            }
+
+            it('should record the first fingerprint without reporting drift', async () => {
+                sinon.stub(internals, 'transmitQuery').resolves(createResponse(0.5));
+                const changes = collectSchemaChanges();
+
+                await service.acquireTelemetry();
+                await service.acquireTelemetry();
+
+                expect(changes).to.have.lengthOf(1);
+                expect(changes[0].drift).to.be.undefined;
+                expect(service.getDiagnosticInfo().schemaDrift).to.be.undefined;
+            });
+
+            it('should report drift from a persisted fingerprint once', async () => {
+                service.setKnownFingerprint(computeFingerprint(createResponse(0.5).response));
+                const changed = createResponse(0.5);
+                const config = changed.response!.userStatus!.cascadeModelConfigData!.clientModelConfigs![0];
+                (config.quotaInfo as Record<string, unknown>).remainingFraction = '0.5';
+                sinon.stub(internals, 'transmitQuery').resolves(changed);
+                const changes = collectSchemaChanges();
+
+                await service.acquireTelemetry();
+                await service.acquireTelemetry();
+
+                expect(changes).to.have.lengthOf(1);
+                expect(changes[0].drift?.retyped).to.deep.equal([{
+                    path: 'userStatus.cascadeModelConfigData.clientModelConfigs[].quotaInfo.remainingFraction',
+                    from: 'number',
+                    to: 'string'
+                }]);
+                expect(service.getDiagnosticInfo().schemaDrift?.currentHash).to.equal(changes[0].fingerprint.hash);
+            });
+
+            it('should not report fields a response leaves out', async () => {
+                service.setKnownFingerprint(computeFingerprint(createResponse(0.5).response));
+                const exhausted = createResponse(0.5);
+                const config = exhausted.response!.userStatus!.cascadeModelConfigData!.clientModelConfigs![0];
+                delete (config.quotaInfo as Record<string, unknown>).remainingFraction;
+                sinon.stub(internals, 'transmitQuery').resolves(exhausted);
+                const changes = collectSchemaChanges();
+
+                await service.acquireTelemetry();
+
+                expect(changes).to.be.empty;
+                expect(service.getDiagnosticInfo().schemaDrift).to.be.undefined;
+                expect(service.getDiagnosticInfo().missingSchemaPaths).to.deep.equal([
+                    'userStatus.cascadeModelConfigData.clientModelConfigs[].quotaInfo.remainingFraction'
+                ]);
+            });
+
+            it('should report a change only once while responses alternate', async () => {
+                service.setKnownFingerprint(computeFingerprint(createResponse(0.5).response));
+                const extended = createResponse(0.5);
+                const config = extended.response!.userStatus!.cascadeModelConfigData!.clientModelConfigs![0];
+                (config as unknown as Record<string, unknown>).supportsImages = true;
+                const transmit = sinon.stub(internals, 'transmitQuery');
+                transmit.onCall(0).resolves(extended);
+                transmit.onCall(1).resolves(createResponse(0.5));
+                transmit.onCall(2).resolves(extended);
+                const changes = collectSchemaChanges();
+
+                for (let i = 0; i < 3; i++) {
+                    await service.acquireTelemetry();
+                }
+
+                expect(changes).to.have.lengthOf(1);
+                expect(changes[0].drift?.added).to.deep.equal([
+                    'userStatus.cascadeModelConfigData.clientModelConfigs[].supportsImages'
+                ]);
+            });
+
+            it('should report additions past the path limit once', async () => {
+                const response = createResponse(0.5).response!;
+                const filler: Record<string, number> = {};
+                const fillerCount = 512 - Object.keys(computeFingerprint(response).paths).length - 1;
+                for (let i = 0; i < fillerCount; i++) {
+                    filler[`field${i}`] = i;
+                }
+                const full = computeFingerprint({ ...response, filler });
+                expect(full.truncated).to.be.false;
+                service.setKnownFingerprint(full);
+
+                const extended = (name: string): QueryOutcome => {
+                    const outcome = createResponse(0.5);
+                    const config = outcome.response!.userStatus!.cascadeModelConfigData!.clientModelConfigs![0];
+                    (config as unknown as Record<string, unknown>)[name] = true;
+                    return outcome;
+                };
+                const transmit = sinon.stub(internals, 'transmitQuery');
+                transmit.onCall(0).resolves(extended('supportsImages'));
+                transmit.onCall(1).resolves(extended('supportsVideo'));
+                const changes = collectSchemaChanges();
+
+                await service.acquireTelemetry();
+                await service.acquireTelemetry();
+
+                expect(changes).to.have.lengthOf(1);
+                expect(changes[0].fingerprint.truncated).to.be.true;
+                expect(changes[0].drift?.added).to.deep.equal([
+                    'userStatus.cascadeModelConfigData.clientModelConfigs[].supportsImages'
+                ]);
+                expect(service.getDiagnosticInfo().knownFingerprint?.truncated).to.be.true;
+            });
+
+            it('should fingerprint responses that fail validation', async () => {
+                service.setKnownFingerprint(computeFingerprint(createResponse(0.5).response));
+                sinon.stub(internals, 'transmitQuery').resolves({ response: UNKNOWN_SHAPE as ServerTelemetryResponse });
+                const changes = collectSchemaChanges();
+
+                expect(await service.acquireTelemetry()).to.be.null;
+
+                expect(changes).to.have.lengthOf(1);
+                expect(changes[0].drift?.removed).to.include('userStatus.cascadeModelConfigData');
+                expect(changes[0].drift?.added).to.include('userStatus.modelQuotas');
+            });
+
+            it('should ignore a malformed persisted fingerprint', async () => {
+                service.setKnownFingerprint({ hash: 'not-a-hash', paths: {} });
+                sinon.stub(internals, 'transmitQuery').resolves(createResponse(0.5));
+                const changes = collectSchemaChanges();
+
+                await service.acquireTelemetry();
+
+                expect(changes[0].drift).to.be.undefined;
+            });
+        });
+
+        it('should list every adapter in the errors of an unknown response shape', async () => {
+            sinon.stub(internals, 'transmitQuery').resolves({ response: UNKNOWN_SHAPE as ServerTelemetryResponse });
+            const errors = collectErrors();
+
+            expect(await service.acquireTelemetry()).to.be.null;
+
+            const [error] = errors;
+            if (error.kind !== 'schema-invalid') {
+                expect.fail(`unexpected error kind ${error.kind}`);
+            }
+            expect(error.errors.map(e => e.split(':')[0])).to.deep.equal(['user-status-v1', 'cascade-config-v1']);
+        });
+
+        it('should emit transport errors for unreachable ports', async () => {
+            internals.uplink = { ...connectedUplink(100, 1), host: '127.0.0.1' };
+            const errors = collectErrors();
+
+            await service.acquireTelemetry();
+
+            expect(errors[0]).to.include({ kind: 'transport', code: 'ECONNREFUSED' });
+        });
+
+        it('should emit consecutive-failures once the threshold is reached', async () => {
+            sinon.stub(internals, 'transmitQuery').resolves({
+                response: null,
+                failure: { kind: 'transport', message: 'Request timed out', code: 'timeout' }
+            });
+            const errors = collectErrors();
+
+            for (let i = 0; i < 3; i++) {
+                await service.acquireTelemetry();
+            }
+
+            const threshold = errors.filter(e => e.kind === 'consecutive-failures');
+            expect(threshold).to.have.lengthOf(1);
+            expect(threshold[0]).to.include({ reason: 'transport', failureCount: 3 });
+        });
+
+        it('should rediscover and retry once when the token is rejected', async () => {
+            const establish = sinon.stub(service, 'establishUplink').callsFake(async () => {
+                internals.uplink = connectedUplink(300, 4300);
+                return true;
+            });
+            const transmit = sinon.stub(internals, 'transmitQuery');
+            transmit.onFirstCall().resolves({
+                response: null,
+                failure: connectFailure(401, '{"code":"unauthenticated","message":"bad token"}')
+            });
+            transmit.onSecondCall().resolves(createResponse(0.5));
+
+            const snapshot = await service.acquireTelemetry();
+
+            expect(snapshot).to.not.be.null;
+            expect(establish.calledOnce).to.be.true;
+            expect(service.getUplinkStatus().pid).to.equal(300);
+            expect(service.getConsecutiveFailures()).to.equal(0);
+        });
+
+        it('should not loop when a rediscovered token is rejected again', async () => {
+            const establish = sinon.stub(service, 'establishUplink').callsFake(async () => {
+                internals.uplink = connectedUplink(300, 4300);
+                return true;
+            });
+            sinon.stub(internals, 'transmitQuery').resolves({
+                response: null,
+                failure: connectFailure(401, '')
+            });
+
+            expect(await service.acquireTelemetry()).to.be.null;
+            expect(establish.calledOnce).to.be.true;
+            expect(service.getConnectionState().state).to.equal(ConnectionState.BACKOFF);
+        });
+    });
+
+    describe('process verification', () => {
+        const token = 'a1b2c3d4-e5f6-7890-abcd-ef1234567890';
+        let procRoot: string;
+        let requests: TransportRequest[];
+        let results: TransportResult[];
+        let service: TelemetryService;
+
+        const fakeTransport: Transport = {
+            id: 'fake',
+            request: async request => {
+                requests.push(request);
+                return results.shift() ?? { kind: 'error', code: 'ECONNREFUSED', message: 'refused' };
+            },
+            describeEndpoint: () => ({ scheme: 'https', protocol: 'h2' }),
+            dispose: () => undefined
+        };
+
+        beforeEach(() => {
+            procRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'agt-proc-'));
+            requests = [];
+            results = [];
+            service = new TelemetryService({ procRoot, transport: fakeTransport });
+        });
+
+        afterEach(() => {
+            service.dispose();
+            fs.rmSync(procRoot, { recursive: true, force: true });
+        });
+
+        /**
+         * Register the live test process as a language server listening on port 4200
+         */
+        function writeServer(executable: string, extraArgs = ''): void {
+            const dir = path.join(procRoot, String(process.pid));
+            fs.mkdirSync(path.join(dir, 'fd'), { recursive: true });
+            fs.writeFileSync(path.join(dir, 'cmdline'), `language_server\0--csrf_token\0${token}\0${extraArgs}`);
+            fs.symlinkSync(executable, path.join(dir, 'exe'));
+            fs.symlinkSync('socket:[5555]', path.join(dir, 'fd', '3'));
+            fs.mkdirSync(path.join(procRoot, 'net'));
+            fs.writeFileSync(
+                path.join(procRoot, 'net', 'tcp'),
+                '  sl  local_address rem_address   st tx_queue rx_queue tr tm->when retrnsmt   uid  timeout inode\n' +
+                '   0: 0100007F:1068 00000000:0000 0A 00000000:00000000 00:00000000 00000000  1000        0 5555 1\n'
+            );
+        }
+
+        it('should connect to a server in a trusted install location', async () => {
+            writeServer('/opt/antigravity/bin/language_server');
+            results.push({ kind: 'response', status: 200, body: UNLEASH_RESPONSE, oversized: false });
+
+            expect(await service.establishUplink()).to.be.true;
+            expect(requests[0].port).to.equal(4200);
+            expect(service.getDiagnosticInfo().rejectedCandidates).to.deep.equal([]);
+        });
+
+        it('should not send the token to a server outside trusted locations', async () => {
+            writeServer('/tmp/evil/language_server');
+            const errors: TelemetryError[] = [];
+            service.subscribe(event => {
+                if (event.type === 'error') {
+                    errors.push(event.payload);
+                }
+            });
+
+            expect(await service.establishUplink()).to.be.false;
+            expect(requests).to.be.empty;
+            expect(service.getDiagnosticInfo().rejectedCandidates).to.deep.equal([{
+                pid: process.pid,
+                reason: 'untrusted-path',
+                executable: '/tmp/evil/language_server'
+            }]);
+            expect(errors[0]).to.include({ kind: 'discovery-failed' });
+            expect(errors[0].message).to.contain('failed verification');
+        });
+
+        it('should trust configured directories', async () => {
+            writeServer('/tmp/evil/language_server');
+            service.setTrustedRoots(['/tmp/evil']);
+            results.push({ kind: 'response', status: 200, body: UNLEASH_RESPONSE, oversized: false });
+
+            expect(await service.establishUplink()).to.be.true;
+        });
+
+        it('should reject a server whose ports answer with an unexpected body', async () => {
+            writeServer('/opt/antigravity/bin/language_server');
+            results.push({ kind: 'response', status: 200, body: '<html>ok</html>', oversized: false });
+
+            expect(await service.establishUplink()).to.be.false;
+            const info = service.getDiagnosticInfo();
+            expect(info.rejectedCandidates).to.deep.equal([{ pid: process.pid, reason: 'unexpected-response' }]);
+            expect(info.portScans[0].results[0].outcome).to.equal('unexpected-response');
+        });
+
+        it('should not fast-reconnect to an untrusted executable', async () => {
+            writeServer('/tmp/evil/language_server');
+            const tokenHash = createHash('sha256').update(token).digest('hex');
+
+            expect(await service.tryFastReconnect({ pid: process.pid, port: 4200, tokenHash })).to.be.false;
+            expect(requests).to.be.empty;
+        });
+
+        it('should not fast-reconnect to the server of another workspace', async () => {
+            writeServer('/opt/antigravity/bin/language_server', '--workspace_id\0file_home_me_other\0');
+            const tokenHash = createHash('sha256').update(token).digest('hex');
+            service.setWorkspaceHints(['file:///home/me/proj']);
+
+            expect(await service.tryFastReconnect({ pid: process.pid, port: 4200, tokenHash })).to.be.false;
+            expect(requests).to.be.empty;
+            expect(service.getConnectionState().state).to.equal(ConnectionState.OFFLINE);
+        });
+
+        it('should fast-reconnect to the server of an open workspace', async () => {
+            writeServer('/opt/antigravity/bin/language_server', '--workspace_id\0file_home_me_proj\0');
+            const tokenHash = createHash('sha256').update(token).digest('hex');
+            service.setWorkspaceHints(['file:///home/me/proj']);
+            results.push({ kind: 'response', status: 200, body: UNLEASH_RESPONSE, oversized: false });
+
+            expect(await service.tryFastReconnect({ pid: process.pid, port: 4200, tokenHash })).to.be.true;
+            expect(requests[0].port).to.equal(4200);
+        });
+    });
+
+    describe('injected command runner', () => {
+        let commands: CommandRequest[];
+        let service: TelemetryService;
+
+        const acceptingTransport: Transport = {
+            id: 'fake',
+            request: async () => ({ kind: 'response', status: 200, body: UNLEASH_RESPONSE, oversized: false }),
+            describeEndpoint: () => ({ scheme: 'https', protocol: 'h2' }),
+            dispose: () => undefined
+        };
+
+        /** Replays recorded tool output; procfs is unreadable so every lookup uses a command */
+        const recordedRunner: CommandRunner = {
+            run: async request => {
+                commands.push(request);
+                const flags = request.args.join(' ');
+                if (request.file === 'ps' && flags.startsWith('-axww')) {
+                    return { kind: 'output', stdout: PS_PROCESSES, exitCode: 0 };
+                }
+                if (request.file === 'ps' && flags.startsWith('-o uid=,comm=')) {
+                    return {
+                        kind: 'output',
+                        stdout: `${process.getuid?.()} /opt/antigravity/bin/language_server\n`,
+                        exitCode: 0
+                    };
+                }
+                if (request.file === 'ss') {
+                    return { kind: 'output', stdout: SS_LISTENERS, exitCode: 0 };
+                }
+                return { kind: 'error', code: 'ENOENT', message: `spawn ${request.file} ENOENT` };
+            }
+        };
+
+        beforeEach(() => {
+            commands = [];
+            service = new TelemetryService({
+                procRoot: path.join(os.tmpdir(), 'agt-missing-proc'),
+                transport: acceptingTransport,
+                commandRunner: recordedRunner
+            });
+        });
+
+        afterEach(() => {
+            service.dispose();
+        });
+
+        it('should discover through the command runner when procfs is unavailable', async () => {
+            expect(await service.establishUplink()).to.be.true;
+
+            expect(service.getUplinkStatus()).to.include({ pid: 8812, port: 42100, securityToken: TOKEN });
+            expect(commands.map(c => c.file)).to.deep.equal(['ps', 'ps', 'ss']);
+            expect(commands[1].args).to.deep.equal(['-o', 'uid=,comm=', '-p', '8812']);
+        });
+
+        it('should report which discovery strategies were used', async () => {
+            await service.establishUplink();
+
+            const discovery = service.getDiagnosticInfo().discovery;
+            expect(discovery.processes.map(a => [a.strategy, a.outcome])).to.deep.equal([
+                ['procfs', 'unavailable'],
+                ['ps', 'ok']
+            ]);
+            expect(discovery.ports).to.have.lengthOf(1);
+            expect(discovery.ports[0].pid).to.equal(8812);
+            expect(discovery.ports[0].attempts.map(a => a.strategy)).to.deep.equal(['procfs', 'ss']);
+        });
+
+        it('should cap output and time for every command', async () => {
+            await service.establishUplink();
+
+            for (const command of commands) {
+                expect(command.timeoutMs).to.be.within(1, 10000);
+                expect(command.maxBytes).to.be.within(1, 4 * 1024 * 1024);
+            }
+        });
+
+        describe('on Windows', () => {
+            /** Private members the tests drive directly */
+            interface LookupInternals {
+                readProcessBeacon(pid: number, signal: AbortSignal): Promise<unknown>;
+                inspectProcess(pid: number, signal: AbortSignal): Promise<unknown>;
+            }
+
+            const windowsRunner: CommandRunner = {
+                run: async request => {
+                    commands.push(request);
+                    const script = request.args[request.args.length - 1];
+                    return {
+                        kind: 'output',
+                        stdout: script.includes('GetOwner') ? WINDOWS_IDENTITY : WINDOWS_PROCESSES,
+                        exitCode: 0
+                    };
+                }
+            };
+
+            let internals: LookupInternals;
+
+            beforeEach(() => {
+                sinon.stub(process, 'platform').value('win32');
+                internals = new TelemetryService({
+                    transport: acceptingTransport,
+                    commandRunner: windowsRunner
+                }) as unknown as LookupInternals;
+            });
+
+            afterEach(() => {
+                (internals as unknown as TelemetryService).dispose();
+                sinon.restore();
+            });
+
+            it('should pick a single process from a fixed script', async () => {
+                const signal = new AbortController().signal;
+
+                expect(await internals.readProcessBeacon(7420, signal))
+                    .to.deep.equal({ pid: 7420, token: TOKEN, workspaceId: 'file_c_3A_proj' });
+                expect(await internals.inspectProcess(7420, signal)).to.deep.include({ user: 'me' });
+                expect(await internals.readProcessBeacon(7433, signal)).to.be.null;
+                expect(await internals.inspectProcess(742, signal)).to.be.null;
+
+                expect(commands.map(c => c.file)).to.deep.equal(Array(4).fill('powershell'));
+                for (const command of commands) {
+                    expect(command.args.join(' ')).to.not.match(/\b74\d+\b/);
+                }
+            });
+        });
+    });
+
+    describe('injected transport', () => {
+        /** Private members the tests drive directly */
+        interface TransportInternals {
+            uplink: UplinkStatus;
+            connectionState: ConnectionState;
+            probeFrequency: (port: number, token: string, signal: AbortSignal) => Promise<PortProbeResult>;
+        }
+
+        const token = 'a1b2c3d4-e5f6-7890-abcd-ef1234567890';
+        let requests: TransportRequest[];
+        let results: TransportResult[];
+        let service: TelemetryService;
+        let internals: TransportInternals;
+
+        const fakeTransport: Transport = {
+            id: 'fake',
+            request: async request => {
+                requests.push(request);
+                return results.shift() ?? { kind: 'error', code: 'ECONNREFUSED', message: 'refused' };
+            },
+            describeEndpoint: () => ({ scheme: 'https', protocol: 'h2' }),
+            dispose: () => undefined
+        };
+
+        function probe(): Promise<PortProbeResult> {
+            return internals.probeFrequency(4200, token, new AbortController().signal);
+        }
+
+        beforeEach(() => {
+            requests = [];
+            results = [];
+            service = new TelemetryService({ transport: fakeTransport });
+            internals = service as unknown as TransportInternals;
+        });
+
+        afterEach(() => {
+            service.dispose();
+        });
+
+        it('should send probes through the injected transport', async () => {
+            results.push({ kind: 'response', status: 200, body: UNLEASH_RESPONSE, oversized: false });
+
+            expect(await probe()).to.include({ port: 4200, outcome: 'accepted' });
+            expect(requests[0]).to.include({
+                host: '127.0.0.1',
+                port: 4200,
+                path: '/exa.language_server_pb.LanguageServerService/GetUnleashData'
+            });
+            expect(requests[0].headers).to.include({ 'X-Codeium-Csrf-Token': token });
+        });
+
+        it('should map transport failures to probe outcomes', async () => {
+            results.push(
+                { kind: 'error', code: 'ECONNREFUSED', message: 'refused' },
+                { kind: 'error', code: 'timeout', message: 'Request timed out' },
+                { kind: 'error', code: 'aborted', message: 'Request aborted' },
+                { kind: 'response', status: 200, body: null, oversized: true },
+                { kind: 'response', status: 401, body: '{"code":"unauthenticated"}', oversized: false },
+                { kind: 'response', status: 200, body: '[]', oversized: false }
+            );
+
+            const outcomes: PortProbeResult[] = [];
+            for (let i = 0; i < 6; i++) {
+                outcomes.push(await probe());
+            }
+
+            expect(outcomes.map(o => o.outcome)).to.deep.equal([
+                'refused', 'timeout', 'aborted', 'oversized', 'http-status', 'unexpected-response'
+            ]);
+            expect(outcomes[4]).to.include({ statusCode: 401, errorCode: 'unauthenticated' });
+        });
+
+        it('should only accept bodies shaped like a GetUnleashData reply', async () => {
+            const bodies = [
+                '{}',
+                '{"status":"ok","version":"1.2.3"}',
+                '{"toggles":{"name":"a"}}',
+                '{"toggles":[{"enabled":true}]}',
+                '{"toggles":[{"name":"a","enabled":"yes"}]}',
+                '{"toggles":[]}'
+            ];
+            for (const body of bodies) {
+                results.push({ kind: 'response', status: 200, body, oversized: false });
+            }
+
+            const outcomes: string[] = [];
+            for (let i = 0; i < bodies.length; i++) {
+                outcomes.push((await probe()).outcome);
+            }
+
+            expect(outcomes).to.deep.equal([
+                'unexpected-response',
+                'unexpected-response',
+                'unexpected-response',
+                'unexpected-response',
+                'unexpected-response',
+                'accepted'
+            ]);
+        });
+
+        it('should acquire telemetry through the injected transport', async () => {
+            internals.uplink = {
+                isConnected: true, pid: 100, port: 4200, securityToken: token, signalStrength: 100, mode: 'auto'
+            };
+            internals.connectionState = ConnectionState.CONNECTED;
+            results.push({
+                kind: 'response',
+                status: 200,
+                body: JSON.stringify({
+                    userStatus: {
+                        cascadeModelConfigData: {
+                            clientModelConfigs: [{
+                                label: 'gemini-pro',
+                                modelOrAlias: { model: 'gemini-pro-v1' },
+                                quotaInfo: { remainingFraction: 0.5 }
+                            }]
+                        }
+                    }
+                }),
+                oversized: false
+            });
+
+            const snapshot = await service.acquireTelemetry();
+
+            expect(snapshot?.systems).to.have.lengthOf(1);
+            expect(requests[0].path).to.equal('/exa.language_server_pb.LanguageServerService/GetUserStatus');
+            expect(service.getDiagnosticInfo().transport).to.deep.equal({
+                id: 'fake',
+                endpoint: { scheme: 'https', protocol: 'h2' }
+            });
+        });
+    });
+
+    describe('certificate pinning', () => {
+        /** Private members the tests drive directly */
+        interface PinInternals {
+            uplink: UplinkStatus;
+            certificateVerifier: (host: string, port: number, pid?: number) => (fp: string | undefined) => boolean;
+            prunePins: (livePids: number[]) => void;
+        }
+
+        let service: TelemetryService;
+        let internals: PinInternals;
+        let mismatches: TelemetryError[];
+
+        beforeEach(() => {
+            service = new TelemetryService();
+            internals = service as unknown as PinInternals;
+            mismatches = [];
+            service.subscribe(event => {
+                if (event.type === 'error' && event.payload.kind === 'certificate-mismatch') {
+                    mismatches.push(event.payload);
+                }
+            });
+        });
+
+        afterEach(() => {
+            service.dispose();
+        });
+
+        it('should pin the first certificate and accept it again', () => {
+            const verify = internals.certificateVerifier('127.0.0.1', 4200, 100);
+
+            expect(verify('AA:01')).to.be.true;
+            expect(verify('AA:01')).to.be.true;
+            expect(mismatches).to.be.empty;
+        });
+
+        it('should refuse a different certificate and warn once', () => {
+            const verify = internals.certificateVerifier('127.0.0.1', 4200, 100);
+            verify('AA:01');
+
+            expect(verify('BB:02')).to.be.false;
+            expect(verify('BB:02')).to.be.false;
+            expect(mismatches).to.have.lengthOf(1);
+            expect(mismatches[0]).to.include({ pid: 100, port: 4200, pinned: 'AA:01', received: 'BB:02' });
+        });
+
+        it('should refuse plain HTTP once a certificate is pinned', () => {
+            const verify = internals.certificateVerifier('127.0.0.1', 4200, 100);
+
+            expect(verify(undefined)).to.be.true;
+            verify('AA:01');
+            expect(verify(undefined)).to.be.false;
+        });
+
+        it('should pin per pid and port', () => {
+            internals.certificateVerifier('127.0.0.1', 4200, 100)('AA:01');
+
+            expect(internals.certificateVerifier('127.0.0.1', 4201, 100)('BB:02')).to.be.true;
+            expect(internals.certificateVerifier('127.0.0.1', 4200, 200)('CC:03')).to.be.true;
+        });
+
+        it('should clear pins when the pid is gone', () => {
+            internals.certificateVerifier('127.0.0.1', 4200, 100)('AA:01');
+
+            internals.prunePins([200]);
+
+            expect(internals.certificateVerifier('127.0.0.1', 4200, 100)('BB:02')).to.be.true;
+        });
+
+        it('should report the pin of the current uplink', () => {
+            internals.certificateVerifier('127.0.0.1', 4200, 100)('AA:01');
+            internals.uplink = { isConnected: true, pid: 100, port: 4200, signalStrength: 100 };
+
+            expect(service.getCertificatePin()).to.equal('AA:01');
+            expect(service.getDiagnosticInfo().certificatePin).to.equal('AA:01');
+        });
+    });
+
+    describe('periodic scans', () => {
+        const bounds = { baselineSeconds: 90, minSeconds: 30, maxSeconds: 600 };
+        let service: TelemetryService;
+        let clock: sinon.SinonFakeTimers;
+        let acquire: sinon.SinonStub;
+
+        beforeEach(() => {
+            clock = sinon.useFakeTimers({ now: 1_000_000, toFake: ['Date', 'setTimeout', 'clearTimeout'] });
+            service = new TelemetryService();
+            acquire = sinon.stub(service, 'acquireTelemetry').resolves(null);
+        });
+
+        afterEach(() => {
+            service.dispose();
+            sinon.restore();
+        });
+
+        it('should scan at the baseline interval without data', async () => {
+            service.startPeriodicScans(bounds);
+            expect(service.getScanSchedule().nextScanAt).to.equal(1_000_000 + 90000);
+
+            await clock.tickAsync(89999);
+            expect(acquire.called).to.be.false;
+            await clock.tickAsync(1);
+            expect(acquire.calledOnce).to.be.true;
+            expect(service.getScanSchedule().nextScanAt).to.equal(Date.now() + 90000);
+        });
+
+        it('should not scan while paused and refresh on resume', async () => {
+            service.startPeriodicScans(bounds);
+            service.setScansPaused(true);
+
+            await clock.tickAsync(200000);
+            expect(acquire.called).to.be.false;
+            expect(service.getScanSchedule()).to.include({ paused: true, nextScanAt: undefined });
+
+            service.setScansPaused(false);
+            await clock.tickAsync(0);
+            expect(acquire.calledOnce).to.be.true;
+        });
+
+        it('should wait out the minimum interval when resuming right after a scan', async () => {
+            (service as unknown as { lastSnapshot: TelemetrySnapshot }).lastSnapshot = {
+                timestamp: Date.now() - 10000,
+                systems: [],
+                overallReadiness: ReadinessLevel.OFFLINE,
+                activeAlerts: 0
+            };
+            service.startPeriodicScans(bounds);
+            service.setScansPaused(true);
+            service.setScansPaused(false);
+
+            expect(service.getScanSchedule().nextScanAt).to.equal(Date.now() + 20000);
+        });
+
+        describe('quota reset scans', () => {
+            /** Private members the tests drive directly */
+            interface ResetInternals {
+                planResetScan: (snapshot: TelemetrySnapshot) => void;
+            }
+
+            function withReset(offsetMs: number, fuelLevel: number = 0): TelemetrySnapshot {
+                return {
+                    timestamp: Date.now(),
+                    systems: [{
+                        systemId: 'gemini-pro',
+                        designation: 'Gemini Pro',
+                        fuelLevel,
+                        replenishmentEta: new Date(Date.now() + offsetMs).toISOString(),
+                        readiness: ReadinessLevel.CRITICAL,
+                        systemClass: SystemClass.GEMINI_PRO,
+                        isOnline: true
+                    }],
+                    overallReadiness: ReadinessLevel.CRITICAL,
+                    activeAlerts: 1
+                };
+            }
+
+            it('should scan shortly after the earliest reset', async () => {
+                (service as unknown as ResetInternals).planResetScan(withReset(60000));
+                expect(service.getScanSchedule().nextResetScanAt).to.equal(Date.now() + 70000);
+
+                await clock.tickAsync(69999);
+                expect(acquire.called).to.be.false;
+                await clock.tickAsync(1);
+                expect(acquire.calledOnce).to.be.true;
+            });
+
+            it('should retry a limited number of times while the reset is overdue', () => {
+                const internals = service as unknown as ResetInternals;
+                const overdue = withReset(-5000);
+
+                for (let i = 0; i < 3; i++) {
+                    internals.planResetScan(overdue);
+                    expect(service.getScanSchedule().nextResetScanAt).to.equal(Date.now() + 30000);
+                }
+                internals.planResetScan(overdue);
+                expect(service.getScanSchedule().nextResetScanAt).to.be.undefined;
+            });
+
+            it('should ignore full models and distant resets', () => {
+                const internals = service as unknown as ResetInternals;
+
+                internals.planResetScan(withReset(60000, 1));
+                expect(service.getScanSchedule().nextResetScanAt).to.be.undefined;
+
+                internals.planResetScan(withReset(7 * 24 * 60 * 60 * 1000));
+                expect(service.getScanSchedule().nextResetScanAt).to.be.undefined;
+            });
+
+            it('should hold the reset scan while paused and plan it again on resume', async () => {
+                const snapshot = withReset(60000);
+                (service as unknown as { lastSnapshot: TelemetrySnapshot }).lastSnapshot = snapshot;
+                (service as unknown as ResetInternals).planResetScan(snapshot);
+
+                service.setScansPaused(true);
+                expect(service.getScanSchedule().nextResetScanAt).to.be.undefined;
+                (service as unknown as ResetInternals).planResetScan(snapshot);
+                expect(service.getScanSchedule().nextResetScanAt).to.be.undefined;
+
+                await clock.tickAsync(120000);
+                expect(acquire.called).to.be.false;
+
+                service.setScansPaused(false);
+                expect(service.getScanSchedule().nextResetScanAt).to.equal(Date.now() + 30000);
+                await clock.tickAsync(30000);
+                expect(acquire.calledOnce).to.be.true;
+            });
+
+            it('should cancel the reset scan on dispose', async () => {
+                (service as unknown as ResetInternals).planResetScan(withReset(1000));
+                service.dispose();
+
+                await clock.tickAsync(20000);
+                expect(acquire.called).to.be.false;
+            });
+        });
+
+        it('should not resume scans that were stopped', async () => {
+            service.setScansPaused(true);
+            service.setScansPaused(false);
+
+            await clock.tickAsync(1000);
+            expect(acquire.called).to.be.false;
+            expect(service.getScanSchedule().bounds).to.be.undefined;
+        });
+    });
+
+    describe('heartbeat', () => {
+        /** Private members the tests drive directly */
+        interface HeartbeatInternals {
+            uplink: UplinkStatus;
+            connectionState: ConnectionState;
+            probeFrequency: () => Promise<PortProbeResult>;
+            heartbeat: () => Promise<void>;
+        }
+
+        let service: TelemetryService;
+        let internals: HeartbeatInternals;
+
+        function beat(outcome: PortProbeOutcome, errorCode?: PortProbeResult['errorCode']): PortProbeResult {
+            return { port: 4200, outcome, durationMs: 3, ...(errorCode ? { statusCode: 401, errorCode } : {}) };
+        }
+
+        beforeEach(() => {
+            service = new TelemetryService();
+            internals = service as unknown as HeartbeatInternals;
+            internals.uplink = {
+                isConnected: true, pid: 100, port: 4200,
+                securityToken: 'a1b2c3d4-e5f6-7890-abcd-ef1234567890', signalStrength: 100, mode: 'auto'
+            };
+            internals.connectionState = ConnectionState.CONNECTED;
+        });
+
+        afterEach(() => {
+            sinon.restore();
+            service.dispose();
+        });
+
+        it('should degrade on a missed heartbeat without counting a scan failure', async () => {
+            sinon.stub(internals, 'probeFrequency').resolves(beat('timeout'));
+
+            await internals.heartbeat();
+
+            expect(service.getConnectionState().state).to.equal(ConnectionState.DEGRADED);
+            expect(service.getConsecutiveFailures()).to.equal(0);
+            expect(service.getHeartbeatStatus()).to.include({ consecutiveMisses: 1 });
+        });
+
+        it('should recover the connected state on the next successful heartbeat', async () => {
+            const probe = sinon.stub(internals, 'probeFrequency');
+            probe.onFirstCall().resolves(beat('refused'));
+            probe.onSecondCall().resolves(beat('accepted'));
+
+            await internals.heartbeat();
+            await internals.heartbeat();
+
+            expect(service.getConnectionState().state).to.equal(ConnectionState.CONNECTED);
+            expect(service.getHeartbeatStatus().consecutiveMisses).to.equal(0);
+            expect(service.getUplinkStatus().lastContact).to.be.a('number');
+        });
+
+        it('should leave scan degradation to the next scan', async () => {
+            internals.uplink.signalStrength = 75;
+            internals.connectionState = ConnectionState.DEGRADED;
+            sinon.stub(internals, 'probeFrequency').resolves(beat('accepted'));
+
+            await internals.heartbeat();
+
+            expect(service.getConnectionState().state).to.equal(ConnectionState.DEGRADED);
+        });
+
+        it('should rediscover after repeated misses', async () => {
+            sinon.stub(internals, 'probeFrequency').resolves(beat('refused'));
+            const establish = sinon.stub(service, 'establishUplink').resolves(false);
+            let lost = 0;
+            service.subscribe(event => {
+                if (event.type === 'uplink-lost') {
+                    lost++;
+                }
+            });
+
+            await internals.heartbeat();
+            await internals.heartbeat();
+            expect(establish.called).to.be.false;
+            await internals.heartbeat();
+
+            expect(establish.calledOnce).to.be.true;
+            expect(lost).to.equal(1);
+            expect(service.getConsecutiveFailures()).to.equal(0);
+        });
+
+        it('should rediscover immediately when the token is rejected', async () => {
+            sinon.stub(internals, 'probeFrequency').resolves(beat('http-status', 'unauthenticated'));
+            const establish = sinon.stub(service, 'establishUplink').resolves(false);
+
+            await internals.heartbeat();
+
+            expect(establish.calledOnce).to.be.true;
+        });
+
+        it('should not probe without a connected uplink', async () => {
+            internals.uplink = { isConnected: false, signalStrength: 0 };
+            const probe = sinon.stub(internals, 'probeFrequency').resolves(beat('accepted'));
+
+            await internals.heartbeat();
+
+            expect(probe.called).to.be.false;
+        });
+
+        it('should report a disabled heartbeat', () => {
+            service.startHeartbeat(0);
+            expect(service.getHeartbeatStatus().intervalSeconds).to.equal(0);
+            service.startHeartbeat(30);
+            expect(service.getHeartbeatStatus().intervalSeconds).to.equal(30);
+        });
+    });
+
+    describe('cancellation', () => {
+        const tokenEnvVar = 'AGT_TEST_CANCEL_TOKEN';
+        let server: net.Server;
+        let sockets: net.Socket[];
+        let port: number;
+        let service: TelemetryService;
+
+        /** Wait long enough for requests to reach the silent server */
+        const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+        beforeEach(async () => {
+            // Accepts connections but never answers, so every request hangs
+            sockets = [];
+            server = net.createServer(socket => sockets.push(socket));
+            await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+            port = (server.address() as net.AddressInfo).port;
+
+            process.env[tokenEnvVar] = 'a1b2c3d4-e5f6-7890-abcd-ef1234567890';
+            service = new TelemetryService();
+            service.configureConnection({ host: '127.0.0.1', port, tokenFile: '', tokenEnvVar });
+        });
+
+        afterEach(async () => {
+            service.dispose();
+            delete process.env[tokenEnvVar];
+            sockets.forEach(socket => socket.destroy());
+            await new Promise(resolve => server.close(resolve));
+        });
+
+        it('should cancel an uplink attempt through the caller signal', async () => {
+            const controller = new AbortController();
+            const attempt = service.establishUplink(controller.signal);
+            await settle();
+            controller.abort();
+
+            expect(await attempt).to.be.false;
+            expect(service.getConnectionState().state).to.equal(ConnectionState.OFFLINE);
+        });
+
+        it('should cancel an uplink attempt on dispose without emitting events', async () => {
+            const events: string[] = [];
+            const attempt = service.establishUplink();
+            await settle();
+            service.subscribe(event => events.push(event.type));
+            service.dispose();
+
+            expect(await attempt).to.be.false;
+            expect(events).to.be.empty;
+        });
+
+        it('should let a new attempt start once the target changes', async () => {
+            const first = service.establishUplink();
+            await settle();
+
+            service.configureConnection({ host: '127.0.0.1', port: port + 1, tokenFile: '', tokenEnvVar });
+            expect(await first).to.be.false;
+
+            let started = false;
+            service.subscribe(event => {
+                started ||= event.type === 'scan-started';
+            });
+            const second = service.establishUplink();
+            expect(started).to.be.true;
+            service.dispose();
+            await second;
+        });
+
+        it('should cancel an in-flight telemetry request on dispose', async () => {
+            const internals = service as unknown as { uplink: UplinkStatus };
+            internals.uplink = {
+                isConnected: true,
+                host: '127.0.0.1',
+                port,
+                securityToken: 'a1b2c3d4-e5f6-7890-abcd-ef1234567890',
+                signalStrength: 100,
+                mode: 'manual'
+            };
+
+            const request = service.acquireTelemetry();
+            await settle();
+            service.dispose();
+
+            expect(await request).to.be.null;
+            expect(service.getConsecutiveFailures()).to.equal(0);
+            expect(service.getUplinkStatus().signalStrength).to.equal(100);
+        });
+    });
+});
@@ -0,0 +1,341 @@
+/**
+ * AG Telemetry - Transport Unit Tests
+ * Tests for protocol negotiation, connection reuse and failure mapping
+ */
+
+import { expect } from 'chai';
+import { X509Certificate } from 'crypto';
+import * as http from 'http';
+import * as http2 from 'http2';
+import * as https from 'https';
+import * as net from 'net';
+import { CERTIFICATE_REFUSED, NodeTransport, TransportRequest } from '../../transport';
+import { TEST_CERT, TEST_KEY } from '../helpers/tls';
+
+/** Server under test plus the number of TCP connections and requests it accepted */
+interface TestServer {
+    port: number;
+    connections: () => number;
+    requests: () => number;
+    close: () => Promise<void>;
+}
+
+type Handler = (body: string) => { status: number; body: string };
+
+const echo: Handler = body => ({ status: 200, body: JSON.stringify({ received: JSON.parse(body) }) });
+
+async function listen(server: net.Server): Promise<TestServer> {
+    let connections = 0;
+    let requests = 0;
+    const sockets = new Set<net.Socket>();
+    server.on('request', () => requests++);
+    server.on('connection', (socket: net.Socket) => {
+        connections++;
+        sockets.add(socket);
+        socket.on('close', () => sockets.delete(socket));
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return {
+        port: (server.address() as net.AddressInfo).port,
+        connections: () => connections,
+        requests: () => requests,
+        close: async () => {
+            sockets.forEach(socket => socket.destroy());
+            await new Promise(resolve => server.close(resolve));
+        }
+    };
+}
+
+function respond(handler: Handler) {
+    return (req: http.IncomingMessage | http2.Http2ServerRequest, res: http.ServerResponse | http2.Http2ServerResponse) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            const reply = handler(body);
+            res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+            res.end(reply.body);
+        });
+    };
+}
+
+function startHttp2(handler: Handler = echo): Promise<TestServer> {
+    return listen(http2.createSecureServer({ key: TEST_KEY, cert: TEST_CERT }, respond(handler)));
+}
+
+function startHttps(handler: Handler = echo): Promise<TestServer> {
+    return listen(https.createServer({ key: TEST_KEY, cert: TEST_CERT }, respond(handler)));
+}
+
+function startHttp(handler: Handler = echo): Promise<TestServer> {
+    return listen(http.createServer(respond(handler)));
+}
+
+describe('Transport', () => {
+    let transport: NodeTransport;
+    let server: TestServer | undefined;
+
+    function request(port: number, overrides: Partial<TransportRequest> = {}): TransportRequest {
+        return {
+            host: '127.0.0.1',
+            port,
+            path: '/exa.language_server_pb.LanguageServerService/GetUnleashData',
+            headers: { 'Content-Type': 'application/json', 'X-Codeium-Csrf-Token': 'token' },
+            body: '{"ping":true}',
+            timeoutMs: 2000,
+            maxBytes: 64 * 1024,
+            signal: new AbortController().signal,
+            ...overrides
+        };
+    }
+
+    beforeEach(() => {
+        transport = new NodeTransport();
+        server = undefined;
+    });
+
+    afterEach(async () => {
+        transport.dispose();
+        await server?.close();
+    });
+
+    describe('negotiation', () => {
+        it('should speak HTTP/2 when the server offers it', async () => {
+            server = await startHttp2();
+
+            const result = await transport.request(request(server.port));
+
+            expect(result).to.deep.equal({
+                kind: 'response', status: 200, body: '{"received":{"ping":true}}', oversized: false
+            });
+            expect(transport.describeEndpoint('127.0.0.1', server.port)).to.deep.equal({
+                scheme: 'https', protocol: 'h2'
+            });
+        });
+
+        it('should use HTTP/1.1 over TLS when HTTP/2 is not offered', async () => {
+            server = await startHttps();
+
+            const result = await transport.request(request(server.port));
+
+            expect(result).to.include({ kind: 'response', status: 200 });
+            expect(transport.describeEndpoint('127.0.0.1', server.port)).to.deep.equal({
+                scheme: 'https', protocol: 'http/1.1'
+            });
+        });
+
+        it('should fall back to plain HTTP when the port does not speak TLS', async () => {
+            server = await startHttp();
+
+            const result = await transport.request(request(server.port));
+
+            expect(result).to.include({ kind: 'response', status: 200 });
+            expect(transport.describeEndpoint('127.0.0.1', server.port)).to.deep.equal({
+                scheme: 'http', protocol: 'http/1.1'
+            });
+        });
+
+        it('should not take a reset handshake for plain HTTP', async () => {
+            server = await listen(net.createServer(socket => socket.resetAndDestroy()));
+
+            const result = await transport.request(request(server.port));
+
+            expect(result).to.include({ kind: 'error', code: 'ECONNRESET' });
+            expect(transport.describeEndpoint('127.0.0.1', server.port)).to.be.undefined;
+            expect(server.connections()).to.equal(1);
+        });
+
+        it('should not pool a non-TLS port until it answers HTTP', async () => {
+            server = await listen(net.createServer(socket => socket.end('not a language server\n')));
+
+            const result = await transport.request(request(server.port));
+
+            expect(result).to.include({ kind: 'error' });
+            expect(transport.describeEndpoint('127.0.0.1', server.port)).to.be.undefined;
+        });
+
+        it('should not describe endpoints it has not reached', () => {
+            expect(transport.describeEndpoint('127.0.0.1', 1)).to.be.undefined;
+        });
+    });
+
+    describe('connection reuse', () => {
+        it('should share one HTTP/2 connection across requests', async () => {
+            server = await startHttp2();
+
+            await transport.request(request(server.port));
+            await transport.request(request(server.port));
+            await transport.request(request(server.port));
+
+            expect(server.connections()).to.equal(1);
+        });
+
+        it('should keep HTTP/1.1 connections alive', async () => {
+            server = await startHttps();
+
+            await transport.request(request(server.port));
+            await transport.request(request(server.port));
+            await transport.request(request(server.port));
+
+            // One negotiation handshake plus one pooled connection
+            expect(server.connections()).to.equal(2);
+        });
+    });
+
+    describe('certificate verification', () => {
+        const fingerprint = new X509Certificate(TEST_CERT).fingerprint256;
+
+        it('should pass the certificate fingerprint to the verifier', async () => {
+            server = await startHttp2();
+            const seen: (string | undefined)[] = [];
+
+            const result = await transport.request(request(server.port, {
+                verifyCertificate: fp => {
+                    seen.push(fp);
+                    return true;
+                }
+            }));
+
+            expect(result).to.include({ kind: 'response', status: 200 });
+            expect(seen).to.deep.equal([fingerprint]);
+        });
+
+        it('should refuse the connection before sending the request', async () => {
+            server = await startHttp2();
+
+            const result = await transport.request(request(server.port, { verifyCertificate: () => false }));
+
+            expect(result).to.include({ kind: 'error', code: CERTIFICATE_REFUSED });
+            expect(server.requests()).to.equal(0);
+        });
+
+        it('should verify a reused HTTP/2 session for each verifier', async () => {
+            server = await startHttp2();
+            const seen: (string | undefined)[] = [];
+
+            await transport.request(request(server.port, { verifyCertificate: () => true }));
+            const accepted = await transport.request(request(server.port, {
+                verifyCertificate: fp => {
+                    seen.push(fp);
+                    return true;
+                }
+            }));
+            const rejected = await transport.request(request(server.port, { verifyCertificate: () => false }));
+
+            expect(accepted).to.include({ kind: 'response', status: 200 });
+            expect(seen).to.deep.equal([fingerprint]);
+            expect(rejected).to.include({ kind: 'error', code: CERTIFICATE_REFUSED });
+            expect(server.requests()).to.equal(2);
+            expect(server.connections()).to.equal(1);
+        });
+
+        it('should verify every pooled HTTP/1.1 socket', async () => {
+            server = await startHttps();
+            let calls = 0;
+            const verifyCertificate = (fp: string | undefined) => {
+                calls++;
+                return fp === fingerprint && calls === 1;
+            };
+
+            const result = await transport.request(request(server.port, { verifyCertificate }));
+
+            // The negotiation handshake passed, the pooled socket did not
+            expect(result).to.include({ kind: 'error', code: CERTIFICATE_REFUSED });
+            expect(calls).to.equal(2);
+            expect(server.requests()).to.equal(0);
+        });
+
+        it('should verify new HTTP/1.1 sockets with the verifier of their own request', async () => {
+            server = await startHttps();
+            await transport.request(request(server.port, { verifyCertificate: () => true }));
+
+            // The second request needs a new socket, which connects after the third request started
+            const results = await Promise.all([
+                transport.request(request(server.port, { verifyCertificate: fp => fp === fingerprint })),
+                transport.request(request(server.port, { verifyCertificate: fp => fp === fingerprint })),
+                transport.request(request(server.port, { verifyCertificate: () => false }))
+            ]);
+
+            expect(results[0]).to.include({ kind: 'response', status: 200 });
+            expect(results[1]).to.include({ kind: 'response', status: 200 });
+            expect(results[2]).to.include({ kind: 'error', code: CERTIFICATE_REFUSED });
+            expect(server.requests()).to.equal(3);
+        });
+
+        it('should let the verifier refuse plain HTTP', async () => {
+            server = await startHttp();
+            const seen: (string | undefined)[] = [];
+
+            const result = await transport.request(request(server.port, {
+                verifyCertificate: fp => {
+                    seen.push(fp);
+                    return false;
+                }
+            }));
+
+            expect(result).to.include({ kind: 'error', code: CERTIFICATE_REFUSED });
+            expect(seen).to.deep.equal([undefined]);
+            expect(server.requests()).to.equal(0);
+        });
+    });
+
+    describe('failures', () => {
+        it('should report refused connections with the error code', async () => {
+            server = await startHttp();
+            const port = server.port;
+            await server.close();
+            server = undefined;
+
+            const result = await transport.request(request(port));
+
+            expect(result).to.include({ kind: 'error', code: 'ECONNREFUSED' });
+        });
+
+        it('should time out on a silent port', async () => {
+            server = await listen(net.createServer(() => undefined));
+
+            const result = await transport.request(request(server.port, { timeoutMs: 50 }));
+
+            expect(result).to.deep.equal({ kind: 'error', code: 'timeout', message: 'Request timed out' });
+        });
+
+        it('should report cancellation as aborted', async () => {
+            server = await listen(net.createServer(() => undefined));
+            const controller = new AbortController();
+            setTimeout(() => controller.abort(), 20);
+
+            const result = await transport.request(request(server.port, { signal: controller.signal }));
+
+            expect(result).to.include({ kind: 'error', code: 'aborted' });
+        });
+
+        it('should return non-200 responses with their body', async () => {
+            server = await startHttp2(() => ({ status: 401, body: '{"code":"unauthenticated"}' }));
+
+            const result = await transport.request(request(server.port));
+
+            expect(result).to.deep.equal({
+                kind: 'response', status: 401, body: '{"code":"unauthenticated"}', oversized: false
+            });
+        });
+
+        it('should discard bodies over the size limit', async () => {
+            server = await startHttps(() => ({ status: 200, body: 'x'.repeat(4096) }));
+
+            const result = await transport.request(request(server.port, { maxBytes: 1024 }));
+
+            expect(result).to.include({ kind: 'response', body: null, oversized: true });
+        });
+
+        it('should refuse requests after dispose', async () => {
+            server = await startHttp2();
+            await transport.request(request(server.port));
+
+            transport.dispose();
+            const result = await transport.request(request(server.port));
+
+            expect(result).to.include({ kind: 'error', code: 'aborted' });
+            expect(transport.describeEndpoint('127.0.0.1', server.port)).to.be.undefined;
+        });
+    });
+});
@@ -0,0 +1,511 @@
+/**
+ * AG Telemetry - Transport
+ * Connection reuse and protocol negotiation for language server requests
+ */
+
+import * as http from 'http';
+import * as http2 from 'http2';
+import * as https from 'https';
+import { isIP } from 'net';
+import { Duplex, Readable } from 'stream';
+import * as tls from 'tls';
+import { TransportEndpoint } from './types';
+
+/** A single unary request to a language server port */
+export interface TransportRequest {
+    host: string;
+    port: number;
+    path: string;
+    headers: Record<string, string>;
+    body: string;
+    /** Total time allowed for connecting, sending and reading the response */
+    timeoutMs: number;
+    /** Response bodies larger than this are discarded */
+    maxBytes: number;
+    signal: AbortSignal;
+    /**
+     * Called for every new connection, and for every request on a pooled
+     * one, before any request bytes are sent
+     * Receives the SHA-256 fingerprint of the server certificate, or
+     * undefined for plain HTTP. Returning false refuses the connection.
+     */
+    verifyCertificate?: CertificateVerifier;
+}
+
+/** Accepts or refuses a server certificate fingerprint */
+export type CertificateVerifier = (fingerprint: string | undefined) => boolean;
+
+/** Failure code for connections refused by a CertificateVerifier */
+export const CERTIFICATE_REFUSED = 'CERT_PIN_MISMATCH';
+
+/** A request that failed before a complete response arrived */
+export interface TransportFailure {
+    kind: 'error';
+    /** 'timeout', 'aborted' or a Node.js error code */
+    code: string;
+    message: string;
+}
+
+/** Outcome of a transport request; transports resolve instead of rejecting */
+export type TransportResult =
+    | {
+        kind: 'response';
+        status: number;
+        /** Body text, or null if the limit was exceeded or the stream failed */
+        body: string | null;
+        oversized: boolean;
+    }
+    | TransportFailure;
+
+/**
+ * Sends requests to language server ports
+ * Injectable through TelemetryServiceOptions so tests can fake the wire.
+ */
+export interface Transport {
+    /** Short identifier shown in diagnostics */
+    readonly id: string;
+    request(request: TransportRequest): Promise<TransportResult>;
+    /** How requests reach an endpoint, once a connection was negotiated */
+    describeEndpoint(host: string, port: number): TransportEndpoint | undefined;
+    /** Close pooled connections */
+    dispose(): void;
+}
+
+/** Pooled connection state for one host:port */
+interface Connection extends TransportEndpoint {
+    /** Keep-alive agent for HTTP/1.1 */
+    agent?: http.Agent;
+    /** Shared session for HTTP/2 */
+    session?: http2.ClientHttp2Session;
+    /** Fingerprint of the most recently verified certificate; undefined for plain HTTP */
+    fingerprint?: string;
+}
+
+function failure(code: string, message: string): TransportFailure {
+    return { kind: 'error', code, message };
+}
+
+function refused(): TransportFailure {
+    return failure(CERTIFICATE_REFUSED, 'Server certificate was refused');
+}
+
+/** Request options carrying the verifier of the request a socket is opened for */
+interface VerifiedRequestOptions extends https.RequestOptions {
+    verifyCertificate?: CertificateVerifier;
+}
+
+/**
+ * HTTPS agent that hands a socket to a request only after its
+ * certificate passed that request's verifier
+ * The verifier travels with the request options, so concurrent requests
+ * with different pin scopes never share one.
+ */
+class VerifyingAgent extends https.Agent {
+    private readonly connection: Connection;
+
+    constructor(connection: Connection, options: https.AgentOptions) {
+        super(options);
+        this.connection = connection;
+    }
+
+    createConnection(
+        options: VerifiedRequestOptions,
+        callback?: (err: Error | null, stream: Duplex) => void
+    ): Duplex | null | undefined {
+        const socket = super.createConnection(options) as tls.TLSSocket;
+        let settled = false;
+        const done = (err: Error | null) => {
+            if (!settled) {
+                settled = true;
+                callback?.(err, socket);
+            }
+        };
+
+        socket.once('secureConnect', () => {
+            const verify = options.verifyCertificate;
+            const fingerprint = socket.getPeerCertificate().fingerprint256;
+            if (verify && !verify(fingerprint)) {
+                socket.destroy();
+                done(Object.assign(new Error('Server certificate was refused'), { code: CERTIFICATE_REFUSED }));
+                return;
+            }
+            this.connection.fingerprint = fingerprint;
+            done(null);
+        });
+        socket.once('error', err => done(err));
+
+        // The request waits for the callback, so nothing is written before verification
+        return undefined;
+    }
+}
+
+/**
+ * Read a response stream under a size limit
+ */
+function readLimited(stream: Readable, maxBytes: number): Promise<{ body: string | null; oversized: boolean }> {
+    return new Promise(resolve => {
+        let data = '';
+        let size = 0;
+        let resolved = false;
+
+        const finish = (body: string | null, oversized: boolean) => {
+            if (!resolved) {
+                resolved = true;
+                resolve({ body, oversized });
+            }
+        };
+
+        stream.on('data', (chunk: Buffer | string) => {
+            size += typeof chunk === 'string' ? Buffer.byteLength(chunk) : chunk.length;
+            if (size > maxBytes) {
+                stream.destroy();
+                finish(null, true);
+                return;
+            }
+            data += chunk;
+        });
+
+        stream.on('end', () => finish(data, false));
+        stream.on('error', () => finish(null, false));
+        stream.on('close', () => finish(null, false));
+    });
+}
+
+/**
+ * Node Transport - Pooled connections over the Node.js HTTP stacks
+ * The first request to an endpoint negotiates the protocol: HTTP/2 when
+ * the server offers it via ALPN, HTTP/1.1 over TLS otherwise, and plain
+ * HTTP when the TLS handshake shows the port does not speak TLS. A plain
+ * HTTP endpoint is pooled only after it answered a request.
+ */
+export class NodeTransport implements Transport {
+    readonly id = 'node';
+
+    private readonly connections = new Map<string, Connection>();
+    private disposed: boolean = false;
+
+    private static readonly MAX_CONNECTIONS = 8;
+    private static readonly MAX_SOCKETS_PER_ENDPOINT = 2;
+
+    /**
+     * TLS handshake errors that suggest the port speaks plain HTTP
+     * A reset connection is not among them: TLS listeners reset handshakes too.
+     */
+    private static readonly PLAINTEXT_ERRORS = new Set([
+        'ERR_SSL_WRONG_VERSION_NUMBER',
+        'ERR_SSL_PACKET_LENGTH_TOO_LONG',
+        'EPROTO'
+    ]);
+
+    async request(request: TransportRequest): Promise<TransportResult> {
+        if (this.disposed) {
+            return failure('aborted', 'Transport disposed');
+        }
+
+        const timeout = AbortSignal.timeout(request.timeoutMs);
+        const signal = AbortSignal.any([request.signal, timeout]);
+        const interrupted = () => request.signal.aborted || !timeout.aborted
+            ? failure('aborted', 'Request aborted')
+            : failure('timeout', 'Request timed out');
+
+        if (signal.aborted) {
+            return interrupted();
+        }
+
+        const key = NodeTransport.endpointKey(request.host, request.port);
+        const pooled = this.connections.get(key);
+        const connection = pooled
+            ?? await this.negotiate(request.host, request.port, signal, request.verifyCertificate);
+        if (signal.aborted) {
+            if (!('kind' in connection) && !this.isPooled(key, connection)) {
+                NodeTransport.close(connection);
+            }
+            return interrupted();
+        }
+        if ('kind' in connection) {
+            return connection;
+        }
+
+        // Negotiation verified new connections; a reused one may serve another pin scope
+        const verify = request.verifyCertificate;
+        if (pooled && verify && !verify(connection.fingerprint)) {
+            return refused();
+        }
+
+        const result = connection.session
+            ? await this.sendHttp2(connection.session, request, signal)
+            : await this.sendHttp1(connection, request, signal);
+
+        if (!this.isPooled(key, connection)) {
+            // Plain HTTP is trusted only once the port answered like an HTTP server
+            if (result.kind === 'response' && !signal.aborted) {
+                this.adopt(request.host, request.port, connection);
+            } else {
+                NodeTransport.close(connection);
+            }
+        }
+        if (signal.aborted) {
+            return interrupted();
+        }
+
+        // Renegotiate next time; the server may have restarted or changed protocol
+        if (result.kind === 'error') {
+            this.forget(key, connection);
+        }
+        return result;
+    }
+
+    describeEndpoint(host: string, port: number): TransportEndpoint | undefined {
+        const connection = this.connections.get(NodeTransport.endpointKey(host, port));
+        return connection ? { scheme: connection.scheme, protocol: connection.protocol } : undefined;
+    }
+
+    dispose(): void {
+        this.disposed = true;
+        for (const connection of this.connections.values()) {
+            NodeTransport.close(connection);
+        }
+        this.connections.clear();
+    }
+
+    private static endpointKey(host: string, port: number): string {
+        return `${host}:${port}`;
+    }
+
+    private static authority(host: string, port: number): string {
+        return isIP(host) === 6 ? `[${host}]:${port}` : `${host}:${port}`;
+    }
+
+    private isPooled(key: string, connection: Connection): boolean {
+        return this.connections.get(key) === connection;
+    }
+
+    private static close(connection: Connection): void {
+        connection.agent?.destroy();
+        connection.session?.destroy();
+    }
+
+    /**
+     * Open a TLS connection and pick the protocol the server supports
+     */
+    private negotiate(
+        host: string,
+        port: number,
+        signal: AbortSignal,
+        verify: CertificateVerifier | undefined
+    ): Promise<Connection | TransportFailure> {
+        return new Promise(resolve => {
+            // SECURITY NOTE: rejectUnauthorized is disabled because the Antigravity
+            // language server uses a self-signed certificate for localhost communication.
+            // This is acceptable because:
+            // 1. Communication is localhost (127.0.0.1) unless the user explicitly
+            //    configures agTelemetry.connection.host in trusted settings
+            // 2. CSRF token provides request authenticity verification
+            // 3. An attacker with local machine access has already compromised security
+            // Callers can still pin the certificate through verifyCertificate.
+            const socket = tls.connect({
+                host,
+                port,
+                servername: isIP(host) ? undefined : host,
+                ALPNProtocols: ['h2', 'http/1.1'],
+                rejectUnauthorized: false
+            });
+
+            let settled = false;
+            const finish = (value: Connection | TransportFailure) => {
+                if (!settled) {
+                    settled = true;
+                    signal.removeEventListener('abort', onAbort);
+                    resolve(value);
+                }
+            };
+            const onAbort = () => {
+                socket.destroy();
+                finish(failure('aborted', 'Request aborted'));
+            };
+            signal.addEventListener('abort', onAbort, { once: true });
+
+            socket.once('secureConnect', () => {
+                const fingerprint = socket.getPeerCertificate().fingerprint256;
+                if (verify && !verify(fingerprint)) {
+                    socket.destroy();
+                    finish(refused());
+                    return;
+                }
+
+                if (socket.alpnProtocol === 'h2') {
+                    finish(this.adopt(host, port, this.openSession(host, port, socket, fingerprint)));
+                    return;
+                }
+
+                socket.destroy();
+                const connection: Connection = { scheme: 'https', protocol: 'http/1.1', fingerprint };
+                connection.agent = new VerifyingAgent(connection, {
+                    keepAlive: true,
+                    maxSockets: NodeTransport.MAX_SOCKETS_PER_ENDPOINT,
+                    // Resumed TLS sessions carry no peer certificate to verify
+                    maxCachedSessions: 0,
+                    // See the security note above; certificates are checked by the verifier instead
+                    rejectUnauthorized: false
+                });
+                finish(this.adopt(host, port, connection));
+            });
+
+            socket.once('error', (err: NodeJS.ErrnoException) => {
+                if (!NodeTransport.PLAINTEXT_ERRORS.has(err.code ?? '')) {
+                    finish(failure(err.code ?? 'error', err.message));
+                    return;
+                }
+                if (verify && !verify(undefined)) {
+                    finish(refused());
+                    return;
+                }
+                // Pooled by request() once a response arrives
+                finish({
+                    scheme: 'http',
+                    protocol: 'http/1.1',
+                    agent: new http.Agent({
+                        keepAlive: true,
+                        maxSockets: NodeTransport.MAX_SOCKETS_PER_ENDPOINT
+                    })
+                });
+            });
+        });
+    }
+
+    private openSession(host: string, port: number, socket: tls.TLSSocket, fingerprint: string): Connection {
+        const session = http2.connect(`https://${NodeTransport.authority(host, port)}`, {
+            createConnection: () => socket
+        });
+        const connection: Connection = { scheme: 'https', protocol: 'h2', session, fingerprint };
+        const key = NodeTransport.endpointKey(host, port);
+
+        // Idle sessions must not keep the extension host alive
+        session.unref();
+        session.on('error', () => this.forget(key, connection));
+        session.on('goaway', () => this.forget(key, connection));
+        session.on('close', () => this.forget(key, connection));
+        return connection;
+    }
+
+    /**
+     * Pool a negotiated connection, keeping one raced in by a concurrent request
+     */
+    private adopt(host: string, port: number, connection: Connection): Connection | TransportFailure {
+        if (this.disposed) {
+            NodeTransport.close(connection);
+            return failure('aborted', 'Transport disposed');
+        }
+
+        const key = NodeTransport.endpointKey(host, port);
+        const existing = this.connections.get(key);
+        if (existing) {
+            NodeTransport.close(connection);
+            return existing;
+        }
+
+        // Discovery probes several ports; keep only the most recent endpoints
+        if (this.connections.size >= NodeTransport.MAX_CONNECTIONS) {
+            const [oldestKey, oldest] = this.connections.entries().next().value as [string, Connection];
+            this.connections.delete(oldestKey);
+            NodeTransport.close(oldest);
+        }
+        this.connections.set(key, connection);
+        return connection;
+    }
+
+    private forget(key: string, connection: Connection): void {
+        if (this.connections.get(key) === connection) {
+            this.connections.delete(key);
+            NodeTransport.close(connection);
+        }
+    }
+
+    private sendHttp1(
+        connection: Connection,
+        request: TransportRequest,
+        signal: AbortSignal
+    ): Promise<TransportResult> {
+        const client = connection.scheme === 'https' ? https : http;
+
+        return new Promise(resolve => {
+            const options: VerifiedRequestOptions = {
+                host: request.host,
+                port: request.port,
+                path: request.path,
+                method: 'POST',
+                headers: {
+                    ...request.headers,
+                    'Content-Length': Buffer.byteLength(request.body)
+                },
+                agent: connection.agent,
+                signal,
+                // Read by VerifyingAgent when this request opens a new socket
+                verifyCertificate: request.verifyCertificate
+            };
+            const req = client.request(options, res => {
+                readLimited(res, request.maxBytes).then(({ body, oversized }) => resolve({
+                    kind: 'response',
+                    status: res.statusCode ?? 0,
+                    body,
+                    oversized
+                }));
+            });
+
+            req.on('error', (err: NodeJS.ErrnoException) => resolve(failure(err.code ?? 'error', err.message)));
+            req.end(request.body);
+        });
+    }
+
+    private sendHttp2(
+        session: http2.ClientHttp2Session,
+        request: TransportRequest,
+        signal: AbortSignal
+    ): Promise<TransportResult> {
+        return new Promise(resolve => {
+            const headers: http2.OutgoingHttpHeaders = {
+                ':method': 'POST',
+                ':path': request.path,
+                'content-length': Buffer.byteLength(request.body)
+            };
+            for (const [name, value] of Object.entries(request.headers)) {
+                headers[name.toLowerCase()] = value;
+            }
+
+            let stream: http2.ClientHttp2Stream;
+            try {
+                stream = session.request(headers);
+            } catch (err) {
+                resolve(failure('ERR_HTTP2_ERROR', err instanceof Error ? err.message : String(err)));
+                return;
+            }
+
+            let responded = false;
+            const onAbort = () => stream.close(http2.constants.NGHTTP2_CANCEL);
+            signal.addEventListener('abort', onAbort, { once: true });
+
+            stream.once('response', responseHeaders => {
+                responded = true;
+                readLimited(stream, request.maxBytes).then(({ body, oversized }) => resolve({
+                    kind: 'response',
+                    status: Number(responseHeaders[':status'] ?? 0),
+                    body,
+                    oversized
+                }));
+            });
+            stream.once('error', (err: NodeJS.ErrnoException) => {
+                if (!responded) {
+                    resolve(failure(err.code ?? 'error', err.message));
+                }
+            });
+            stream.once('close', () => {
+                signal.removeEventListener('abort', onAbort);
+                if (!responded) {
+                    resolve(failure('ERR_HTTP2_STREAM_ERROR', 'Stream closed before a response arrived'));
+                }
+            });
+
+            stream.end(request.body);
+        });
+    }
+}
@@ -6,14 +6,24 @@
 
 import * as vscode from 'vscode';
 import {
+    AccountSummary,
+    ConnectionState,
+    ConnectionStateInfo,
+    CreditBalance,
+    EntryReport,
     FuelSystem,
+    ModelCapability,
+    ModelFilter,
     ReadinessLevel,
     TelemetrySnapshot,
     UplinkStatus,
+    ServerInstance,
     SystemClass,
     TreeItemType
 } from './types';
 import { escapeMarkdown, sanitizeLabel } from './security';
+import { formatRetryCountdown } from './connection_state';
+import { MODEL_CAPABILITY_LABELS, copyModelFilter, emptyModelFilter, matchesModelFilter } from './model_filter';
 
 /**
  * Pool data for quota pool header items
@@ -30,7 +40,7 @@ class TelemetryTreeItem extends vscode.TreeItem {
         public readonly label: string,
         public readonly itemType: TreeItemType,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
-        public readonly data?: FuelSystem | UplinkStatus | PoolData
+        public readonly data?: FuelSystem | UplinkStatus | ServerInstance | PoolData
     ) {
         super(label, collapsibleState);
     }
@@ -46,13 +56,42 @@ export class SystemsViewProvider implements vscode.TreeDataProvider<TelemetryTre
 
     private snapshot?: TelemetrySnapshot;
     private uplinkStatus?: UplinkStatus;
+    private instances: ServerInstance[] = [];
+    private connectionState?: ConnectionStateInfo;
 
-    refresh(snapshot?: TelemetrySnapshot, uplink?: UplinkStatus): void {
+    /** Re-renders the retry countdown while in backoff */
+    private countdownTimer?: NodeJS.Timeout;
+
+    refresh(snapshot?: TelemetrySnapshot, uplink?: UplinkStatus, instances: ServerInstance[] = []): void {
         this.snapshot = snapshot;
         this.uplinkStatus = uplink;
+        this.instances = instances;
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    setConnectionState(info: ConnectionStateInfo): void {
+        this.connectionState = { ...info };
+
+        if (info.state === ConnectionState.BACKOFF) {
+            this.countdownTimer ??= setInterval(() => this._onDidChangeTreeData.fire(undefined), 1000);
+        } else {
+            this.stopCountdown();
+        }
         this._onDidChangeTreeData.fire(undefined);
     }
 
+    private stopCountdown(): void {
+        if (this.countdownTimer) {
+            clearInterval(this.countdownTimer);
+            this.countdownTimer = undefined;
+        }
+    }
+
+    dispose(): void {
+        this.stopCountdown();
+        this._onDidChangeTreeData.dispose();
+    }
+
     getTreeItem(element: TelemetryTreeItem): vscode.TreeItem {
         return element;
     }
@@ -65,10 +104,22 @@ export class SystemsViewProvider implements vscode.TreeDataProvider<TelemetryTre
         // Uplink status
         items.push(this.createUplinkItem());
 
+        // Discovered language server instances
+        for (const instance of this.instances) {
+            items.push(this.createInstanceItem(instance));
+        }
+
         // Overall readiness
         if (this.snapshot) {
             items.push(this.createReadinessItem());
+            if (this.snapshot.account) {
+                items.push(this.createAccountItem(this.snapshot.account));
+            }
             items.push(this.createSystemCountItem());
+            const entries = this.snapshot.entries;
+            if (entries && entries.rejected + entries.truncated > 0) {
+                items.push(this.createDroppedEntriesItem(entries));
+            }
             items.push(this.createLastScanItem());
         }
 
@@ -80,8 +131,10 @@ export class SystemsViewProvider implements vscode.TreeDataProvider<TelemetryTre
         const signal = this.uplinkStatus?.signalStrength ?? 0;
 
         const label = connected
-            ? `Uplink: Active (${signal}%)`
-            : 'Uplink: Disconnected';
+            ? this.connectionState?.state === ConnectionState.DEGRADED
+                ? `Uplink: Degraded (${signal}%)`
+                : `Uplink: Active (${signal}%)`
+            : this.getOfflineUplinkLabel();
 
         const item = new TelemetryTreeItem(
             label,
@@ -90,16 +143,23 @@ export class SystemsViewProvider implements vscode.TreeDataProvider<TelemetryTre
             this.uplinkStatus
         );
 
-        item.iconPath = new vscode.ThemeIcon(
-            connected ? 'radio-tower' : 'debug-disconnect',
-            connected
-                ? new vscode.ThemeColor('charts.green')
-                : new vscode.ThemeColor('charts.red')
-        );
+        const state = this.connectionState?.state;
+        const linking = state === ConnectionState.DISCOVERING || state === ConnectionState.PROBING;
+
+        item.iconPath = linking
+            ? new vscode.ThemeIcon('sync~spin')
+            : new vscode.ThemeIcon(
+                connected ? 'radio-tower' : 'debug-disconnect',
+                connected
+                    ? new vscode.ThemeColor(state === ConnectionState.DEGRADED ? 'charts.yellow' : 'charts.green')
+                    : new vscode.ThemeColor('charts.red')
+            );
 
         item.tooltip = connected
             ? `Port: ${this.uplinkStatus?.port}\nSignal: ${signal}%`
-            : 'Click to establish uplink';
+            : this.connectionState?.state === ConnectionState.BACKOFF
+                ? `Retry #${this.connectionState.retryAttempt}\nClick to reconnect now`
+                : 'Click to establish uplink';
 
         item.command = connected ? undefined : {
             command: 'agTelemetry.establishLink',
@@ -109,6 +169,66 @@ export class SystemsViewProvider implements vscode.TreeDataProvider<TelemetryTre
         return item;
     }
 
+    /**
+     * Describe the uplink while it is not connected
+     */
+    private getOfflineUplinkLabel(): string {
+        switch (this.connectionState?.state) {
+            case ConnectionState.DISCOVERING:
+                return 'Uplink: Discovering...';
+            case ConnectionState.PROBING:
+                return 'Uplink: Probing...';
+            case ConnectionState.BACKOFF: {
+                const remaining = (this.connectionState.nextRetryAt ?? Date.now()) - Date.now();
+                return `Uplink: Retry in ${formatRetryCountdown(remaining)}`;
+            }
+            default:
+                return 'Uplink: Disconnected';
+        }
+    }
+
+    private createInstanceItem(instance: ServerInstance): TelemetryTreeItem {
+        const healthy = instance.uplink.isConnected;
+        const active = healthy && instance.pid === this.uplinkStatus?.pid;
+
+        const item = new TelemetryTreeItem(
+            `Server ${instance.pid}`,
+            TreeItemType.SERVER_INSTANCE,
+            vscode.TreeItemCollapsibleState.None,
+            instance
+        );
+
+        if (healthy) {
+            item.description = `:${instance.uplink.port} • ${active ? 'Active' : 'Available'}`;
+        } else {
+            item.description = 'Unreachable';
+        }
+
+        item.iconPath = new vscode.ThemeIcon(
+            'server-process',
+            active
+                ? new vscode.ThemeColor('charts.green')
+                : healthy ? undefined : new vscode.ThemeColor('charts.red')
+        );
+
+        const lines = [
+            `PID: ${instance.pid}`,
+            `Ports: ${instance.ports.length > 0 ? instance.ports.join(', ') : 'none detected'}`
+        ];
+        if (instance.workspaceId) {
+            lines.push(`Workspace: ${sanitizeLabel(instance.workspaceId, 128)}`);
+        }
+        item.tooltip = lines.join('\n');
+
+        item.command = healthy && !active ? {
+            command: 'agTelemetry.selectInstance',
+            title: 'Use This Server',
+            arguments: [instance.pid]
+        } : undefined;
+
+        return item;
+    }
+
     private createReadinessItem(): TelemetryTreeItem {
         const readiness = this.snapshot!.overallReadiness;
         const label = `Status: ${this.getReadinessLabel(readiness)}`;
@@ -127,6 +247,45 @@ export class SystemsViewProvider implements vscode.TreeDataProvider<TelemetryTre
         return item;
     }
 
+    private createAccountItem(account: AccountSummary): TelemetryTreeItem {
+        const plan = sanitizeLabel(account.planName ?? account.tier ?? '') || 'Unknown';
+
+        const item = new TelemetryTreeItem(
+            `Plan: ${plan}`,
+            TreeItemType.INFO_ITEM,
+            vscode.TreeItemCollapsibleState.None
+        );
+
+        if (account.promptCredits) {
+            item.description = `${this.formatCredits(account.promptCredits)} prompt credits`;
+        }
+
+        const lines = [`Plan: ${plan}`];
+        if (account.tier) {
+            lines.push(`Tier: ${sanitizeLabel(account.tier)}`);
+        }
+        if (account.promptCredits) {
+            lines.push(`Prompt Credits: ${this.formatCredits(account.promptCredits)}`);
+        }
+        if (account.flowCredits) {
+            lines.push(`Flow Credits: ${this.formatCredits(account.flowCredits)}`);
+        }
+        item.tooltip = lines.join('\n');
+
+        item.iconPath = new vscode.ThemeIcon('account');
+        return item;
+    }
+
+    /**
+     * Format a credit balance as `available / monthly`
+     */
+    private formatCredits(balance: CreditBalance): string {
+        const available = balance.available?.toLocaleString() ?? '?';
+        return balance.monthly !== undefined
+            ? `${available} / ${balance.monthly.toLocaleString()}`
+            : available;
+    }
+
     private createSystemCountItem(): TelemetryTreeItem {
         const total = this.snapshot!.systems.length;
         const nominal = this.snapshot!.systems.filter(
@@ -143,6 +302,32 @@ export class SystemsViewProvider implements vscode.TreeDataProvider<TelemetryTre
         return item;
     }
 
+    private createDroppedEntriesItem(entries: EntryReport): TelemetryTreeItem {
+        const dropped = entries.rejected + entries.truncated;
+
+        const item = new TelemetryTreeItem(
+            `Dropped: ${dropped} model ${dropped === 1 ? 'entry' : 'entries'}`,
+            TreeItemType.INFO_ITEM,
+            vscode.TreeItemCollapsibleState.None
+        );
+
+        item.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('charts.yellow'));
+
+        const lines = [`Rejected: ${entries.rejected}`, `Over model limit: ${entries.truncated}`];
+        for (const rejection of entries.rejections.slice(0, 5)) {
+            lines.push(`#${rejection.index}: ${sanitizeLabel(rejection.reason, 128)}`);
+        }
+        lines.push('Click to run diagnostics');
+        item.tooltip = lines.join('\n');
+
+        item.command = {
+            command: 'agTelemetry.runDiagnostics',
+            title: 'Run Diagnostics'
+        };
+
+        return item;
+    }
+
     private createLastScanItem(): TelemetryTreeItem {
         const elapsed = Date.now() - this.snapshot!.timestamp;
         const seconds = Math.floor(elapsed / 1000);
@@ -205,11 +390,30 @@ export class FuelViewProvider implements vscode.TreeDataProvider<TelemetryTreeIt
 
     private systems: FuelSystem[] = [];
 
+    /** Capabilities and metadata a model must report to be listed */
+    private modelFilter: ModelFilter = emptyModelFilter();
+
     refresh(systems: FuelSystem[]): void {
         this.systems = systems;
         this._onDidChangeTreeData.fire(undefined);
     }
 
+    setModelFilter(filter: ModelFilter): void {
+        this.modelFilter = copyModelFilter(filter);
+        this._onDidChangeTreeData.fire(undefined);
+    }
+
+    getModelFilter(): ModelFilter {
+        return copyModelFilter(this.modelFilter);
+    }
+
+    /**
+     * Models passing the filter
+     */
+    private visibleSystems(): FuelSystem[] {
+        return this.systems.filter(s => matchesModelFilter(s, this.modelFilter));
+    }
+
     getTreeItem(element: TelemetryTreeItem): vscode.TreeItem {
         return element;
     }
@@ -222,7 +426,7 @@ export class FuelViewProvider implements vscode.TreeDataProvider<TelemetryTreeIt
         // Pool header: return pool members
         if (element.itemType === TreeItemType.QUOTA_POOL) {
             const poolId = (element.data as { poolId: string }).poolId;
-            return this.systems
+            return this.visibleSystems()
                 .filter(s => s.quotaPoolId === poolId)
                 .sort((a, b) => a.designation.localeCompare(b.designation))
                 .map(sys => this.createSystemItem(sys));
@@ -248,12 +452,27 @@ export class FuelViewProvider implements vscode.TreeDataProvider<TelemetryTreeIt
             return [empty];
         }
 
+        const visible = this.visibleSystems();
+        if (visible.length === 0) {
+            const filtered = new TelemetryTreeItem(
+                'No models match the filter',
+                TreeItemType.INFO_ITEM,
+                vscode.TreeItemCollapsibleState.None
+            );
+            filtered.iconPath = new vscode.ThemeIcon('filter');
+            filtered.command = {
+                command: 'agTelemetry.filterModels',
+                title: 'Filter Models'
+            };
+            return [filtered];
+        }
+
         const items: TelemetryTreeItem[] = [];
         const pooledSystems = new Set<string>();
 
         // Group systems by pool
         const pools = new Map<string, FuelSystem[]>();
-        for (const sys of this.systems) {
+        for (const sys of visible) {
             if (sys.quotaPoolId) {
                 const group = pools.get(sys.quotaPoolId) ?? [];
                 group.push(sys);
@@ -271,7 +490,7 @@ export class FuelViewProvider implements vscode.TreeDataProvider<TelemetryTreeIt
         }
 
         // Add non-pooled systems (sorted by fuel level)
-        const standalone = this.systems
+        const standalone = visible
             .filter(s => !pooledSystems.has(s.systemId))
             .sort((a, b) => a.fuelLevel - b.fuelLevel);
 
@@ -423,6 +642,52 @@ export class FuelViewProvider implements vscode.TreeDataProvider<TelemetryTreeIt
             items.push(timerItem);
         }
 
+        // Capabilities reported by the server
+        const capabilities = (Object.keys(MODEL_CAPABILITY_LABELS) as ModelCapability[])
+            .filter(capability => system.capabilities?.[capability] === true)
+            .map(capability => MODEL_CAPABILITY_LABELS[capability]);
+        if (capabilities.length > 0) {
+            const capabilityItem = new TelemetryTreeItem(
+                `Capabilities: ${capabilities.join(', ')}`,
+                TreeItemType.INFO_ITEM,
+                vscode.TreeItemCollapsibleState.None
+            );
+            capabilityItem.iconPath = new vscode.ThemeIcon('checklist');
+            items.push(capabilityItem);
+        }
+
+        const metadata = system.metadata;
+        if (metadata?.provider) {
+            const providerItem = new TelemetryTreeItem(
+                `Provider: ${sanitizeLabel(metadata.provider)}`,
+                TreeItemType.INFO_ITEM,
+                vscode.TreeItemCollapsibleState.None
+            );
+            providerItem.iconPath = new vscode.ThemeIcon('organization');
+            items.push(providerItem);
+        }
+
+        if (metadata?.allowedTiers) {
+            const tiers = metadata.allowedTiers.map(tier => sanitizeLabel(tier)).join(', ');
+            const tierItem = new TelemetryTreeItem(
+                `Plans: ${sanitizeLabel(tiers, 128)}`,
+                TreeItemType.INFO_ITEM,
+                vscode.TreeItemCollapsibleState.None
+            );
+            tierItem.iconPath = new vscode.ThemeIcon('lock');
+            items.push(tierItem);
+        }
+
+        if (metadata?.tag) {
+            const tagItem = new TelemetryTreeItem(
+                `Tag: ${sanitizeLabel(metadata.tag)}`,
+                TreeItemType.INFO_ITEM,
+                vscode.TreeItemCollapsibleState.None
+            );
+            tagItem.iconPath = new vscode.ThemeIcon('tag');
+            items.push(tagItem);
+        }
+
         return items;
     }
 
@@ -30,6 +30,45 @@ export interface FuelSystem {
     isOnline: boolean;
     /** Quota pool identifier (shared among models with same quota) */
     quotaPoolId?: string;
+    /** Features the server reports for the model */
+    capabilities?: ModelCapabilities;
+    /** Descriptive fields the server reports for the model */
+    metadata?: ModelMetadata;
+    /** Unrecognized entry fields as sanitized JSON previews, for diagnostics */
+    extraFields?: Record<string, string>;
+}
+
+/** Per-model features, usable as Model Quota view filters */
+export interface ModelCapabilities {
+    /** Marked as recommended in the model picker */
+    recommended?: boolean;
+    /** Accepts image input */
+    images?: boolean;
+}
+
+/** A capability the Model Quota view can filter by */
+export type ModelCapability = keyof ModelCapabilities;
+
+/** Per-model descriptive fields */
+export interface ModelMetadata {
+    /** Provider identifier such as 'MODEL_PROVIDER_ANTHROPIC' */
+    provider?: string;
+    /** Plan tiers allowed to use the model */
+    allowedTiers?: string[];
+    /** Badge shown next to the model, such as 'New' */
+    tag?: string;
+}
+
+/**
+ * Models listed in the Model Quota view
+ * Every capability is required; within each metadata dimension any
+ * selected value matches. Empty dimensions do not filter.
+ */
+export interface ModelFilter {
+    capabilities: ModelCapability[];
+    providers: string[];
+    tiers: string[];
+    tags: string[];
 }
 
 /** Classification of AI model systems */
@@ -47,6 +86,48 @@ export interface TelemetrySnapshot {
     systems: FuelSystem[];
     overallReadiness: ReadinessLevel;
     activeAlerts: number;
+    /** Response adapter that parsed the GetUserStatus response */
+    responseAdapter?: string;
+    /** Plan and credits, when the response carried them */
+    account?: AccountSummary;
+    /** How the model entries of the response were handled */
+    entries?: EntryReport;
+}
+
+/** Model entry left out of a snapshot */
+export interface RejectedEntry {
+    /** Position in the response's model list */
+    index: number;
+    reason: string;
+    /** Entry label, when it could be read */
+    label?: string;
+}
+
+/** Outcome of validating each model entry of a response */
+export interface EntryReport {
+    accepted: number;
+    rejected: number;
+    /** Entries past the model cap, which were not read */
+    truncated: number;
+    /** The first rejected entries, with why they were left out */
+    rejections: RejectedEntry[];
+}
+
+/** Remaining credits of one kind */
+export interface CreditBalance {
+    available?: number;
+    /** Monthly allowance of the plan */
+    monthly?: number;
+}
+
+/** Plan and credit information from userStatus */
+export interface AccountSummary {
+    /** Plan display name such as 'Pro' */
+    planName?: string;
+    /** Plan tier identifier such as 'TEAMS_TIER_PRO' */
+    tier?: string;
+    promptCredits?: CreditBalance;
+    flowCredits?: CreditBalance;
 }
 
 /** Default alert thresholds (used internally) */
@@ -56,18 +137,293 @@ export interface AlertThresholds {
     critical: number;
 }
 
+/** Uplink connection lifecycle state (transitions in connection_state.ts) */
+export enum ConnectionState {
+    /** Looking for language server processes */
+    DISCOVERING = 'discovering',
+    /** Probing candidate ports of a discovered or configured server */
+    PROBING = 'probing',
+    /** Uplink established and responding */
+    CONNECTED = 'connected',
+    /** Uplink established but recent requests failed */
+    DEGRADED = 'degraded',
+    /** Waiting before the next reconnect attempt */
+    BACKOFF = 'backoff',
+    /** Not connected and no reconnect scheduled */
+    OFFLINE = 'offline'
+}
+
+/** Snapshot of the connection state machine */
+export interface ConnectionStateInfo {
+    state: ConnectionState;
+    /** Epoch ms of the next reconnect attempt (BACKOFF only) */
+    nextRetryAt?: number;
+    /** Number of consecutive failed reconnect attempts */
+    retryAttempt: number;
+}
+
+/** Payload of the state-changed event */
+export interface ConnectionStateChange extends ConnectionStateInfo {
+    previous: ConnectionState;
+}
+
+/** How the current uplink target was determined */
+export type UplinkMode = 'auto' | 'manual';
+
 /** Uplink connection state */
 export interface UplinkStatus {
     isConnected: boolean;
+    /** Language server process ID (auto-discovered uplinks only) */
+    pid?: number;
+    host?: string;
     port?: number;
     securityToken?: string;
     lastContact?: number;
     signalStrength: number;
+    /** Whether the target was auto-discovered or set via connection settings */
+    mode?: UplinkMode;
+}
+
+/** Why a probed port was accepted or rejected */
+export type PortProbeOutcome =
+    | 'accepted'
+    | 'refused'
+    | 'timeout'
+    | 'http-status'
+    | 'oversized'
+    | 'error'
+    | 'aborted'
+    | 'skipped'
+    /** The server certificate differs from the one pinned for this pid and port */
+    | 'certificate-mismatch'
+    /** HTTP 200 whose body is not the toggle list GetUnleashData returns */
+    | 'unexpected-response';
+
+/** Connect protocol error codes (https://connectrpc.com/docs/protocol#error-codes) */
+export type ConnectErrorCode =
+    | 'canceled'
+    | 'unknown'
+    | 'invalid_argument'
+    | 'deadline_exceeded'
+    | 'not_found'
+    | 'already_exists'
+    | 'permission_denied'
+    | 'resource_exhausted'
+    | 'failed_precondition'
+    | 'aborted'
+    | 'out_of_range'
+    | 'unimplemented'
+    | 'internal'
+    | 'unavailable'
+    | 'data_loss'
+    | 'unauthenticated';
+
+/** Decoded Connect error response (message sanitized for display) */
+export interface ConnectError {
+    code: ConnectErrorCode;
+    message: string;
+    /** HTTP status the error arrived with */
+    httpStatus: number;
+    /** Type URLs of attached error details */
+    detailTypes: string[];
+    /** True when the body carried no Connect code and it was inferred from the HTTP status */
+    inferred: boolean;
+    /** When the error was received (epoch ms) */
+    timestamp: number;
+}
+
+/** Failure reasons derived from Connect errors */
+export type ConnectFailureReason =
+    | 'token-invalid'
+    | 'rpc-unavailable'
+    | 'server-busy'
+    | 'server-error';
+
+/** Result of probing a single port */
+export interface PortProbeResult {
+    port: number;
+    outcome: PortProbeOutcome;
+    /** HTTP status for 'http-status' outcomes */
+    statusCode?: number;
+    /** Connect error code for 'http-status' outcomes */
+    errorCode?: ConnectErrorCode;
+    /** Time spent on the probe in milliseconds */
+    durationMs: number;
+}
+
+/** Wire protocol negotiated with a language server port */
+export type TransportProtocol = 'h2' | 'http/1.1';
+
+/** How requests reach a language server endpoint */
+export interface TransportEndpoint {
+    /** 'https' unless the port only speaks plain HTTP */
+    scheme: 'https' | 'http';
+    protocol: TransportProtocol;
+}
+
+/** Liveness heartbeat state, for diagnostics */
+export interface HeartbeatStatus {
+    /** Heartbeat interval in seconds; 0 when disabled */
+    intervalSeconds: number;
+    /** Epoch ms of the last completed heartbeat */
+    lastBeatAt?: number;
+    /** Probe result of the last completed heartbeat */
+    lastResult?: PortProbeResult;
+    /** Heartbeats missed in a row since the last success */
+    consecutiveMisses: number;
+}
+
+/** A discovered language server instance */
+export interface ServerInstance {
+    pid: number;
+    /** Listening ports detected for the process */
+    ports: number[];
+    /** Workspace identifier from the server command line, if present */
+    workspaceId?: string;
+    /** Connection health for this instance */
+    uplink: UplinkStatus;
+    /** Per-port outcomes of the last probe */
+    probeResults: PortProbeResult[];
+}
+
+/** Why a discovered language server process was not sent the token */
+export type CandidateRejectionReason =
+    /** Executable path or owner could not be determined */
+    | 'unverifiable'
+    /** The process belongs to another user */
+    | 'foreign-user'
+    /** The executable is outside every trusted install location */
+    | 'untrusted-path'
+    /** Ports answered the probe, but not like a language server */
+    | 'unexpected-response';
+
+/** How a single discovery strategy fared */
+export type StrategyOutcome =
+    /** Produced a result, which was used */
+    | 'ok'
+    /** Ran but found nothing */
+    | 'empty'
+    /** The tool or data source does not exist on this system */
+    | 'unavailable'
+    /** The tool failed, timed out or printed something unusable */
+    | 'failed';
+
+/** One attempt of an ordered discovery strategy */
+export interface StrategyAttempt {
+    /** Strategy name such as 'procfs', 'lsof' or 'netstat' */
+    strategy: string;
+    outcome: StrategyOutcome;
+    /** Why the strategy did not produce a result */
+    detail?: string;
+}
+
+/** Which strategies located processes and ports in the last discovery */
+export interface DiscoveryReport {
+    processes: StrategyAttempt[];
+    ports: { pid: number; attempts: StrategyAttempt[] }[];
+}
+
+/** Discovered process that failed verification */
+export interface RejectedCandidate {
+    pid: number;
+    reason: CandidateRejectionReason;
+    /** Executable path, when it could be read */
+    executable?: string;
+}
+
+/** Structure of a response: key paths and value types, never values */
+export interface SchemaFingerprint {
+    /** SHA-256 of the sorted path list */
+    hash: string;
+    /**
+     * Value type at each key path, e.g. `userStatus.planStatus.planInfo.planName`
+     * → `string`; array elements share a `[]` path and map entries a `{}`
+     * path, with types joined by `|`
+     */
+    paths: Record<string, string>;
+    /** Paths past the cap were left out */
+    truncated: boolean;
+}
+
+/** Paths that differ between two fingerprints */
+export interface SchemaDiff {
+    added: string[];
+    removed: string[];
+    retyped: { path: string; from: string; to: string }[];
+}
+
+/** A change of response structure since the last known fingerprint */
+export interface SchemaDrift extends SchemaDiff {
+    previousHash: string;
+    currentHash: string;
+    detectedAt: number;
+}
+
+/** A response that added paths or types to the known fingerprint */
+export interface SchemaChange {
+    /** Known fingerprint including this response, to persist */
+    fingerprint: SchemaFingerprint;
+    /** Undefined when no fingerprint was known before */
+    drift?: SchemaDrift;
+}
+
+/** Last successful uplink, persisted across sessions (never holds the token) */
+export interface PersistedUplink {
+    pid: number;
+    port: number;
+    /** SHA-256 of the CSRF token, used to detect a restarted server */
+    tokenHash: string;
+}
+
+/** Manual uplink override (agTelemetry.connection.* settings) */
+export interface ConnectionOverride {
+    /** Language server host */
+    host: string;
+    /** Fixed language server port (0 = auto-discover) */
+    port: number;
+    /** Path to a file containing the CSRF token */
+    tokenFile: string;
+    /** Name of an environment variable containing the CSRF token */
+    tokenEnvVar: string;
+}
+
+/** Adaptive scan interval bounds in seconds (min <= baseline <= max) */
+export interface ScanBounds {
+    /** Interval used when readiness gives no reason to speed up or slow down */
+    baselineSeconds: number;
+    /** Interval used while any model is WARNING or CRITICAL */
+    minSeconds: number;
+    /** Interval used while every model is NOMINAL */
+    maxSeconds: number;
+}
+
+/** Periodic scan scheduler state, for diagnostics */
+export interface ScanScheduleStatus {
+    /** Active bounds; undefined when periodic scans are stopped */
+    bounds?: ScanBounds;
+    /** Whether scans are paused (window unfocused or user idle) */
+    paused: boolean;
+    /** Epoch ms of the next scheduled scan */
+    nextScanAt?: number;
+    /** Epoch ms of the one-off scan after the next quota reset */
+    nextResetScanAt?: number;
 }
 
 /** Configuration for the extension (simplified) */
 export interface TelemetryConfig {
+    /** Baseline scan interval in seconds */
     scanInterval: number;
+    /** Fastest adaptive scan interval in seconds */
+    minScanInterval: number;
+    /** Slowest adaptive scan interval in seconds */
+    maxScanInterval: number;
+    /** Seconds between liveness heartbeats; 0 disables the heartbeat */
+    heartbeatInterval: number;
+    /** Maximum number of ports probed simultaneously during discovery */
+    probeConcurrency: number;
+    /** Extra directories trusted to hold the language server executable */
+    trustedServerPaths: string[];
+    connection: ConnectionOverride;
 }
 
 /** API response from the language server */
@@ -76,7 +432,20 @@ export interface ServerTelemetryResponse {
         cascadeModelConfigData?: {
             clientModelConfigs?: ModelConfig[];
         };
+        planStatus?: PlanStatus;
+    };
+}
+
+/** Plan and credit balances from API (int64 counts may arrive as strings) */
+export interface PlanStatus {
+    planInfo?: {
+        planName?: string;
+        teamsTier?: string;
+        monthlyPromptCredits?: number | string;
+        monthlyFlowCredits?: number | string;
     };
+    availablePromptCredits?: number | string;
+    availableFlowCredits?: number | string;
 }
 
 /** Model configuration from API */
@@ -85,6 +454,11 @@ export interface ModelConfig {
     modelOrAlias?: {
         model?: string;
     };
+    isRecommended?: boolean;
+    supportsImages?: boolean;
+    modelProvider?: string;
+    allowedTiers?: string[];
+    tagTitle?: string;
     quotaInfo?: {
         /** Remaining quota fraction (0.0-1.0). May be missing when quota is exhausted. */
         remainingFraction?: number;
@@ -93,22 +467,110 @@ export interface ModelConfig {
     };
 }
 
-/** Event types for the telemetry bus */
-export type TelemetryEventType =
-    | 'uplink-established'
-    | 'uplink-lost'
-    | 'telemetry-received'
-    | 'scan-started'
-    | 'scan-completed'
-    | 'error';
-
-/** Event payload structure */
-export interface TelemetryEvent {
-    type: TelemetryEventType;
-    timestamp: number;
-    payload?: unknown;
+/** Fields shared by every telemetry error */
+interface TelemetryErrorBase {
+    message: string;
+}
+
+/** No language server process could be located */
+export interface DiscoveryFailedError extends TelemetryErrorBase {
+    kind: 'discovery-failed';
 }
 
+/** Language servers were found but none of their ports accepted the probe */
+export interface PortScanFailedError extends TelemetryErrorBase {
+    kind: 'port-scan-failed';
+    scans: { pid?: number; results: PortProbeResult[] }[];
+}
+
+/** The request failed below HTTP (refused, reset, timeout, TLS) */
+export interface TransportError extends TelemetryErrorBase {
+    kind: 'transport';
+    /** Node.js error code such as ECONNREFUSED, or 'timeout' */
+    code?: string;
+}
+
+/** Non-200 response without a Connect error body */
+export interface HttpStatusError extends TelemetryErrorBase {
+    kind: 'http-status';
+    statusCode: number;
+    connectError: ConnectError;
+    reason: ConnectFailureReason;
+}
+
+/** Non-200 response carrying a Connect error body */
+export interface ConnectErrorResponse extends TelemetryErrorBase {
+    kind: 'connect-error';
+    connectError: ConnectError;
+    reason: ConnectFailureReason;
+}
+
+/** The response did not match the expected schema */
+export interface SchemaInvalidError extends TelemetryErrorBase {
+    kind: 'schema-invalid';
+    errors: string[];
+    receivedKeys: string[];
+}
+
+/** The response body could not be read or decoded */
+export interface ParseFailedError extends TelemetryErrorBase {
+    kind: 'parse-failed';
+}
+
+/** A server presented a different certificate than the one pinned for its pid and port */
+export interface CertificateMismatchError extends TelemetryErrorBase {
+    kind: 'certificate-mismatch';
+    pid?: number;
+    port: number;
+    /** SHA-256 fingerprint recorded on first use */
+    pinned: string;
+    /** Fingerprint presented now; undefined when the port answered plain HTTP */
+    received?: string;
+}
+
+/** Failure threshold reached; used for user feedback */
+export interface ConsecutiveFailuresError extends TelemetryErrorBase {
+    kind: 'consecutive-failures';
+    reason: string;
+    failureCount: number;
+}
+
+/** Errors reported on the telemetry bus, discriminated by `kind` */
+export type TelemetryError =
+    | DiscoveryFailedError
+    | PortScanFailedError
+    | TransportError
+    | HttpStatusError
+    | ConnectErrorResponse
+    | SchemaInvalidError
+    | ParseFailedError
+    | CertificateMismatchError
+    | ConsecutiveFailuresError;
+
+/** Payload carried by each telemetry bus event */
+export interface TelemetryEventPayloads {
+    'uplink-established': { port?: number };
+    'uplink-lost': undefined;
+    'telemetry-received': TelemetrySnapshot;
+    'scan-started': undefined;
+    'scan-completed': undefined;
+    'state-changed': ConnectionStateChange;
+    'schema-changed': SchemaChange;
+    'error': TelemetryError;
+}
+
+/** Event types for the telemetry bus */
+export type TelemetryEventType = keyof TelemetryEventPayloads;
+
+/** Event structure, with the payload type checked per event type */
+export type TelemetryEvent = {
+    [K in TelemetryEventType]: {
+        type: K;
+        timestamp: number;
+        payload: TelemetryEventPayloads[K];
+    };
+}[TelemetryEventType];
+
 /** Tree item types for the views */
 export enum TreeItemType {
     SYSTEM_HEADER = 'system-header',
@@ -117,5 +579,6 @@ export enum TreeItemType {
     REPLENISH_TIMER = 'replenish-timer',
     INFO_ITEM = 'info-item',
     UPLINK_STATUS = 'uplink-status',
+    SERVER_INSTANCE = 'server-instance',
     QUOTA_POOL = 'quota-pool'
 }